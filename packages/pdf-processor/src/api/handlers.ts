@@ -1,84 +1,504 @@
-import { aiVisionProcessor, extractInvoice, extractTables } from "../core/vision";
+import { aiVisionProcessor, extractWithAIMetadata, type AIVisionProcessingOptions } from "../core/vision";
+import { ComprehensiveInvoiceSchema, TablesOnlySchema } from "../core/schemas";
 import { createModuleLogger } from "../utils/logger";
-import { validateExtractRequest } from './validation';
-import { createTempFile } from './utils';
+import type { PdfProcessorConfig } from "../core/types";
+import type { JobQueue } from "../core/jobs";
+import { validateExtractRequest, type VisionExtractRequest } from './validation';
+import { runBatch } from "../core/vision/batch";
+import { createTempFile, expandBatchUploads, getFileExtension, getUploadExtension, parseEnsembleMembers, type BatchUpload } from './utils';
 
 const logger = createModuleLogger('api-handlers');
 
+/** Nombre maximum de fichiers d'un lot, archives décompressées */
+const MAX_BATCH_FILES = 100;
+/** Nombre maximum de fichiers traités simultanément dans un lot */
+const MAX_BATCH_CONCURRENCY = 8;
+
+type MultipartForm = Awaited<ReturnType<Request['formData']>>;
+
+/**
+ * Lit et valide le formulaire d'une requête d'extraction (fichier + paramètres)
+ */
+async function readExtractRequest(
+  req: Request,
+  corsHeaders: Record<string, string>
+): Promise<{ response: Response } | { file: File; options: VisionExtractRequest }> {
+  const form = await readMultipartForm(req, corsHeaders);
+  if ('response' in form) {
+    return form;
+  }
+  
+  const pdfFile = form.formData.get("file");
+  
+  if (!pdfFile || !(pdfFile instanceof File)) {
+    return {
+      response: new Response(
+        JSON.stringify({ success: false, error: "Fichier PDF ou image manquant ou invalide" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      )
+    };
+  }
+  
+  const options = readExtractOptions(form.formData, corsHeaders);
+  return 'response' in options ? options : { file: pdfFile, options: options.options };
+}
+
+/**
+ * Lit le corps multipart d'une requête
+ */
+async function readMultipartForm(
+  req: Request,
+  corsHeaders: Record<string, string>
+): Promise<{ response: Response } | { formData: MultipartForm }> {
+  const contentType = req.headers.get("Content-Type") || "";
+  if (!contentType.includes("multipart/form-data")) {
+    return {
+      response: new Response(
+        JSON.stringify({ success: false, error: "Content-Type doit être multipart/form-data" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      )
+    };
+  }
+  
+  return { formData: await req.formData() };
+}
+
+/**
+ * Lit et valide les paramètres d'extraction du formulaire
+ */
+function readExtractOptions(
+  formData: MultipartForm,
+  corsHeaders: Record<string, string>
+): { response: Response } | { options: VisionExtractRequest } {
+  const requestBody = {
+    provider: formData.get("provider")?.toString(),
+    model: formData.get("model")?.toString(),
+    mode: formData.get("mode")?.toString(),
+    query: formData.get("query")?.toString(),
+    autoOrient: formData.get("autoOrient")?.toString() === "true",
+    cropMode: formData.get("cropMode")?.toString(),
+    cropSize: formData.get("cropSize") ? parseInt(formData.get("cropSize")!.toString()) : undefined,
+    tiling: formData.get("tiling")?.toString() === "true",
+    tileOverlap: formData.get("tileOverlap") ? parseFloat(formData.get("tileOverlap")!.toString()) : undefined,
+    tablesOnly: formData.get("tablesOnly")?.toString() === "true",
+    documentType: formData.get("documentType")?.toString(),
+    enhanceContrast: formData.get("enhanceContrast")?.toString() !== "false",
+    targetQuality: formData.get("targetQuality") ? parseInt(formData.get("targetQuality")!.toString()) : undefined,
+    pages: formData.get("pages")?.toString() || undefined,
+    pagesPerRequest: formData.get("pagesPerRequest") ? parseInt(formData.get("pagesPerRequest")!.toString()) : undefined,
+    grounding: formData.get("grounding")?.toString() === "true",
+    requiredFields: formData.get("requiredFields")?.toString().split(",").map(field => field.trim()).filter(Boolean),
+    selfCorrect: formData.get("selfCorrect")?.toString() === "true",
+    maxCorrectionRounds: formData.get("maxCorrectionRounds") ? parseInt(formData.get("maxCorrectionRounds")!.toString()) : undefined,
+    confidence: formData.get("confidence")?.toString() === "true",
+    confidenceSamples: formData.get("confidenceSamples") ? parseInt(formData.get("confidenceSamples")!.toString()) : undefined,
+    confidenceThreshold: formData.get("confidenceThreshold") ? parseFloat(formData.get("confidenceThreshold")!.toString()) : undefined,
+    ensemble: parseEnsembleMembers(formData.get("ensemble")?.toString()),
+    ensembleStrategy: formData.get("ensembleStrategy")?.toString(),
+    autoClassify: formData.get("autoClassify")?.toString() === "true",
+    classifierModel: formData.get("classifierModel")?.toString() || undefined,
+    split: formData.get("split")?.toString() === "true",
+    splitterModel: formData.get("splitterModel")?.toString() || undefined,
+    cache: formData.get("cache")?.toString(),
+    callbackUrl: formData.get("callbackUrl")?.toString() || undefined,
+    debug: formData.get("debug")?.toString() === "true",
+  };
+  
+  const validation = validateExtractRequest(requestBody);
+  if (!validation.valid) {
+    return {
+      response: new Response(
+        JSON.stringify({ success: false, error: `Paramètres invalides: ${validation.error}` }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      )
+    };
+  }
+  
+  return { options: validation.data! };
+}
+
+/**
+ * Options du processeur pour une requête d'extraction validée
+ */
+function toProcessingOptions(options: VisionExtractRequest, pdfProcessor?: PdfProcessorConfig): AIVisionProcessingOptions {
+  return {
+    provider: options.provider!,
+    model: options.model,
+    mode: options.mode,
+    query: options.query,
+    autoOrient: options.autoOrient,
+    cropMode: options.cropMode,
+    cropSize: options.cropSize,
+    tiling: options.tiling,
+    tileOverlap: options.tileOverlap,
+    tablesOnly: options.tablesOnly,
+    documentType: options.documentType,
+    enhanceContrast: options.enhanceContrast,
+    targetQuality: options.targetQuality,
+    pages: options.pages,
+    pagesPerRequest: options.pagesPerRequest,
+    grounding: options.grounding,
+    requiredFields: options.requiredFields,
+    selfCorrect: options.selfCorrect,
+    maxCorrectionRounds: options.maxCorrectionRounds,
+    confidence: options.confidence,
+    confidenceSamples: options.confidenceSamples,
+    confidenceThreshold: options.confidenceThreshold,
+    ensemble: options.ensemble,
+    ensembleStrategy: options.ensembleStrategy,
+    autoClassify: options.autoClassify,
+    classifier: options.classifierModel ? { model: options.classifierModel } : undefined,
+    splitter: options.splitterModel ? { model: options.splitterModel } : undefined,
+    cache: options.cache,
+    pdfProcessor,
+    dpi: 300,
+  };
+}
+
 /**
  * Handler pour l'extraction configurable
  */
-export async function handleExtractRequest(req: Request, corsHeaders: Record<string, string>) {
+export async function handleExtractRequest(req: Request, corsHeaders: Record<string, string>, pdfProcessor?: PdfProcessorConfig) {
   try {
     logger.info('🎯 Requête Vision LLM reçue');
     
-    const contentType = req.headers.get("Content-Type") || "";
-    if (!contentType.includes("multipart/form-data")) {
-      return new Response(
-        JSON.stringify({ success: false, error: "Content-Type doit être multipart/form-data" }),
-        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+    const request = await readExtractRequest(req, corsHeaders);
+    if ('response' in request) {
+      return request.response;
     }
     
-    const formData = await req.formData();
-    const pdfFile = formData.get("file");
+    const { file, options } = request;
+    logger.info({ provider: options.provider, model: options.model || 'default', query: options.query }, '🔧 Configuration requête');
     
-    if (!pdfFile || !(pdfFile instanceof File)) {
+    const { filePath, cleanup } = await createTempFile(await file.arrayBuffer(), getUploadExtension(file));
+    
+    try {
+      // Fichier regroupant plusieurs documents : une extraction par sous-document
+      if (options.split) {
+        const result = await aiVisionProcessor.processDocuments(filePath, toProcessingOptions(options, pdfProcessor));
+        
+        logger.info({ processingTime: result.metadata.processingTime, documents: result.documents.length, totalTokens: result.metadata.usage.totalTokens }, '✅ Sous-documents extraits');
+        
+        return new Response(
+          JSON.stringify({ success: true, ...result }, null, options.debug ? 2 : 0),
+          { headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+      
+      const result = await aiVisionProcessor.process(filePath, toProcessingOptions(options, pdfProcessor));
+      
+      logger.info({ processingTime: result.metadata.processingTime, pages: result.metadata.pageCount, totalTokens: result.metadata.usage?.totalTokens, estimatedCost: result.metadata.usage?.estimatedCost, cache: result.metadata.cache?.status }, '✅ Extraction réussie');
+      
       return new Response(
-        JSON.stringify({ success: false, error: "Fichier PDF manquant ou invalide" }),
-        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        JSON.stringify({ success: true, ...result }, null, options.debug ? 2 : 0),
+        { headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
+    } finally {
+      await cleanup();
     }
+  } catch (error: any) {
+    logger.error({ error }, '❌ Erreur Vision API');
+    return new Response(
+      JSON.stringify({ success: false, error: `Erreur serveur: ${error.message}` }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handler pour l'extraction en flux (Server-Sent Events)
+ *
+ * Événements émis : progress (étape du traitement), partial (objet partiel), result (même contenu
+ * que /api/v1/vision/extract) puis error en cas d'échec.
+ */
+export async function handleExtractStreamRequest(req: Request, corsHeaders: Record<string, string>, pdfProcessor?: PdfProcessorConfig) {
+  try {
+    logger.info('🌊 Requête Vision LLM en flux reçue');
     
-    const requestBody = {
-      provider: formData.get("provider")?.toString(),
-      model: formData.get("model")?.toString(),
-      query: formData.get("query")?.toString(),
-      cropSize: formData.get("cropSize") ? parseInt(formData.get("cropSize")!.toString()) : undefined,
-      tablesOnly: formData.get("tablesOnly")?.toString() === "true",
-      documentType: formData.get("documentType")?.toString(),
-      enhanceContrast: formData.get("enhanceContrast")?.toString() !== "false",
-      targetQuality: formData.get("targetQuality") ? parseInt(formData.get("targetQuality")!.toString()) : undefined,
-      debug: formData.get("debug")?.toString() === "true",
-    };
+    const request = await readExtractRequest(req, corsHeaders);
+    if ('response' in request) {
+      return request.response;
+    }
+    
+    const { file, options } = request;
+    const { filePath, cleanup } = await createTempFile(await file.arrayBuffer(), getUploadExtension(file));
+    const encoder = new TextEncoder();
+    // Déconnexion du client : l'extraction s'arrête au prochain appel au modèle
+    const abort = new AbortController();
+    let closed = false;
+    
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        // Le client peut se déconnecter avant la fin : plus rien n'est envoyé
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+        
+        try {
+          for await (const event of aiVisionProcessor.processStream(filePath, { ...toProcessingOptions(options, pdfProcessor), abortSignal: abort.signal })) {
+            if (event.type === 'progress') {
+              const { type, ...progress } = event;
+              send('progress', progress);
+            } else if (event.type === 'partial') {
+              send('partial', event.data);
+            } else {
+              logger.info({ processingTime: event.result.metadata.processingTime, pages: event.result.metadata.pageCount }, '✅ Extraction en flux réussie');
+              send('result', { success: true, ...event.result });
+            }
+          }
+        } catch (error: any) {
+          if (abort.signal.aborted) {
+            logger.info('🛑 Client déconnecté, extraction en flux interrompue');
+          } else {
+            logger.error({ error }, '❌ Erreur Vision API (flux)');
+            send('error', { success: false, error: `Erreur serveur: ${error.message}` });
+          }
+        } finally {
+          await cleanup();
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+        abort.abort();
+      }
+    });
+    
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        ...corsHeaders
+      }
+    });
+  } catch (error: any) {
+    logger.error({ error }, '❌ Erreur Vision API (flux)');
+    return new Response(
+      JSON.stringify({ success: false, error: `Erreur serveur: ${error.message}` }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handler pour l'extraction par lot (plusieurs champs file et/ou archives ZIP)
+ *
+ * Mêmes paramètres que /api/v1/vision/extract, appliqués à chaque fichier, plus concurrency.
+ * Répond en NDJSON : une ligne "result" par fichier dès qu'il est terminé, puis une ligne "summary".
+ */
+export async function handleExtractBatchRequest(req: Request, corsHeaders: Record<string, string>, pdfProcessor?: PdfProcessorConfig) {
+  const badRequest = (error: string) => new Response(
+    JSON.stringify({ success: false, error }),
+    { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+  );
+  
+  try {
+    logger.info('📚 Requête d\'extraction par lot reçue');
+    
+    const form = await readMultipartForm(req, corsHeaders);
+    if ('response' in form) {
+      return form.response;
+    }
     
-    const validation = validateExtractRequest(requestBody);
-    if (!validation.valid) {
+    const uploads = form.formData.getAll("file").flatMap(entry => entry instanceof File ? [entry] : []);
+    if (uploads.length === 0) {
+      return badRequest("Aucun fichier PDF, image ou archive ZIP dans le champ file");
+    }
+    
+    const request = readExtractOptions(form.formData, corsHeaders);
+    if ('response' in request) {
+      return request.response;
+    }
+    
+    const concurrencyField = form.formData.get("concurrency")?.toString();
+    const concurrency = concurrencyField ? Number(concurrencyField) : undefined;
+    if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency >= 1 && concurrency <= MAX_BATCH_CONCURRENCY)) {
+      return badRequest(`Paramètres invalides: concurrency doit être un entier entre 1 et ${MAX_BATCH_CONCURRENCY}`);
+    }
+    
+    let files: BatchUpload[];
+    try {
+      files = await expandBatchUploads(uploads);
+    } catch (error: any) {
+      return badRequest(error.message);
+    }
+    
+    if (files.length === 0) {
+      return badRequest("Aucun PDF ni image pris en charge dans le lot");
+    }
+    if (files.length > MAX_BATCH_FILES) {
+      return badRequest(`Lot trop volumineux: ${files.length} fichiers (maximum ${MAX_BATCH_FILES})`);
+    }
+    
+    const processingOptions = toProcessingOptions(request.options, pdfProcessor);
+    const encoder = new TextEncoder();
+    // Déconnexion du client : les fichiers restants ne sont pas traités
+    const abort = new AbortController();
+    let closed = false;
+    
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (line: unknown) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+        };
+        const startTime = Date.now();
+        
+        try {
+          const results = await runBatch(files, file => file.name, async file => {
+            const { filePath, cleanup } = await createTempFile(file.content, getFileExtension(file.name));
+            try {
+              return await aiVisionProcessor.process(filePath, { ...processingOptions, abortSignal: abort.signal });
+            } finally {
+              await cleanup();
+            }
+          }, {
+            concurrency,
+            abortSignal: abort.signal,
+            onResult: item => send(item.success
+              ? { type: 'result', index: item.index, file: item.file, success: true, durationMs: item.durationMs, ...item.result }
+              : { type: 'result', index: item.index, file: item.file, success: false, durationMs: item.durationMs, error: item.error })
+          });
+          
+          const succeeded = results.filter(item => item.success).length;
+          send({ type: 'summary', total: results.length, succeeded, failed: results.length - succeeded, processingTime: Date.now() - startTime });
+        } catch (error: any) {
+          logger.error({ error }, '❌ Erreur Vision API (lot)');
+          send({ type: 'error', success: false, error: `Erreur serveur: ${error.message}` });
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+        abort.abort();
+      }
+    });
+    
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache",
+        ...corsHeaders
+      }
+    });
+  } catch (error: any) {
+    logger.error({ error }, '❌ Erreur Vision API (lot)');
+    return new Response(
+      JSON.stringify({ success: false, error: `Erreur serveur: ${error.message}` }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handler de création d'une tâche d'extraction asynchrone
+ *
+ * Mêmes paramètres que /api/v1/vision/extract, plus callbackUrl. Répond 202 avec la tâche créée ;
+ * son état et son résultat sont ensuite disponibles sur /api/v1/jobs/:id.
+ */
+export async function handleCreateJobRequest(req: Request, corsHeaders: Record<string, string>, jobQueue: JobQueue, pdfProcessor?: PdfProcessorConfig) {
+  try {
+    const request = await readExtractRequest(req, corsHeaders);
+    if ('response' in request) {
+      return request.response;
+    }
+    
+    const { file, options } = request;
+    const { filePath, cleanup } = await createTempFile(await file.arrayBuffer(), getUploadExtension(file));
+    
+    let job;
+    try {
+      job = await jobQueue.submit({
+        filePath,
+        options: toProcessingOptions(options, pdfProcessor),
+        fileName: file.name || undefined,
+        callbackUrl: options.callbackUrl,
+        cleanup
+      });
+    } catch (error: any) {
+      await cleanup();
       return new Response(
-        JSON.stringify({ success: false, error: `Paramètres invalides: ${validation.error}` }),
+        JSON.stringify({ success: false, error: error.message }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
     
-    const options = validation.data!;
-    logger.info({ provider: options.provider, model: options.model || 'default', query: options.query }, '🔧 Configuration requête');
+    return new Response(
+      JSON.stringify({ success: true, job }),
+      { status: 202, headers: { "Content-Type": "application/json", "Location": `/api/v1/jobs/${job.id}`, ...corsHeaders } }
+    );
+  } catch (error: any) {
+    logger.error({ error }, '❌ Erreur création de tâche');
+    return new Response(
+      JSON.stringify({ success: false, error: `Erreur serveur: ${error.message}` }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handler de consultation d'une tâche (état, résultat ou erreur)
+ */
+export async function handleGetJobRequest(jobId: string, corsHeaders: Record<string, string>, jobQueue: JobQueue) {
+  try {
+    const job = await jobQueue.get(jobId);
+    if (!job) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Tâche introuvable: ${jobId}` }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
     
-    const { filePath, cleanup } = await createTempFile(await pdfFile.arrayBuffer());
+    return new Response(
+      JSON.stringify({ success: true, job }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ success: false, error: `Erreur serveur: ${error.message}` }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handler d'annulation d'une tâche en attente ou en cours (409 si elle est déjà terminée)
+ */
+export async function handleCancelJobRequest(jobId: string, corsHeaders: Record<string, string>, jobQueue: JobQueue) {
+  try {
+    const existing = await jobQueue.get(jobId);
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Tâche introuvable: ${jobId}` }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
     
-    try {
-      const result = await aiVisionProcessor.process(filePath, {
-        provider: options.provider!,
-        model: options.model,
-        query: options.query,
-        cropSize: options.cropSize,
-        tablesOnly: options.tablesOnly,
-        documentType: options.documentType,
-        enhanceContrast: options.enhanceContrast,
-        targetQuality: options.targetQuality,
-        dpi: 300,
-      });
-      
-      logger.info({ processingTime: result.metadata.processingTime, pages: result.metadata.pageCount }, '✅ Extraction réussie');
-      
+    // Une tâche déjà annulée ou terminée n'est pas modifiée
+    const job = existing.status === 'queued' || existing.status === 'running'
+      ? (await jobQueue.cancel(jobId)) ?? existing
+      : existing;
+    if (job === existing || job.status !== 'cancelled') {
       return new Response(
-        JSON.stringify({ success: true, ...result }, null, options.debug ? 2 : 0),
-        { headers: { "Content-Type": "application/json", ...corsHeaders } }
+        JSON.stringify({ success: false, error: `Tâche déjà terminée (${job.status})`, job }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
-    } finally {
-      await cleanup();
     }
+    
+    return new Response(
+      JSON.stringify({ success: true, job }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
   } catch (error: any) {
-    logger.error({ error }, '❌ Erreur Vision API');
     return new Response(
       JSON.stringify({ success: false, error: `Erreur serveur: ${error.message}` }),
       { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
@@ -89,29 +509,31 @@ export async function handleExtractRequest(req: Request, corsHeaders: Record<str
 /**
  * Handler pour l'extraction de factures
  */
-export async function handleInvoiceRequest(req: Request, corsHeaders: Record<string, string>) {
+export async function handleInvoiceRequest(req: Request, corsHeaders: Record<string, string>, pdfProcessor?: PdfProcessorConfig) {
   try {
     const formData = await req.formData();
     const pdfFile = formData.get("file");
     
     if (!pdfFile || !(pdfFile instanceof File)) {
       return new Response(
-        JSON.stringify({ success: false, error: "Fichier PDF requis" }),
+        JSON.stringify({ success: false, error: "Fichier PDF ou image requis" }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
     
-    const { filePath, cleanup } = await createTempFile(await pdfFile.arrayBuffer());
+    const { filePath, cleanup } = await createTempFile(await pdfFile.arrayBuffer(), getUploadExtension(pdfFile));
     
     try {
-      const invoiceData = await extractInvoice(filePath, {
+      const result = await extractWithAIMetadata(filePath, ComprehensiveInvoiceSchema, {
+        documentType: 'invoice',
         provider: (formData.get("provider")?.toString() as any) || 'scaleway',
         model: formData.get("model")?.toString(),
         cropSize: formData.get("cropSize") ? parseInt(formData.get("cropSize")!.toString()) : undefined,
+        pdfProcessor
       });
       
       return new Response(
-        JSON.stringify({ success: true, invoice: invoiceData }),
+        JSON.stringify({ success: true, invoice: result.data, metadata: result.metadata }),
         { headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     } finally {
@@ -128,28 +550,30 @@ export async function handleInvoiceRequest(req: Request, corsHeaders: Record<str
 /**
  * Handler pour l'extraction de tableaux
  */
-export async function handleTablesRequest(req: Request, corsHeaders: Record<string, string>) {
+export async function handleTablesRequest(req: Request, corsHeaders: Record<string, string>, pdfProcessor?: PdfProcessorConfig) {
   try {
     const formData = await req.formData();
     const pdfFile = formData.get("file");
     
     if (!pdfFile || !(pdfFile instanceof File)) {
       return new Response(
-        JSON.stringify({ success: false, error: "Fichier PDF requis" }),
+        JSON.stringify({ success: false, error: "Fichier PDF ou image requis" }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
     
-    const { filePath, cleanup } = await createTempFile(await pdfFile.arrayBuffer());
+    const { filePath, cleanup } = await createTempFile(await pdfFile.arrayBuffer(), getUploadExtension(pdfFile));
     
     try {
-      const tablesData = await extractTables(filePath, {
+      const result = await extractWithAIMetadata(filePath, TablesOnlySchema, {
+        tablesOnly: true,
         provider: (formData.get("provider")?.toString() as any) || 'scaleway',
         model: formData.get("model")?.toString(),
+        pdfProcessor
       });
       
       return new Response(
-        JSON.stringify({ success: true, tables: tablesData }),
+        JSON.stringify({ success: true, tables: result.data, metadata: result.metadata }),
         { headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     } finally {
@@ -12,8 +12,22 @@ try {
   console.warn('Bun runtime not detected. Server functionality requires Bun runtime.');
 }
 import { createModuleLogger } from "../utils/logger";
-import { handleExtractRequest, handleInvoiceRequest, handleTablesRequest } from './handlers';
+import {
+  handleExtractRequest,
+  handleExtractStreamRequest,
+  handleExtractBatchRequest,
+  handleInvoiceRequest,
+  handleTablesRequest,
+  handleCreateJobRequest,
+  handleGetJobRequest,
+  handleCancelJobRequest
+} from './handlers';
 import { createCorsHeaders } from './utils';
+import { providerRegistry } from '../core/providers';
+import { usageTracker } from '../core/vision/usage';
+import { schemaRegistry } from '../core/schemas';
+import { JobQueue, type JobStore } from '../core/jobs';
+import type { PdfProcessorConfig } from '../core/types';
 
 const logger = createModuleLogger('api-server');
 
@@ -24,8 +38,21 @@ export interface APIServerConfig {
   port?: number;
   cors?: boolean;
   corsOrigins?: string[];
+  /** Configuration des providers utilisée par /api/v1/vision/extract (clés, bascule, prix, cache) */
+  pdfProcessor?: PdfProcessorConfig;
+  /** Tâches asynchrones de /api/v1/jobs (défaut: stockage en mémoire, une extraction à la fois) */
+  jobs?: {
+    store?: JobStore;
+    concurrency?: number;
+    /** Secret de signature des webhooks (défaut: EK_WEBHOOK_SECRET), requis pour accepter callbackUrl */
+    webhookSecret?: string;
+    /** Hôtes internes acceptés comme URL de rappel (défaut: EK_WEBHOOK_ALLOWED_HOSTS, séparés par des virgules) */
+    allowedCallbackHosts?: string[];
+  };
 }
 
+const JOB_ROUTE = /^\/api\/v1\/jobs\/([\w-]+)$/;
+
 /**
  * Crée et configure un serveur API Vision
  */
@@ -43,10 +70,17 @@ export function createVisionAPI(config: APIServerConfig = {}) {
 
   const corsHeaders = serverConfig.cors ? createCorsHeaders(serverConfig.corsOrigins) : {};
 
+  const jobQueue = new JobQueue({
+    store: config.jobs?.store,
+    concurrency: config.jobs?.concurrency,
+    webhookSecret: config.jobs?.webhookSecret ?? process.env.EK_WEBHOOK_SECRET,
+    allowedCallbackHosts: config.jobs?.allowedCallbackHosts ?? process.env.EK_WEBHOOK_ALLOWED_HOSTS?.split(',').map(host => host.trim()).filter(Boolean)
+  });
+
   const server = serve({
     port: serverConfig.port,
     
-    async fetch(req: Request) {
+    async fetch(req: Request, server: any) {
       const url = new URL(req.url);
       
       // CORS Preflight
@@ -60,7 +94,7 @@ export function createVisionAPI(config: APIServerConfig = {}) {
           status: "ok", 
           service: "vision-llm-api",
           features: ["sharp-optimization", "zod-validation", "ai-sdk"],
-          providers: ["scaleway", "ollama"]
+          providers: providerRegistry.names()
         }), {
           headers: { "Content-Type": "application/json", ...corsHeaders }
         });
@@ -68,15 +102,55 @@ export function createVisionAPI(config: APIServerConfig = {}) {
       
       // Route handlers
       if (url.pathname === "/api/v1/vision/extract" && req.method === "POST") {
-        return await handleExtractRequest(req, corsHeaders);
+        return await handleExtractRequest(req, corsHeaders, config.pdfProcessor);
+      }
+      
+      if (url.pathname === "/api/v1/vision/extract/stream" && req.method === "POST") {
+        // Pas de délai d'inactivité : le modèle peut rester longtemps sans émettre d'événement
+        server?.timeout?.(req, 0);
+        return await handleExtractStreamRequest(req, corsHeaders, config.pdfProcessor);
+      }
+      
+      if (url.pathname === "/api/v1/vision/extract/batch" && req.method === "POST") {
+        // Un lot peut durer longtemps entre deux lignes de résultat
+        server?.timeout?.(req, 0);
+        return await handleExtractBatchRequest(req, corsHeaders, config.pdfProcessor);
       }
       
       if (url.pathname === "/api/v1/vision/invoice" && req.method === "POST") {
-        return await handleInvoiceRequest(req, corsHeaders);
+        return await handleInvoiceRequest(req, corsHeaders, config.pdfProcessor);
       }
       
       if (url.pathname === "/api/v1/vision/tables" && req.method === "POST") {
-        return await handleTablesRequest(req, corsHeaders);
+        return await handleTablesRequest(req, corsHeaders, config.pdfProcessor);
+      }
+      
+      // Tâches asynchrones
+      if (url.pathname === "/api/v1/jobs" && req.method === "POST") {
+        return await handleCreateJobRequest(req, corsHeaders, jobQueue, config.pdfProcessor);
+      }
+      
+      const jobMatch = url.pathname.match(JOB_ROUTE);
+      if (jobMatch && req.method === "GET") {
+        return await handleGetJobRequest(jobMatch[1]!, corsHeaders, jobQueue);
+      }
+      
+      if (jobMatch && req.method === "DELETE") {
+        return await handleCancelJobRequest(jobMatch[1]!, corsHeaders, jobQueue);
+      }
+      
+      // Consommation cumulée depuis le démarrage
+      if (url.pathname === "/api/v1/usage" && req.method === "GET") {
+        return new Response(JSON.stringify({ success: true, usage: usageTracker.getTotals() }), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
+      }
+      
+      // Schémas de document disponibles pour documentType
+      if (url.pathname === "/api/v1/schemas" && req.method === "GET") {
+        return new Response(JSON.stringify({ success: true, schemas: schemaRegistry.list() }), {
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        });
       }
       
       // 404
@@ -86,8 +160,15 @@ export function createVisionAPI(config: APIServerConfig = {}) {
           error: "Route non trouvée",
           availableEndpoints: [
             "POST /api/v1/vision/extract - Extraction configurable",
+            "POST /api/v1/vision/extract/stream - Extraction configurable en flux (SSE)",
+            "POST /api/v1/vision/extract/batch - Extraction par lot, fichiers ou archives ZIP (NDJSON)",
             "POST /api/v1/vision/invoice - Extraction facture rapide",
             "POST /api/v1/vision/tables - Extraction tableaux rapide",
+            "POST /api/v1/jobs - Extraction asynchrone (tâche + webhook optionnel)",
+            "GET /api/v1/jobs/:id - État et résultat d'une tâche",
+            "DELETE /api/v1/jobs/:id - Annulation d'une tâche",
+            "GET /api/v1/usage - Consommation cumulée (tokens, coût estimé)",
+            "GET /api/v1/schemas - Schémas de document (documentType)",
             "GET /health - Status"
           ]
         }),
@@ -103,10 +184,17 @@ export function createVisionAPI(config: APIServerConfig = {}) {
   logger.info('Routes disponibles:');
   logger.info('- GET  /health: Status du service');
   logger.info('- POST /api/v1/vision/extract: Extraction configurable avec Zod + AI SDK');
+  logger.info('- POST /api/v1/vision/extract/stream: Extraction en flux (Server-Sent Events)');
+  logger.info('- POST /api/v1/vision/extract/batch: Extraction par lot (NDJSON)');
   logger.info('- POST /api/v1/vision/invoice: Extraction facture rapide');
   logger.info('- POST /api/v1/vision/tables: Extraction tableaux rapide');
+  logger.info('- POST /api/v1/jobs: Extraction asynchrone (tâche + webhook optionnel)');
+  logger.info('- GET  /api/v1/jobs/:id: État et résultat d\'une tâche');
+  logger.info('- DELETE /api/v1/jobs/:id: Annulation d\'une tâche');
+  logger.info('- GET  /api/v1/usage: Consommation cumulée');
+  logger.info('- GET  /api/v1/schemas: Schémas de document');
   logger.info('✨ Optimisations: Sharp Vision LLM + Zod validation + AI SDK generateObject');
-  logger.info({ baseUrl: process.env.EK_AI_BASE_URL }, '📊 Providers: Scaleway + Ollama local');
+  logger.info({ baseUrl: process.env.EK_AI_BASE_URL, providers: providerRegistry.names() }, '📊 Providers enregistrés');
 
   return server;
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import fs from "fs/promises";
+import { randomUUID } from "crypto";
 import path from "path";
 import { createModuleLogger } from "../utils/logger";
+import { isZipArchive, readZipEntries, type ZipLimits } from "./zip";
 
 const logger = createModuleLogger('api-utils');
 
@@ -11,7 +13,7 @@ export async function createTempFile(
   content: Buffer | ArrayBuffer,
   extension = "pdf"
 ): Promise<{ filePath: string; cleanup: () => Promise<void> }> {
-  const tempFileName = path.join("/tmp", `vision_${Date.now()}.${extension}`);
+  const tempFileName = path.join("/tmp", `vision_${Date.now()}_${randomUUID()}.${extension}`);
   
   await Bun.write(tempFileName, content);
   logger.debug({ filePath: tempFileName }, '📁 Fichier temporaire créé');
@@ -29,13 +31,90 @@ export async function createTempFile(
   };
 }
 
+/**
+ * Extensions acceptées en upload (PDF et images)
+ */
+const SUPPORTED_UPLOAD_EXTENSIONS = ["pdf", "jpg", "jpeg", "png", "tif", "tiff", "webp", "heic", "heif"];
+
+/**
+ * Détermine l'extension du fichier temporaire à partir du nom du fichier uploadé
+ */
+export function getUploadExtension(file: File): string {
+  return getFileExtension(file.name || "");
+}
+
+/**
+ * Extension du fichier temporaire pour un nom de fichier (PDF si l'extension n'est pas prise en charge)
+ */
+export function getFileExtension(name: string): string {
+  const extension = path.extname(name).slice(1).toLowerCase();
+  return SUPPORTED_UPLOAD_EXTENSIONS.includes(extension) ? extension : "pdf";
+}
+
+/**
+ * Fichier d'un lot : fichier envoyé ou fichier extrait d'une archive ZIP
+ */
+export interface BatchUpload {
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * Limites des archives ZIP envoyées en lot
+ */
+const BATCH_ZIP_LIMITS: ZipLimits = {
+  maxEntries: 500,
+  maxEntryBytes: 50 * 1024 * 1024,
+  maxTotalBytes: 1024 * 1024 * 1024,
+};
+
+/**
+ * Liste les fichiers d'un lot : les archives ZIP sont remplacées par leurs PDF et images
+ */
+export async function expandBatchUploads(files: File[]): Promise<BatchUpload[]> {
+  const uploads: BatchUpload[] = [];
+
+  for (const file of files) {
+    const content = Buffer.from(await file.arrayBuffer());
+    if (!isZipArchive(content)) {
+      uploads.push({ name: file.name || `file-${uploads.length + 1}`, content });
+      continue;
+    }
+
+    // Seuls les fichiers d'extension connue sont retenus (pas de fichier texte, tableur...)
+    const entries = readZipEntries(content, BATCH_ZIP_LIMITS, name =>
+      SUPPORTED_UPLOAD_EXTENSIONS.includes(path.extname(name).slice(1).toLowerCase())
+    );
+    logger.debug({ archive: file.name, fileCount: entries.length }, '🗜️ Archive ZIP décompressée');
+    uploads.push(...entries.map(entry => ({ name: `${file.name}/${entry.name}`, content: entry.content })));
+  }
+
+  return uploads;
+}
+
+/**
+ * Lit la liste des membres d'un ensemble, ex: "mistral/pixtral-12b-latest,ollama/llava:13b"
+ *
+ * Le modèle est facultatif ("mistral") et peut contenir des "/" (seul le premier sépare le provider).
+ */
+export function parseEnsembleMembers(value: string | undefined): Array<{ provider: string; model?: string }> | undefined {
+  if (!value) return undefined;
+
+  return value.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf("/");
+    return separator < 0
+      ? { provider: entry }
+      : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) || undefined };
+  });
+}
+
 /**
  * Crée les headers CORS standard
  */
 export function createCorsHeaders(origins: string[] = ["*"]): Record<string, string> {
   return {
     "Access-Control-Allow-Origin": origins.join(", "),
-    "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
+    "Access-Control-Allow-Methods": "POST, GET, DELETE, OPTIONS",
     "Access-Control-Allow-Headers": "Content-Type",
   };
 }
\ No newline at end of file
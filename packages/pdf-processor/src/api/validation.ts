@@ -1,32 +1,123 @@
 import { z } from 'zod';
+import { PAGE_SELECTION_PATTERN } from '../core/page-selection';
+import { providerRegistry } from '../core/providers';
+import { SchemaFactory, schemaRegistry } from '../core/schemas';
 
 /**
  * Interface pour les requêtes API Vision
  */
 export interface VisionExtractRequest {
-  provider?: 'scaleway' | 'ollama' | 'mistral' | 'custom';
+  provider?: string;
   model?: string;
+  mode?: 'vision' | 'text' | 'hybrid';
   query?: string;
+  autoOrient?: boolean;
+  cropMode?: 'center' | 'content' | 'margins';
   cropSize?: number;
+  tiling?: boolean;
+  tileOverlap?: number;
   tablesOnly?: boolean;
-  documentType?: 'invoice' | 'receipt' | 'basic' | 'custom';
+  /** Schéma du registre ('nom' ou 'nom@version') */
+  documentType?: string;
   enhanceContrast?: boolean;
   targetQuality?: number;
+  pages?: string;
+  pagesPerRequest?: number;
+  grounding?: boolean;
+  requiredFields?: string[];
+  selfCorrect?: boolean;
+  maxCorrectionRounds?: number;
+  confidence?: boolean;
+  confidenceSamples?: number;
+  confidenceThreshold?: number;
+  ensemble?: Array<{ provider: string; model?: string }>;
+  ensembleStrategy?: 'majority' | 'confidence';
+  autoClassify?: boolean;
+  classifierModel?: string;
+  /** Découpage en sous-documents (POST /api/v1/vision/extract uniquement) */
+  split?: boolean;
+  splitterModel?: string;
+  cache?: 'use' | 'refresh' | 'bypass';
+  /** URL de rappel d'une tâche asynchrone (POST /api/v1/jobs uniquement) */
+  callbackUrl?: string;
   debug?: boolean;
 }
 
+/**
+ * Nom d'un provider enregistré (vérifié à chaque requête : le registre peut évoluer)
+ */
+const ProviderNameSchema = z.string().refine(
+  name => providerRegistry.has(name),
+  name => ({ message: `Provider inconnu: ${name}. Providers disponibles: ${providerRegistry.names().join(', ')}` })
+);
+
+/**
+ * Anciens types acceptés sans schéma dédié (schéma facture complet)
+ */
+const LEGACY_DOCUMENT_TYPES = ['basic', 'custom'];
+
+/**
+ * Type de document : schéma du registre, 'nom' ou 'nom@version' (vérifié à chaque requête : le registre peut évoluer)
+ */
+const DocumentTypeSchema = z.string().refine(
+  reference => LEGACY_DOCUMENT_TYPES.includes(reference) || schemaRegistry.has(reference),
+  reference => ({ message: `Type de document inconnu: ${reference}. Schémas disponibles: ${schemaRegistry.names().join(', ')}` })
+);
+
+/**
+ * Query : "*", texte libre ou JSON Schema, converti dès la validation pour signaler un mot-clé non pris en charge
+ */
+const QuerySchema = z.string().superRefine((query, context) => {
+  if (!query.trim().startsWith('{')) {
+    return;
+  }
+  try {
+    SchemaFactory.createFromJSON(query);
+  } catch (error: any) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+  }
+});
+
 /**
  * Schéma de validation Zod pour les requêtes d'extraction
  */
 const ExtractRequestSchema = z.object({
-  provider: z.enum(['scaleway', 'ollama', 'mistral', 'custom']).optional().default('scaleway'),
+  provider: ProviderNameSchema.optional().default('scaleway'),
   model: z.string().optional(),
-  query: z.string().optional().default('*'),
+  mode: z.enum(['vision', 'text', 'hybrid']).optional(),
+  query: QuerySchema.optional().default('*'),
+  autoOrient: z.boolean().optional().default(false),
+  cropMode: z.enum(['center', 'content', 'margins']).optional(),
   cropSize: z.number().min(10).max(100).optional(),
+  tiling: z.boolean().optional().default(false),
+  tileOverlap: z.number().min(0).max(0.5).optional(),
   tablesOnly: z.boolean().optional().default(false),
-  documentType: z.enum(['invoice', 'receipt', 'basic', 'custom']).optional(),
+  documentType: DocumentTypeSchema.optional(),
   enhanceContrast: z.boolean().optional().default(true),
   targetQuality: z.number().min(70).max(100).optional().default(95),
+  pages: z.string().regex(PAGE_SELECTION_PATTERN, 'Format attendu: "1-3,7"').optional(),
+  pagesPerRequest: z.number().int().min(1).optional(),
+  grounding: z.boolean().optional().default(false),
+  requiredFields: z.array(z.string().min(1)).optional(),
+  selfCorrect: z.boolean().optional().default(false),
+  maxCorrectionRounds: z.number().int().min(1).max(5).optional(),
+  confidence: z.boolean().optional().default(false),
+  confidenceSamples: z.number().int().min(0).max(5).optional(),
+  confidenceThreshold: z.number().min(0).max(1).optional(),
+  ensemble: z.array(z.object({
+    provider: ProviderNameSchema,
+    model: z.string().min(1).optional(),
+  })).min(2).max(5).optional(),
+  ensembleStrategy: z.enum(['majority', 'confidence']).optional(),
+  autoClassify: z.boolean().optional().default(false),
+  classifierModel: z.string().min(1).optional(),
+  split: z.boolean().optional().default(false),
+  splitterModel: z.string().min(1).optional(),
+  cache: z.enum(['use', 'refresh', 'bypass']).optional(),
+  callbackUrl: z.string().url().refine(
+    url => /^https?:$/.test(new URL(url).protocol),
+    'URL http(s) attendue'
+  ).optional(),
   debug: z.boolean().optional().default(false),
 });
 
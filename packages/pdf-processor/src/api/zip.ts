@@ -0,0 +1,133 @@
+import path from "path";
+import { inflateRawSync } from "zlib";
+
+/**
+ * Fichier extrait d'une archive ZIP
+ */
+export interface ZipEntry {
+  /** Chemin dans l'archive, ex: "2024/janvier/facture.pdf" (libellé uniquement, jamais utilisé comme chemin local) */
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * Limites de lecture d'une archive (protection contre les archives piégées)
+ */
+export interface ZipLimits {
+  /** Nombre maximum de fichiers retenus */
+  maxEntries: number;
+  /** Taille décompressée maximale d'un fichier (octets) */
+  maxEntryBytes: number;
+  /** Taille décompressée maximale de l'archive (octets) */
+  maxTotalBytes: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Vérifie la signature d'une archive ZIP ("PK\x03\x04")
+ */
+export function isZipArchive(content: Uint8Array): boolean {
+  return content.length >= 4 && Buffer.from(content.buffer, content.byteOffset, 4).readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+/**
+ * Lit les fichiers d'une archive ZIP (méthodes "stored" et "deflate", sans chiffrement ni ZIP64)
+ *
+ * Les dossiers, fichiers cachés et métadonnées macOS (__MACOSX) sont ignorés, ainsi que les fichiers
+ * refusés par le filtre.
+ */
+export function readZipEntries(
+  archive: Uint8Array,
+  limits: ZipLimits,
+  accept: (name: string) => boolean = () => true
+): ZipEntry[] {
+  const buffer = Buffer.from(archive.buffer, archive.byteOffset, archive.byteLength);
+  const endOffset = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('Archive ZIP64 non supportée');
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Archive ZIP corrompue: répertoire central invalide');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const crc = buffer.readUInt32LE(offset + 16);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const fullName = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const name = fullName.replace(/\\/g, '/');
+    const baseName = path.posix.basename(name);
+    if (name.endsWith('/') || name.startsWith('__MACOSX/') || !baseName || baseName.startsWith('.') || !accept(name)) {
+      continue;
+    }
+
+    if (flags & 0x1) {
+      throw new Error(`Fichier chiffré non supporté dans l'archive: ${fullName}`);
+    }
+    if (entries.length >= limits.maxEntries) {
+      throw new Error(`Archive trop volumineuse: plus de ${limits.maxEntries} fichiers`);
+    }
+    if (size > limits.maxEntryBytes) {
+      throw new Error(`Fichier trop volumineux dans l'archive: ${fullName}`);
+    }
+    totalBytes += size;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new Error('Archive trop volumineuse une fois décompressée');
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Archive ZIP corrompue: en-tête local invalide (${fullName})`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = Buffer.from(data);
+    } else if (method === 8) {
+      // Taille de sortie bornée : la taille annoncée peut être fausse
+      content = inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`Méthode de compression non supportée (${method}): ${fullName}`);
+    }
+
+    if (content.length !== size || Bun.hash.crc32(content) !== crc) {
+      throw new Error(`Archive ZIP corrompue: contenu invalide (${fullName})`);
+    }
+
+    entries.push({ name, content });
+  }
+
+  return entries;
+}
+
+/**
+ * Position de l'enregistrement de fin du répertoire central (suivi d'un commentaire de 64 Ko au plus)
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const lowest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Archive ZIP invalide: fin du répertoire central introuvable');
+}
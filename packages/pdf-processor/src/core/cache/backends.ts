@@ -0,0 +1,138 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { CacheBackend, RedisLikeClient } from './types';
+
+/**
+ * Entrée stockée avec sa date d'expiration (ms depuis l'epoch)
+ */
+interface StoredEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Cache en mémoire, limité en nombre d'entrées (les moins récemment utilisées sont évincées)
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, StoredEntry>();
+  private maxEntries: number;
+  private now: () => number;
+
+  constructor(options: { maxEntries?: number; now?: () => number } = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Ordre d'insertion de la Map : l'entrée lue passe en dernière position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: ttlMs !== undefined ? this.now() + ttlMs : undefined });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Cache sur disque : un fichier JSON par entrée, partagé entre processus
+ */
+export class FileSystemCacheBackend implements CacheBackend {
+  private directory: string;
+  private now: () => number;
+
+  constructor(options: { directory: string; now?: () => number }) {
+    this.directory = options.directory;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    let entry: StoredEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    const entry: StoredEntry = { value, expiresAt: ttlMs !== undefined ? this.now() + ttlMs : undefined };
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    // Écriture puis renommage : un lecteur concurrent ne voit jamais de fichier partiel
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  private filePath(key: string): string {
+    if (!/^[\w.-]+$/.test(key)) {
+      throw new Error(`Clé de cache invalide pour un nom de fichier: ${key}`);
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Cache Redis (ou compatible : Valkey, KeyDB, Dragonfly), expiration gérée par le serveur
+ */
+export class RedisCacheBackend implements CacheBackend {
+  private client: RedisLikeClient;
+  private prefix: string;
+
+  constructor(client: RedisLikeClient, options: { prefix?: string } = {}) {
+    this.client = client;
+    this.prefix = options.prefix ?? 'pdf-processor:';
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(this.prefix + key)) ?? undefined;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    await this.client.set(this.prefix + key, value);
+    if (ttlMs !== undefined) {
+      await this.client.expire(this.prefix + key, Math.max(1, Math.ceil(ttlMs / 1000)));
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
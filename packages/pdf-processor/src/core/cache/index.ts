@@ -0,0 +1,8 @@
+/**
+ * Cache des résultats d'extraction (clé par contenu, stockages interchangeables)
+ */
+
+export * from './types';
+export { MemoryCacheBackend, FileSystemCacheBackend, RedisCacheBackend } from './backends';
+export { computeCacheKey, hashFile, hashSchema, CACHE_KEY_VERSION, type CacheKeyParts } from './key';
+export { ResultCache, resultCache, type CachedResult } from './result-cache';
@@ -0,0 +1,70 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import type { z } from 'zod';
+
+/**
+ * Version du format des clés et des entrées, à incrémenter quand le résultat d'extraction change de forme
+ */
+export const CACHE_KEY_VERSION = 1;
+
+/**
+ * Éléments qui déterminent le résultat d'une extraction
+ */
+export interface CacheKeyParts {
+  /** Empreinte du fichier (hashFile) */
+  fileHash: string;
+  /** Empreinte du schéma (hashSchema) */
+  schemaHash: string;
+  provider: string;
+  model: string;
+  /** Options de rendu des images et d'extraction */
+  options: Record<string, unknown>;
+}
+
+/**
+ * Empreinte SHA-256 du contenu d'un fichier
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  return sha256(await fs.readFile(filePath));
+}
+
+/**
+ * Empreinte d'un schéma Zod, à partir de sa définition (descriptions comprises, elles guident le modèle)
+ */
+export function hashSchema(schema: z.ZodSchema): string {
+  // Les formes des objets sont des fonctions dans la définition Zod ; les autres fonctions
+  // (raffinements, valeurs par défaut, z.lazy) sont représentées par leur source
+  const definition = JSON.stringify(schema._def, (key, value) => {
+    if (typeof value !== 'function') return value;
+    return key === 'shape' ? value() : value.toString();
+  });
+  return sha256(definition);
+}
+
+/**
+ * Clé de cache d'une extraction : empreinte des éléments qui déterminent son résultat
+ */
+export function computeCacheKey(parts: CacheKeyParts): string {
+  return sha256(stableStringify({ version: CACHE_KEY_VERSION, ...parts }));
+}
+
+/**
+ * JSON aux clés triées (valeurs undefined ignorées) pour une empreinte indépendante de l'ordre des options
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,54 @@
+import { createModuleLogger } from "../../utils/logger";
+import { CACHE_KEY_VERSION } from './key';
+import type { CacheConfig } from './types';
+
+const logger = createModuleLogger('result-cache');
+
+/**
+ * Résultat lu dans le cache
+ */
+export interface CachedResult<T> {
+  result: T;
+  /** Date de mise en cache (ISO 8601) */
+  storedAt: string;
+}
+
+/**
+ * Cache des résultats d'extraction : sérialisation et tolérance aux pannes du stockage
+ *
+ * Une erreur du stockage (disque, Redis) est journalisée et traitée comme une absence d'entrée,
+ * l'extraction se poursuit sans cache.
+ */
+export class ResultCache {
+
+  async get<T>(config: CacheConfig, key: string): Promise<CachedResult<T> | undefined> {
+    try {
+      const raw = await config.backend.get(key);
+      if (raw === undefined) return undefined;
+
+      const entry = JSON.parse(raw) as { version: number; storedAt: string; result: T };
+      if (entry.version !== CACHE_KEY_VERSION) {
+        return undefined;
+      }
+      return { result: entry.result, storedAt: entry.storedAt };
+    } catch (error: any) {
+      logger.warn({ key, error: error.message }, '⚠️ Lecture du cache impossible, extraction sans cache');
+      return undefined;
+    }
+  }
+
+  async set<T>(config: CacheConfig, key: string, result: T): Promise<void> {
+    try {
+      const entry = { version: CACHE_KEY_VERSION, storedAt: new Date().toISOString(), result };
+      await config.backend.set(key, JSON.stringify(entry), config.ttlMs);
+      logger.debug({ key, ttlMs: config.ttlMs }, '💾 Résultat mis en cache');
+    } catch (error: any) {
+      logger.warn({ key, error: error.message }, '⚠️ Écriture du cache impossible, résultat non mis en cache');
+    }
+  }
+}
+
+/**
+ * Instance singleton du cache des résultats
+ */
+export const resultCache = new ResultCache();
@@ -0,0 +1,44 @@
+/**
+ * Utilisation du cache pour une extraction
+ * - 'use' : résultat en cache renvoyé s'il existe, sinon extraction puis mise en cache (défaut)
+ * - 'refresh' : extraction systématique, le résultat remplace l'entrée en cache
+ * - 'bypass' : cache ignoré en lecture comme en écriture
+ */
+export type CacheMode = 'use' | 'refresh' | 'bypass';
+
+/**
+ * Issue de la recherche en cache, voir metadata.cache
+ */
+export type CacheStatus = 'hit' | 'miss' | 'refresh';
+
+/**
+ * Stockage des résultats sérialisés (JSON), indexés par clé de cache
+ *
+ * Les entrées expirées ne doivent plus être renvoyées par get().
+ */
+export interface CacheBackend {
+  get(key: string): Promise<string | undefined>;
+  /** Enregistre une entrée, expirée après ttlMs si défini */
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Configuration du cache des résultats (pdfProcessor.cache)
+ */
+export interface CacheConfig {
+  /** Stockage : MemoryCacheBackend, FileSystemCacheBackend, RedisCacheBackend ou implémentation propre */
+  backend: CacheBackend;
+  /** Durée de vie des entrées en ms (défaut: sans expiration) */
+  ttlMs?: number;
+}
+
+/**
+ * Client Redis minimal (ioredis, node-redis, Bun.redis ou compatible)
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  expire(key: string, seconds: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
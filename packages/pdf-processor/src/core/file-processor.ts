@@ -3,12 +3,26 @@ import path from "path";
 import sharp from "sharp";
 import os from "os";
 import { existsSync } from "fs";
+import { createRequire } from "module";
 import * as gs from "ghostscript-node";
-import type { InternalProcessingOptions } from "./types";
+import decodeHeic from "heic-decode";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { InternalProcessingOptions, PdfPageText, PdfTextLine, InputFileType } from "./types";
+import { parsePageSelection, toPageRanges } from "./page-selection";
 import { createModuleLogger } from "../utils/logger";
 
 const logger = createModuleLogger('file-processor');
 
+// Polices standard de pdf.js (métriques des polices PDF non embarquées)
+const STANDARD_FONT_DATA_URL = path.join(path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json")), "standard_fonts/");
+
+// Minimum average of non-blank characters per page to consider a text layer usable
+const MIN_TEXT_CHARS_PER_PAGE = 20;
+
+// Marques ftyp des images HEIF encodées en HEVC (photos iPhone), que Sharp ne décode pas
+const HEVC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis"];
+
 // Maximum batch size for processing large documents (pages)
 const MAX_BATCH_SIZE = 20;
 
@@ -20,19 +34,56 @@ process.on("beforeExit", async () => {
   await cleanupAllTempDirs();
 });
 
+/**
+ * Render PDF pages to PNG buffers, optionally restricted to a page selection
+ *
+ * @param pdfBuffer - PDF content
+ * @param pages - Page selection (e.g. "1-3,7"), all pages when undefined
+ * @param dpi - Rendering resolution
+ * @returns Rendered images and their page numbers (1-based)
+ */
+export async function renderPDFPages(
+  pdfBuffer: Buffer,
+  pages: string | undefined,
+  dpi: number
+): Promise<{ imageBuffers: Buffer[]; pageNumbers: number[] }> {
+  if (!pages) {
+    const imageBuffers = await gs.renderPDFPagesToPNG(
+      pdfBuffer,
+      undefined, // firstPage - undefined = toutes les pages
+      undefined, // lastPage - undefined = toutes les pages
+      dpi
+    );
+    return { imageBuffers, pageNumbers: imageBuffers.map((_, i) => i + 1) };
+  }
+
+  const pageCount = await gs.countPDFPages(pdfBuffer);
+  const pageNumbers = parsePageSelection(pages, pageCount);
+  const imageBuffers: Buffer[] = [];
+
+  // Ghostscript ne rend que des plages contiguës : un rendu par plage
+  for (const range of toPageRanges(pageNumbers)) {
+    const rangeBuffers = await gs.renderPDFPagesToPNG(pdfBuffer, range.first, range.last, dpi);
+    imageBuffers.push(...rangeBuffers);
+  }
+
+  logger.debug({ pages, pageNumbers, pageCount }, '📑 Sélection de pages appliquée');
+  return { imageBuffers, pageNumbers };
+}
+
 /**
  * Extract images from PDF for Vision LLM processing
  * 
  * @param filePath - Path to the PDF file
  * @param outputDir - Directory where to save extracted images
  * @param options - Processing options
- * @returns Array of image file paths
+ * @returns Image file paths and the page number of each image
  */
 export async function extractImagesFromPDF(
   pdfPath: string,
   outputDir: string,
   options: InternalProcessingOptions
-): Promise<string[]> {
+): Promise<{ imagePaths: string[]; pageNumbers: number[] }> {
   try {
     // Check if the PDF exists
     if (!existsSync(pdfPath)) {
@@ -49,12 +100,7 @@ export async function extractImagesFromPDF(
     }
 
     // Convert PDF pages to images with specified DPI
-    const imageBuffers = await gs.renderPDFPagesToPNG(
-      pdfBuffer,
-      undefined, // firstPage - undefined = toutes les pages
-      undefined, // lastPage - undefined = toutes les pages
-      options.dpi || 300
-    );
+    const { imageBuffers, pageNumbers } = await renderPDFPages(pdfBuffer, options.pages, options.dpi || 300);
 
     // Save image buffers to disk
     logger.info({ pageCount: imageBuffers.length }, '📄 PDF contient pages');
@@ -65,7 +111,7 @@ export async function extractImagesFromPDF(
     
     await Promise.all(
       imageBuffers.map(async (buffer, i) => {
-        const imagePath = path.join(outputDir, `page-${i + 1}.png`);
+        const imagePath = path.join(outputDir, `page-${pageNumbers[i]}.png`);
         await fs.writeFile(imagePath, buffer);
         imagePaths[i] = imagePath; // Assign in the correct order
       })
@@ -75,13 +121,263 @@ export async function extractImagesFromPDF(
 
     // Vision LLM - retourne les images raw (optimisation Sharp faite plus tard)
     logger.info({ imageCount: imagePaths.length }, '🖼️ Images extraites pour Vision LLM');
-    return imagePaths;
+    return { imagePaths, pageNumbers };
   } catch (error: any) {
     logger.error({ error }, "❌ Erreur lors de l'extraction des images");
     throw new Error(`❌ Échec de l'extraction d'images: ${error.message}`);
   }
 }
 
+/**
+ * Extract the native text layer of a PDF with pdf.js, line by line with positions
+ *
+ * Ghostscript is not needed: text mode also works where only the text layer is used. Ghostscript's
+ * txtwrite device is not exposed by ghostscript-node, it would require spawning gs and parsing its XML.
+ *
+ * @param pdfPath - Path to the PDF file
+ * @param pages - Page selection (e.g. "1-3,7"), all pages when undefined
+ * @returns Text of each page and its lines with normalized bounding boxes
+ */
+export async function extractTextFromPDF(
+  pdfPath: string,
+  pages?: string
+): Promise<PdfPageText[]> {
+  if (!existsSync(pdfPath)) {
+    throw new Error(`PDF file does not exist: ${pdfPath}`);
+  }
+
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+
+  try {
+    const document = await getDocument({ data, standardFontDataUrl: STANDARD_FONT_DATA_URL, isEvalSupported: false }).promise;
+
+    try {
+      const pageNumbers = pages
+        ? parsePageSelection(pages, document.numPages)
+        : Array.from({ length: document.numPages }, (_, i) => i + 1);
+
+      const results: PdfPageText[] = [];
+      for (const pageNumber of pageNumbers) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+        const items = content.items.filter((item): item is TextItem => "str" in item && item.str.trim().length > 0);
+
+        const lines = groupTextLines(items.map(item => toPageBox(item, viewport)), viewport.width, viewport.height);
+        results.push({ page: pageNumber, text: lines.map(line => line.text).join("\n"), lines });
+        page.cleanup();
+      }
+
+      logger.info({ pageCount: results.length, characters: results.reduce((sum, p) => sum + p.text.length, 0) }, '📝 Couche texte extraite');
+      return results;
+    } finally {
+      await document.destroy();
+    }
+  } catch (error: any) {
+    logger.error({ error }, "❌ Erreur lors de l'extraction du texte");
+    throw new Error(`❌ Échec de l'extraction du texte: ${error.message}`);
+  }
+}
+
+/**
+ * Check whether extracted pages carry a usable text layer (born-digital PDF)
+ */
+export function hasUsableTextLayer(pages: PdfPageText[]): boolean {
+  if (pages.length === 0) return false;
+  const characters = pages.reduce((sum, page) => sum + page.text.replace(/\s/g, "").length, 0);
+  return characters / pages.length >= MIN_TEXT_CHARS_PER_PAGE;
+}
+
+interface PositionedText {
+  text: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Position of a pdf.js text item in viewport coordinates (origin top-left, page rotation applied)
+ */
+function toPageBox(
+  item: TextItem,
+  viewport: { convertToViewportPoint(x: number, y: number): number[] }
+): PositionedText {
+  const [, , , scaleY = 0, x = 0, y = 0] = item.transform as number[];
+  const height = item.height || Math.abs(scaleY);
+  const [x0 = 0, y0 = 0] = viewport.convertToViewportPoint(x, y + height);
+  const [x1 = 0, y1 = 0] = viewport.convertToViewportPoint(x + item.width, y);
+
+  return {
+    text: item.str,
+    left: Math.min(x0, x1),
+    top: Math.min(y0, y1),
+    right: Math.max(x0, x1),
+    bottom: Math.max(y0, y1)
+  };
+}
+
+/**
+ * Group text items sharing a baseline into lines, top to bottom then left to right
+ */
+function groupTextLines(items: PositionedText[], pageWidth: number, pageHeight: number): PdfTextLine[] {
+  const lines: PositionedText[][] = [];
+  const center = (item: PositionedText) => (item.top + item.bottom) / 2;
+
+  for (const item of [...items].sort((a, b) => center(a) - center(b) || a.left - b.left)) {
+    const line = lines[lines.length - 1];
+    const reference = line?.[0];
+    if (line && reference && Math.abs(center(item) - center(reference)) <= (reference.bottom - reference.top) / 2) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+  return lines.map(line => {
+    const sorted = line.sort((a, b) => a.left - b.left);
+    const text = sorted.reduce((joined, item, index) => {
+      if (index === 0) return item.text;
+      const previous = sorted[index - 1]!;
+      // Items séparés par un blanc visible (plus d'un quart de la hauteur) : espace ajoutée
+      const gap = item.left - previous.right;
+      const separator = gap > (previous.bottom - previous.top) / 4 && !/\s$/.test(joined) && !/^\s/.test(item.text) ? " " : "";
+      return joined + separator + item.text;
+    }, "").replace(/\s+/g, " ").trim();
+
+    return {
+      text,
+      bbox: [
+        clamp(Math.min(...sorted.map(item => item.left)) / pageWidth),
+        clamp(Math.min(...sorted.map(item => item.top)) / pageHeight),
+        clamp(Math.max(...sorted.map(item => item.right)) / pageWidth),
+        clamp(Math.max(...sorted.map(item => item.bottom)) / pageHeight)
+      ] as [number, number, number, number]
+    };
+  });
+}
+
+/**
+ * Detect whether a file is a PDF or a raster image from its magic bytes
+ *
+ * Supported images: JPEG, PNG, TIFF (multi-page), WebP, HEIC/HEIF
+ */
+export async function detectInputType(filePath: string): Promise<InputFileType> {
+  if (!existsSync(filePath)) {
+    throw new Error(`File does not exist: ${filePath}`);
+  }
+
+  const header = await readFileHeader(filePath);
+
+  // Some PDF writers put junk bytes before the header, tolerated by readers
+  if (header.includes("%PDF-")) return "pdf";
+
+  const isJpeg = header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff;
+  const isPng = header.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  const isTiff = header.subarray(0, 4).equals(Buffer.from([0x49, 0x49, 0x2a, 0x00]))
+    || header.subarray(0, 4).equals(Buffer.from([0x4d, 0x4d, 0x00, 0x2a]));
+  const isWebp = header.toString("ascii", 0, 4) === "RIFF" && header.toString("ascii", 8, 12) === "WEBP";
+  const isHeif = header.toString("ascii", 4, 8) === "ftyp"
+    && [...HEVC_BRANDS, "mif1", "msf1"].includes(header.toString("ascii", 8, 12));
+
+  if (isJpeg || isPng || isTiff || isWebp || isHeif) return "image";
+
+  throw new Error("Unsupported file format: expected a PDF or an image (JPEG, PNG, TIFF, WebP, HEIC)");
+}
+
+/**
+ * First KB of a file, enough for magic bytes and the HEIF ftyp box
+ */
+async function readFileHeader(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  const header = Buffer.alloc(1024);
+  try {
+    await handle.read(header, 0, header.length, 0);
+  } finally {
+    await handle.close();
+  }
+  return header;
+}
+
+/**
+ * Vérifie si une image HEIF est encodée en HEVC : marque principale ou compatible de la boîte ftyp
+ * (les HEIF encodées en AV1, comme les AVIF, sont décodées par Sharp)
+ */
+function isHevcHeif(header: Buffer): boolean {
+  if (header.toString("ascii", 4, 8) !== "ftyp") return false;
+
+  const boxSize = Math.min(header.readUInt32BE(0), header.length);
+  const brands = [header.toString("ascii", 8, 12)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(header.toString("ascii", offset, offset + 4));
+  }
+  return brands.some(brand => HEVC_BRANDS.includes(brand));
+}
+
+/**
+ * Décode une image HEIC (image principale) en PNG, pour la suite du traitement par Sharp
+ */
+async function convertHeicToPng(imagePath: string, outputPath: string): Promise<void> {
+  const { width, height, data } = await decodeHeic({ buffer: await fs.readFile(imagePath) });
+  await sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } })
+    .png()
+    .toFile(outputPath);
+}
+
+/**
+ * Prepare raster images for Vision LLM processing, without Ghostscript
+ *
+ * Single-page images are used as-is; multi-page TIFFs are split into one PNG per page.
+ * HEIC photos are decoded to PNG first (primary image only).
+ *
+ * @param imagePath - Path to the image file
+ * @param outputDir - Directory where to save split pages
+ * @param options - Processing options (page selection)
+ * @returns Image file paths and the page number of each image
+ */
+export async function extractImagesFromRaster(
+  imagePath: string,
+  outputDir: string,
+  options: Pick<InternalProcessingOptions, "pages">
+): Promise<{ imagePaths: string[]; pageNumbers: number[] }> {
+  try {
+    // Sharp ne décode pas le HEVC : conversion préalable en PNG
+    if (isHevcHeif(await readFileHeader(imagePath))) {
+      const pngPath = path.join(outputDir, "page-1.png");
+      await convertHeicToPng(imagePath, pngPath);
+      logger.info({ format: "heic" }, '🖼️ Image HEIC décodée pour Vision LLM');
+      return { imagePaths: [pngPath], pageNumbers: options.pages ? parsePageSelection(options.pages, 1) : [1] };
+    }
+
+    const metadata = await sharp(imagePath).metadata();
+    const pageCount = metadata.pages || 1;
+    const pageNumbers = options.pages
+      ? parsePageSelection(options.pages, pageCount)
+      : Array.from({ length: pageCount }, (_, i) => i + 1);
+
+    if (pageCount === 1) {
+      logger.info({ format: metadata.format }, '🖼️ Image prête pour Vision LLM');
+      return { imagePaths: [imagePath], pageNumbers };
+    }
+
+    const imagePaths = await Promise.all(
+      pageNumbers.map(async pageNumber => {
+        const pagePath = path.join(outputDir, `page-${pageNumber}.png`);
+        await sharp(imagePath, { page: pageNumber - 1 }).png().toFile(pagePath);
+        return pagePath;
+      })
+    );
+
+    logger.info({ format: metadata.format, pageCount, imageCount: imagePaths.length }, '🖼️ Pages extraites de l\'image multi-pages');
+    return { imagePaths, pageNumbers };
+  } catch (error: any) {
+    logger.error({ error }, "❌ Erreur lors de la lecture de l'image");
+    throw new Error(`❌ Échec de la lecture de l'image: ${error.message}`);
+  }
+}
+
 /**
  * Create a temporary directory for processing
  */
@@ -0,0 +1,15 @@
+/**
+ * Tâches d'extraction asynchrones (file en mémoire, stockages interchangeables, webhooks signés)
+ */
+
+export * from './types';
+export { MemoryJobStore, FileSystemJobStore } from './stores';
+export { JobQueue, type JobInput, type JobQueueOptions } from './queue';
+export {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  createWebhookHeaders,
+  assertPublicCallbackUrl,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from './webhook';
@@ -0,0 +1,288 @@
+import { randomUUID } from "crypto";
+import { createModuleLogger } from "../../utils/logger";
+import { aiVisionProcessor, type AIVisionProcessingOptions, type AIVisionResult } from '../vision/processor';
+import { MemoryJobStore } from './stores';
+import { assertPublicCallbackUrl, createWebhookHeaders } from './webhook';
+import type { ExtractionJob, JobStore } from './types';
+
+const logger = createModuleLogger('job-queue');
+
+/**
+ * Extraction à exécuter en tâche de fond
+ */
+export interface JobInput {
+  filePath: string;
+  options: AIVisionProcessingOptions;
+  /** Nom du fichier envoyé, repris dans la tâche */
+  fileName?: string;
+  /** URL qui reçoit la tâche terminée (POST signé, webhookSecret requis) */
+  callbackUrl?: string;
+  /** Appelé quand la tâche est terminée ou annulée, ex: suppression du fichier temporaire */
+  cleanup?: () => Promise<void>;
+}
+
+/**
+ * Configuration de la file de tâches
+ */
+export interface JobQueueOptions {
+  /** Stockage des tâches (défaut: en mémoire) */
+  store?: JobStore;
+  /** Extractions exécutées en parallèle (défaut: 1) */
+  concurrency?: number;
+  /** Secret de signature HMAC des livraisons, obligatoire pour accepter une URL de rappel */
+  webhookSecret?: string;
+  /** Hôtes acceptés comme URL de rappel même s'ils pointent vers une adresse interne (ex: service du même réseau) */
+  allowedCallbackHosts?: string[];
+  /** Tentatives de livraison à l'URL de rappel (défaut: 3) */
+  webhookAttempts?: number;
+  /** Délai avant la deuxième tentative de livraison, doublé ensuite (défaut: 1000 ms) */
+  webhookRetryDelayMs?: number;
+  /** Traitement d'une extraction (défaut: aiVisionProcessor.process) */
+  processor?: (filePath: string, options: AIVisionProcessingOptions) => Promise<AIVisionResult>;
+}
+
+/**
+ * File de tâches d'extraction en mémoire du processus
+ *
+ * Les tâches sont exécutées dans l'ordre d'arrivée ; leur état et leur résultat sont enregistrés dans
+ * le stockage. Les tâches en attente au moment d'un arrêt du processus ne sont pas reprises : au
+ * démarrage, la file les marque en échec. Un stockage ne doit donc servir qu'à une seule file.
+ */
+export class JobQueue {
+  private store: JobStore;
+  private concurrency: number;
+  private webhookSecret?: string;
+  private allowedCallbackHosts: string[];
+  private webhookAttempts: number;
+  private webhookRetryDelayMs: number;
+  private processor: (filePath: string, options: AIVisionProcessingOptions) => Promise<AIVisionResult>;
+  private pending: Array<{ id: string; input: JobInput }> = [];
+  private running = new Map<string, AbortController>();
+  private idleWaiters: Array<() => void> = [];
+  private recovery: Promise<void>;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.store = options.store ?? new MemoryJobStore();
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.webhookSecret = options.webhookSecret;
+    this.allowedCallbackHosts = options.allowedCallbackHosts ?? [];
+    this.webhookAttempts = options.webhookAttempts ?? 3;
+    this.webhookRetryDelayMs = options.webhookRetryDelayMs ?? 1000;
+    this.processor = options.processor ?? ((filePath, processingOptions) => aiVisionProcessor.process(filePath, processingOptions));
+    this.recovery = this.failInterruptedJobs();
+  }
+
+  /**
+   * Ajoute une extraction à la file et renvoie la tâche créée
+   */
+  async submit(input: JobInput): Promise<ExtractionJob> {
+    if (input.callbackUrl && !this.webhookSecret) {
+      throw new Error('URL de rappel refusée: aucun secret de signature configuré (webhookSecret)');
+    }
+    if (input.callbackUrl) {
+      await assertPublicCallbackUrl(input.callbackUrl, this.allowedCallbackHosts);
+    }
+    await this.recovery;
+
+    const job: ExtractionJob = {
+      id: randomUUID(),
+      status: 'queued',
+      fileName: input.fileName,
+      createdAt: new Date().toISOString(),
+      ...(input.callbackUrl ? { webhook: { url: input.callbackUrl, attempts: 0 } } : {})
+    };
+
+    await this.store.save(job);
+    this.pending.push({ id: job.id, input });
+    logger.info({ jobId: job.id, queued: this.pending.length, running: this.running.size }, '📥 Tâche ajoutée à la file');
+
+    this.drain();
+    return job;
+  }
+
+  async get(id: string): Promise<ExtractionJob | undefined> {
+    await this.recovery;
+    return this.store.get(id);
+  }
+
+  /**
+   * Annule une tâche en attente ou en cours ; une tâche terminée est renvoyée inchangée
+   */
+  async cancel(id: string): Promise<ExtractionJob | undefined> {
+    await this.recovery;
+    const job = await this.store.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return job;
+    }
+
+    const index = this.pending.findIndex(entry => entry.id === id);
+    if (index >= 0) {
+      const [entry] = this.pending.splice(index, 1);
+      await entry!.input.cleanup?.();
+      this.notifyIfIdle();
+    }
+
+    // L'extraction en cours s'arrête au prochain appel au modèle ; son résultat sera ignoré
+    this.running.get(id)?.abort();
+
+    const cancelled: ExtractionJob = { ...job, status: 'cancelled', finishedAt: new Date().toISOString() };
+    await this.store.save(cancelled);
+    logger.info({ jobId: id }, '🛑 Tâche annulée');
+
+    void this.deliver(cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Attend que la file soit vide (aucune tâche en attente ni en cours)
+   */
+  onIdle(): Promise<void> {
+    if (this.pending.length === 0 && this.running.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const entry = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(entry.id, controller);
+      void this.run(entry.id, entry.input, controller);
+    }
+  }
+
+  private async run(id: string, input: JobInput, controller: AbortController): Promise<void> {
+    let job = await this.store.get(id);
+
+    try {
+      // Tâche annulée pendant la lecture : l'état 'running' écraserait l'annulation
+      if (!job || controller.signal.aborted) {
+        return;
+      }
+
+      job = { ...job, status: 'running', startedAt: new Date().toISOString() };
+      await this.store.save(job);
+      logger.info({ jobId: id }, '⚙️ Tâche démarrée');
+
+      try {
+        const result = await this.processor(input.filePath, { ...input.options, abortSignal: controller.signal });
+        job = { ...job, status: 'succeeded', result, finishedAt: new Date().toISOString() };
+      } catch (error: any) {
+        job = { ...job, status: 'failed', error: error.message, finishedAt: new Date().toISOString() };
+      }
+
+      // Tâche annulée pendant l'extraction : l'annulation est déjà enregistrée
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      await this.store.save(job);
+      logger.info({ jobId: id, status: job.status, error: job.error }, job.status === 'succeeded' ? '✅ Tâche terminée' : '❌ Tâche en échec');
+      await this.deliver(job);
+    } catch (error: any) {
+      logger.error({ jobId: id, error: error.message }, '❌ Erreur de la file de tâches');
+    } finally {
+      this.running.delete(id);
+      await input.cleanup?.();
+      this.drain();
+      this.notifyIfIdle();
+    }
+  }
+
+  /**
+   * Marque en échec les tâches restées en attente ou en cours lors d'un arrêt du processus (stockage
+   * persistant), pour que les clients qui les consultent ne les attendent pas indéfiniment
+   */
+  private async failInterruptedJobs(): Promise<void> {
+    if (!this.store.list) {
+      return;
+    }
+
+    try {
+      const interrupted = (await this.store.list()).filter(job => job.status === 'queued' || job.status === 'running');
+
+      for (const job of interrupted) {
+        const failed: ExtractionJob = { ...job, status: 'failed', error: 'Tâche interrompue par un redémarrage du serveur', finishedAt: new Date().toISOString() };
+        await this.store.save(failed);
+        void this.deliver(failed);
+      }
+
+      if (interrupted.length > 0) {
+        logger.warn({ jobIds: interrupted.map(job => job.id) }, '⚠️ Tâches interrompues par un redémarrage marquées en échec');
+      }
+    } catch (error: any) {
+      logger.error({ error: error.message }, '❌ Reprise des tâches interrompues impossible');
+    }
+  }
+
+  /**
+   * Envoie la tâche terminée à son URL de rappel, avec nouvelles tentatives espacées
+   */
+  private async deliver(job: ExtractionJob): Promise<void> {
+    if (!job.webhook || !this.webhookSecret) {
+      return;
+    }
+
+    const body = JSON.stringify({ id: job.id, status: job.status, result: job.result, error: job.error, finishedAt: job.finishedAt });
+    const webhook = { ...job.webhook };
+    let refused = false;
+
+    // Nouvelle vérification : l'hôte a pu être redirigé vers une adresse interne depuis la création
+    try {
+      await assertPublicCallbackUrl(webhook.url, this.allowedCallbackHosts);
+    } catch (error: any) {
+      webhook.lastError = error.message;
+      refused = true;
+      logger.warn({ jobId: job.id, error: error.message }, '⚠️ Livraison du webhook refusée');
+    }
+
+    for (let attempt = 1; !refused && attempt <= this.webhookAttempts; attempt++) {
+      webhook.attempts = attempt;
+      try {
+        // Redirections non suivies : elles contourneraient la vérification de l'adresse
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers: createWebhookHeaders(body, this.webhookSecret),
+          body,
+          redirect: 'manual'
+        });
+        webhook.statusCode = response.status;
+
+        if (response.status >= 300 && response.status < 400) {
+          webhook.lastError = `Redirection refusée (HTTP ${response.status})`;
+          logger.warn({ jobId: job.id, location: response.headers.get('location') }, '⚠️ Livraison du webhook refusée');
+          break;
+        }
+
+        if (response.ok) {
+          webhook.deliveredAt = new Date().toISOString();
+          delete webhook.lastError;
+          break;
+        }
+        webhook.lastError = `HTTP ${response.status}`;
+      } catch (error: any) {
+        webhook.lastError = error.message;
+      }
+
+      logger.warn({ jobId: job.id, attempt, error: webhook.lastError }, '⚠️ Échec de livraison du webhook');
+      if (attempt < this.webhookAttempts) {
+        await Bun.sleep(this.webhookRetryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+
+    try {
+      // État relu : la tâche a pu changer pendant les tentatives
+      const latest = await this.store.get(job.id);
+      await this.store.save({ ...(latest ?? job), webhook });
+    } catch (error: any) {
+      logger.error({ jobId: job.id, error: error.message }, '❌ Enregistrement de la livraison impossible');
+    }
+  }
+
+  private notifyIfIdle(): void {
+    if (this.pending.length > 0 || this.running.size > 0) return;
+    const waiters = this.idleWaiters.splice(0);
+    waiters.forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ExtractionJob, JobStore } from './types';
+
+const FINISHED_STATUSES = new Set(['succeeded', 'failed', 'cancelled']);
+
+/**
+ * Stockage en mémoire, limité en nombre de tâches (les tâches terminées les plus anciennes sont supprimées)
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, ExtractionJob>();
+  private maxJobs: number;
+
+  constructor(options: { maxJobs?: number } = {}) {
+    this.maxJobs = options.maxJobs ?? 1000;
+  }
+
+  async save(job: ExtractionJob): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+
+    // Ordre d'insertion de la Map : les premières tâches sont les plus anciennes
+    for (const [id, stored] of this.jobs) {
+      if (this.jobs.size <= this.maxJobs) break;
+      if (FINISHED_STATUSES.has(stored.status)) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  async get(id: string): Promise<ExtractionJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : undefined;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async list(): Promise<ExtractionJob[]> {
+    return [...this.jobs.values()].map(job => structuredClone(job));
+  }
+}
+
+/**
+ * Stockage sur disque : un fichier JSON par tâche, conservé après un redémarrage
+ */
+export class FileSystemJobStore implements JobStore {
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async save(job: ExtractionJob): Promise<void> {
+    const filePath = this.filePath(job.id);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    // Écriture puis renommage : un lecteur concurrent ne voit jamais de fichier partiel
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(job));
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(id: string): Promise<ExtractionJob | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  async list(): Promise<ExtractionJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    // Fichiers temporaires d'écriture ignorés
+    const jobs = await Promise.all(files
+      .filter(file => /^[\w-]+\.json$/.test(file))
+      .map(file => this.get(file.slice(0, -'.json'.length))));
+    return jobs.filter((job): job is ExtractionJob => job !== undefined);
+  }
+
+  private filePath(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Identifiant de tâche invalide: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+}
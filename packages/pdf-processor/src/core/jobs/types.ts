@@ -0,0 +1,54 @@
+import type { AIVisionResult } from '../vision/processor';
+
+/**
+ * État d'une tâche d'extraction
+ * - 'queued' : en attente d'un emplacement libre
+ * - 'running' : extraction en cours
+ * - 'succeeded' / 'failed' : terminée, avec résultat ou erreur
+ * - 'cancelled' : annulée avant la fin
+ */
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Livraison du résultat à l'URL de rappel
+ */
+export interface WebhookDelivery {
+  url: string;
+  /** Tentatives d'envoi effectuées */
+  attempts: number;
+  /** Date de la livraison réussie (ISO 8601) */
+  deliveredAt?: string;
+  /** Code HTTP de la dernière réponse */
+  statusCode?: number;
+  lastError?: string;
+}
+
+/**
+ * Tâche d'extraction asynchrone (sans les options de traitement, qui peuvent contenir des clés API)
+ */
+export interface ExtractionJob {
+  id: string;
+  status: JobStatus;
+  /** Nom du fichier envoyé */
+  fileName?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Résultat de l'extraction (status 'succeeded') */
+  result?: AIVisionResult;
+  /** Message d'erreur (status 'failed') */
+  error?: string;
+  /** Livraison à l'URL de rappel, si fournie */
+  webhook?: WebhookDelivery;
+}
+
+/**
+ * Stockage des tâches, pour conserver leur état et leur résultat au-delà de la requête
+ */
+export interface JobStore {
+  save(job: ExtractionJob): Promise<void>;
+  get(id: string): Promise<ExtractionJob | undefined>;
+  delete(id: string): Promise<void>;
+  /** Toutes les tâches enregistrées, pour marquer en échec celles interrompues par un arrêt du processus */
+  list?(): Promise<ExtractionJob[]>;
+}
@@ -0,0 +1,109 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/**
+ * En-têtes d'une livraison signée
+ * - X-Webhook-Timestamp : secondes depuis l'epoch, à comparer à l'heure de réception (rejeu)
+ * - X-Webhook-Signature : "sha256=" + HMAC-SHA256 hexadécimal de "<timestamp>.<corps>"
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * Signature HMAC d'un corps de requête
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Vérifie la signature d'une livraison reçue (côté destinataire)
+ *
+ * @param toleranceSeconds écart maximal accepté entre l'horodatage et l'heure courante (défaut: 300)
+ */
+export function verifyWebhookSignature(
+  body: string,
+  timestamp: string | number,
+  signature: string,
+  secret: string,
+  toleranceSeconds = 300
+): boolean {
+  const seconds = Number(timestamp);
+  if (!Number.isFinite(seconds) || Math.abs(Date.now() / 1000 - seconds) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(body, seconds, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * En-têtes à joindre à une livraison
+ */
+export function createWebhookHeaders(body: string, secret: string, now: number = Date.now()): Record<string, string> {
+  const timestamp = Math.floor(now / 1000);
+  return {
+    'Content-Type': 'application/json',
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, timestamp, secret)
+  };
+}
+
+/**
+ * Vérifie qu'une URL de rappel ne vise ni le serveur lui-même ni son réseau interne
+ * (boucle locale, réseaux privés, lien local dont 169.254.169.254)
+ *
+ * Le nom d'hôte est résolu : toutes ses adresses doivent être publiques. Les hôtes de
+ * `allowedHosts` sont acceptés sans vérification.
+ */
+export async function assertPublicCallbackUrl(url: string, allowedHosts: string[] = []): Promise<void> {
+  const { hostname } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts.some(allowed => allowed.toLowerCase() === host)) {
+    return;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new Error(`URL de rappel refusée: hôte introuvable (${hostname})`);
+  }
+
+  const internal = addresses.find(isInternalAddress);
+  if (internal) {
+    throw new Error(`URL de rappel refusée: ${hostname} pointe vers une adresse interne (${internal})`);
+  }
+}
+
+/**
+ * Adresse non routable sur Internet : non spécifiée, boucle locale, privée, partagée (CGNAT), lien local ou multicast
+ */
+function isInternalAddress(address: string): boolean {
+  const normalized = address.toLowerCase();
+
+  // IPv4 encapsulée dans IPv6 (::ffff:127.0.0.1, normalisée en ::ffff:7f00:1 par le parseur d'URL)
+  const mapped = normalized.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isInternalAddress(mapped[1]);
+    const high = parseInt(mapped[2]!, 16);
+    const low = parseInt(mapped[3]!, 16);
+    return isInternalAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  if (isIP(normalized) === 4) {
+    const [a = 0, b = 0] = normalized.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+
+  return normalized === '::' || normalized === '::1'
+    || /^f[cd]/.test(normalized)
+    || /^fe[89ab]/.test(normalized)
+    || normalized.startsWith('ff');
+}
@@ -0,0 +1,81 @@
+/**
+ * Sélection de pages d'un document (ex: "1-3,7" ou "5-")
+ */
+
+/**
+ * Format accepté : pages isolées ou plages séparées par des virgules, plage ouverte "N-" jusqu'à la fin
+ */
+export const PAGE_SELECTION_PATTERN = /^\s*\d+\s*(-\s*\d*\s*)?(,\s*\d+\s*(-\s*\d*\s*)?)*$/;
+
+/**
+ * Plage de pages contiguës (bornes incluses, base 1)
+ */
+export interface PageRange {
+  first: number;
+  last: number;
+}
+
+/**
+ * Convertit une sélection "1-3,7" en liste triée de numéros de pages
+ */
+export function parsePageSelection(selection: string, pageCount: number): number[] {
+  if (!PAGE_SELECTION_PATTERN.test(selection)) {
+    throw new Error(`Sélection de pages invalide: "${selection}" (format attendu: "1-3,7")`);
+  }
+
+  const pages = new Set<number>();
+
+  for (const part of selection.split(',')) {
+    const [startText, endText] = part.split('-').map(value => value.trim());
+    const first = parseInt(startText!, 10);
+    const last = endText === undefined ? first : endText === '' ? pageCount : parseInt(endText, 10);
+
+    if (first < 1 || last < first) {
+      throw new Error(`Plage de pages invalide: "${part.trim()}"`);
+    }
+    if (last > pageCount) {
+      throw new Error(`Page ${last} hors limites: le document contient ${pageCount} page(s)`);
+    }
+
+    for (let page = first; page <= last; page++) {
+      pages.add(page);
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * Regroupe des numéros de pages triés en plages contiguës
+ */
+export function toPageRanges(pages: number[]): PageRange[] {
+  const ranges: PageRange[] = [];
+
+  for (const page of pages) {
+    const current = ranges[ranges.length - 1];
+    if (current && page === current.last + 1) {
+      current.last = page;
+    } else {
+      ranges.push({ first: page, last: page });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Convertit une liste de pages en sélection, ex: [1, 2, 3, 7] → "1-3,7"
+ */
+export function formatPageSelection(pages: number[]): string {
+  return toPageRanges([...pages].sort((a, b) => a - b))
+    .map(range => range.first === range.last ? `${range.first}` : `${range.first}-${range.last}`)
+    .join(',');
+}
+
+/**
+ * Première page d'une sélection (1 sans sélection)
+ */
+export function firstSelectedPage(selection?: string): number {
+  const numbers = selection?.match(/\d+/g)?.map(Number) ?? [];
+  return numbers.length > 0 ? Math.min(...numbers) : 1;
+}
@@ -0,0 +1,175 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createModuleLogger } from "../../utils/logger";
+import type { ResolutionLimits } from '../vision/tiling';
+import type { RegisteredProvider } from './types';
+
+const logger = createModuleLogger('providers');
+
+/**
+ * Limites de résolution déduites du nom du modèle (limites par défaut des providers)
+ */
+export function modelResolutionLimits(model: string): ResolutionLimits {
+  const modelName = model.toLowerCase();
+
+  if (modelName.includes('pixtral')) {
+    return {
+      maxPixels: 1024 * 1024, // 1,048,576 pixels max
+      maxDimension: 1024      // 1024px max par dimension
+    };
+  } else if (modelName.includes('mistral')) {
+    return {
+      maxPixels: 1540 * 1540, // 2,371,600 pixels max
+      maxDimension: 1540      // 1540px max par dimension
+    };
+  }
+
+  // Par défaut, utiliser 2048 pour les autres modèles
+  return {
+    maxPixels: 2048 * 2048, // 4,194,304 pixels max
+    maxDimension: 2048      // 2048px max par dimension
+  };
+}
+
+/**
+ * Providers disponibles sans enregistrement
+ *
+ * Scaleway, Ollama, Mistral et custom passent par l'API Chat Completions compatible OpenAI ;
+ * OpenAI, Anthropic et Google utilisent leur SDK natif et leur mode de sortie structurée
+ * (JSON schema, outil JSON, responseSchema).
+ */
+export const BUILTIN_PROVIDERS: RegisteredProvider[] = [
+  {
+    name: 'scaleway',
+    factory: ({ model, config }) => {
+      const apiKey = config?.apiKey || process.env.EK_AI_API_KEY;
+      const baseURL = config?.baseURL || process.env.EK_AI_BASE_URL || 'https://api.scaleway.ai/v1';
+
+      if (!apiKey) {
+        throw new Error('Scaleway API key requis: fournissez-le via pdfProcessor.providers.scaleway.apiKey ou EK_AI_API_KEY');
+      }
+
+      return createOpenAI({ apiKey, baseURL }).chat(model); // Force l'utilisation de Chat Completions API
+    },
+    capabilities: {
+      displayName: 'Scaleway AI',
+      defaultModel: 'mistral-small-3.1-24b-instruct-2503',
+      models: ['mistral-small-3.1-24b-instruct-2503'],
+      logprobs: true
+    }
+  },
+  {
+    name: 'ollama',
+    factory: ({ model, config }) => {
+      const baseURL = config?.baseURL || 'http://localhost:11434/v1';
+
+      logger.debug({ provider: 'ollama', baseURL, model }, '🦙 Configuration Ollama');
+
+      // Ollama ne demande pas de clé API
+      return createOpenAI({ baseURL, apiKey: 'not-needed' }).chat(model);
+    },
+    capabilities: {
+      displayName: 'Ollama Local',
+      defaultModel: 'llava:13b',
+      models: ['llava:latest', 'llava:13b', 'llava:34b'],
+      logprobs: true
+    }
+  },
+  {
+    //https://docs.mistral.ai/capabilities/vision/
+    name: 'mistral',
+    factory: ({ model, config }) => {
+      const apiKey = config?.apiKey || process.env.EK_MISTRAL_API_KEY;
+
+      if (!apiKey) {
+        throw new Error('Mistral API key requis: fournissez-le via pdfProcessor.providers.mistral.apiKey ou EK_MISTRAL_API_KEY');
+      }
+
+      return createOpenAI({ apiKey, baseURL: config?.baseURL || 'https://api.mistral.ai/v1' }).chat(model);
+    },
+    capabilities: {
+      displayName: 'Mistral AI',
+      defaultModel: 'pixtral-12b-latest',
+      models: ['pixtral-12b-latest', 'pixtral-large-latest', 'mistral-medium-latest', 'mistral-small-latest']
+    }
+  },
+  {
+    name: 'custom',
+    factory: ({ model, config }) => {
+      const apiKey = config?.apiKey || process.env.CUSTOM_API_KEY || 'not-needed';
+
+      if (!config?.baseURL) {
+        throw new Error('Custom baseURL requis: fournissez-le via pdfProcessor.providers.custom.baseURL');
+      }
+
+      return createOpenAI({ apiKey, baseURL: config.baseURL }).chat(model); // Force l'utilisation de Chat Completions API
+    },
+    capabilities: {
+      displayName: 'Custom OpenAI-Compatible API',
+      defaultModel: '',
+      models: [],
+      logprobs: true
+    }
+  },
+  {
+    // Chat Completions avec response_format json_schema
+    name: 'openai',
+    factory: ({ model, config }) => {
+      const apiKey = config?.apiKey || process.env.EK_OPENAI_API_KEY;
+
+      if (!apiKey) {
+        throw new Error('OpenAI API key requis: fournissez-le via pdfProcessor.providers.openai.apiKey ou EK_OPENAI_API_KEY');
+      }
+
+      return createOpenAI({ apiKey, baseURL: config?.baseURL }).chat(model);
+    },
+    capabilities: {
+      displayName: 'OpenAI',
+      defaultModel: 'gpt-4o',
+      models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+      // Détail "high" : image ramenée dans 2048x2048 puis côté court à 768px
+      imageLimits: () => ({ maxPixels: 768 * 2048, maxDimension: 2048 }),
+      logprobs: true
+    }
+  },
+  {
+    // Sortie structurée via un outil JSON imposé
+    name: 'anthropic',
+    factory: ({ model, config }) => {
+      const apiKey = config?.apiKey || process.env.EK_ANTHROPIC_API_KEY;
+
+      if (!apiKey) {
+        throw new Error('Anthropic API key requis: fournissez-le via pdfProcessor.providers.anthropic.apiKey ou EK_ANTHROPIC_API_KEY');
+      }
+
+      return createAnthropic({ apiKey, baseURL: config?.baseURL })(model);
+    },
+    capabilities: {
+      displayName: 'Anthropic Claude',
+      defaultModel: 'claude-sonnet-4-20250514',
+      models: ['claude-sonnet-4-20250514', 'claude-opus-4-1-20250805', 'claude-3-5-haiku-20241022'],
+      // Au-delà de 1568px ou ~1,15 mégapixel, l'image est réduite côté API
+      imageLimits: () => ({ maxPixels: 1_150_000, maxDimension: 1568 })
+    }
+  },
+  {
+    // Sortie structurée via responseSchema
+    name: 'google',
+    factory: ({ model, config }) => {
+      const apiKey = config?.apiKey || process.env.EK_GOOGLE_API_KEY;
+
+      if (!apiKey) {
+        throw new Error('Google API key requis: fournissez-le via pdfProcessor.providers.google.apiKey ou EK_GOOGLE_API_KEY');
+      }
+
+      return createGoogleGenerativeAI({ apiKey, baseURL: config?.baseURL })(model);
+    },
+    capabilities: {
+      displayName: 'Google Gemini',
+      defaultModel: 'gemini-2.5-flash',
+      models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
+      imageLimits: () => ({ maxPixels: 3072 * 3072, maxDimension: 3072 })
+    }
+  }
+];
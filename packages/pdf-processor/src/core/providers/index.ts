@@ -0,0 +1,7 @@
+/**
+ * Registre des providers Vision (fabriques de modèles et capacités)
+ */
+
+export * from './types';
+export { modelResolutionLimits } from './builtin';
+export { ProviderRegistry, providerRegistry, registerProvider } from './registry';
@@ -0,0 +1,121 @@
+import type { LanguageModel } from 'ai';
+import { createModuleLogger } from "../../utils/logger";
+import type { PdfProcessorConfig } from '../types';
+import type { ProcessedVisionImage } from '../vision/image-optimization';
+import type { ResolutionLimits } from '../vision/tiling';
+import { BUILTIN_PROVIDERS, modelResolutionLimits } from './builtin';
+import type { ProviderCapabilities, ProviderImagePart, ProviderInfo, ProviderModelFactory, RegisteredProvider } from './types';
+
+const logger = createModuleLogger('provider-registry');
+
+/**
+ * Registre des providers Vision : fabrique de modèle, modèle par défaut, limites et format des images
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, RegisteredProvider>(BUILTIN_PROVIDERS.map(provider => [provider.name, provider]));
+
+  /**
+   * Ajoute un provider, ou remplace celui du même nom
+   */
+  register(name: string, factory: ProviderModelFactory, capabilities: ProviderCapabilities): void {
+    if (!name.trim()) {
+      throw new Error('Nom de provider requis');
+    }
+    if (this.providers.has(name)) {
+      logger.warn({ provider: name }, '♻️ Provider remplacé');
+    }
+
+    this.providers.set(name, { name, factory, capabilities });
+    logger.debug({ provider: name, defaultModel: capabilities.defaultModel }, '🔌 Provider enregistré');
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  get(name: string): RegisteredProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Provider non supporté: ${name}. Providers enregistrés: ${this.names().map(existing => `'${existing}'`).join(', ')}.`);
+    }
+    return provider;
+  }
+
+  /**
+   * Modèle effectivement utilisé : option, configuration du provider ou modèle par défaut
+   */
+  resolveModel(name: string, model?: string, config?: PdfProcessorConfig): string {
+    return model || config?.providers?.[name]?.model || this.get(name).capabilities.defaultModel;
+  }
+
+  /**
+   * Instancie le modèle AI SDK du provider avec sa configuration
+   */
+  createModel(name: string, model?: string, config?: PdfProcessorConfig): LanguageModel {
+    const provider = this.get(name);
+    const providerConfig = config?.providers?.[name];
+    const modelToUse = this.resolveModel(name, model, config);
+
+    logger.debug({ provider: name, model: modelToUse, hasCustomConfig: !!providerConfig }, '🤖 Configuration modèle');
+
+    return provider.factory({ model: modelToUse, config: providerConfig });
+  }
+
+  /**
+   * Résolution maximale des images envoyées au modèle effectivement utilisé (voir resolveModel)
+   */
+  getImageLimits(name: string, model?: string, config?: PdfProcessorConfig): ResolutionLimits {
+    const provider = this.providers.get(name);
+    const modelName = provider ? this.resolveModel(name, model, config) : model || '';
+    return (provider?.capabilities.imageLimits || modelResolutionLimits)(modelName);
+  }
+
+  /**
+   * Partie de message d'une image au format attendu par le provider
+   */
+  formatImage(name: string, image: ProcessedVisionImage): ProviderImagePart {
+    const format = this.providers.get(name)?.capabilities.formatImage;
+    return format ? format(image) : { type: 'image', image: `data:image/jpeg;base64,${image.base64}` };
+  }
+
+  supportsLogprobs(name: string): boolean {
+    return !!this.providers.get(name)?.capabilities.logprobs;
+  }
+
+  /**
+   * Description publique d'un provider
+   */
+  describe(name: string): ProviderInfo | undefined {
+    const provider = this.providers.get(name);
+    if (!provider) return undefined;
+
+    return {
+      name: provider.capabilities.displayName,
+      models: provider.capabilities.models || [],
+      defaultModel: provider.capabilities.defaultModel
+    };
+  }
+}
+
+/**
+ * Instance singleton du registre des providers
+ */
+export const providerRegistry = new ProviderRegistry();
+
+/**
+ * Enregistre un provider Vision utilisable partout où un nom de provider est accepté
+ * (options, ensemble, bascule, API)
+ *
+ * @example
+ * registerProvider('openrouter', ({ model, config }) => createOpenAI({ apiKey: config?.apiKey, baseURL: 'https://openrouter.ai/api/v1' }).chat(model), {
+ *   displayName: 'OpenRouter',
+ *   defaultModel: 'qwen/qwen2.5-vl-72b-instruct'
+ * });
+ */
+export function registerProvider(name: string, factory: ProviderModelFactory, capabilities: ProviderCapabilities): void {
+  providerRegistry.register(name, factory, capabilities);
+}
@@ -0,0 +1,63 @@
+import type { LanguageModel } from 'ai';
+import type { ProviderConfig } from '../types';
+import type { ProcessedVisionImage } from '../vision/image-optimization';
+import type { ResolutionLimits } from '../vision/tiling';
+
+/**
+ * Partie de message utilisateur portant une image (format AI SDK)
+ */
+export type ProviderImagePart =
+  | { type: 'image'; image: string | URL; mediaType?: string }
+  | { type: 'file'; data: string | URL; mediaType: string }
+  | { type: 'text'; text: string };
+
+/**
+ * Paramètres transmis à la fabrique de modèle d'un provider
+ */
+export interface ProviderFactoryContext {
+  /** Modèle demandé, ou modèle par défaut du provider */
+  model: string;
+  /** Configuration du provider (pdfProcessor.providers[nom]) */
+  config?: ProviderConfig;
+}
+
+/**
+ * Crée le modèle AI SDK d'un provider (lève une erreur si la configuration est incomplète)
+ */
+export type ProviderModelFactory = (context: ProviderFactoryContext) => LanguageModel;
+
+/**
+ * Caractéristiques d'un provider utilisées par le pipeline
+ */
+export interface ProviderCapabilities {
+  /** Nom affiché (ex: "Mistral AI") */
+  displayName: string;
+  /** Modèle utilisé si aucun n'est demandé ni configuré */
+  defaultModel: string;
+  /** Modèles connus, à titre indicatif */
+  models?: string[];
+  /** Résolution maximale des images selon le modèle (défaut: selon le nom du modèle, 2048px sinon) */
+  imageLimits?: (model: string) => ResolutionLimits;
+  /** Partie de message envoyée pour une image (défaut: image JPEG en data URL) */
+  formatImage?: (image: ProcessedVisionImage) => ProviderImagePart;
+  /** Le provider renvoie les logprobs des tokens via l'option openai.logprobs (scores de confiance) */
+  logprobs?: boolean;
+}
+
+/**
+ * Provider enregistré
+ */
+export interface RegisteredProvider {
+  name: string;
+  factory: ProviderModelFactory;
+  capabilities: ProviderCapabilities;
+}
+
+/**
+ * Description publique d'un provider (export `providers` de la librairie)
+ */
+export interface ProviderInfo {
+  name: string;
+  models: readonly string[];
+  defaultModel: string;
+}
@@ -8,8 +8,17 @@ export * from './base';
 // Re-export des schémas facture/reçu
 export * from './invoice';
 
+// Re-export des schémas factures énergie/eau/télécoms
+export * from './utility-bill';
+
 // Re-export des schémas tableaux
 export * from './tables';
 
 // Re-export de la factory
-export * from './factory';
\ No newline at end of file
+export * from './factory';
+
+// Re-export de la conversion JSON Schema → Zod
+export * from './json-schema';
+
+// Re-export du registre des schémas nommés et versionnés
+export * from './registry';
@@ -0,0 +1,348 @@
+import { z } from 'zod';
+
+/**
+ * Mots-clés JSON Schema pris en charge par la conversion vers Zod
+ *
+ * Les annotations (title, default, examples...) sont acceptées et ignorées. Les mots-clés "x-*"
+ * (extensions) sont ignorés.
+ */
+const SUPPORTED_KEYWORDS = new Set([
+  'type', 'properties', 'required', 'additionalProperties', 'items',
+  'enum', 'const', 'format', 'description', 'nullable',
+  '$ref', '$defs', 'definitions', 'anyOf', 'oneOf',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems',
+  '$schema', '$id', '$comment', 'title', 'default', 'examples', 'readOnly', 'writeOnly', 'deprecated'
+]);
+
+const JSON_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/**
+ * Formats de chaîne vérifiés par Zod ; les autres formats sont transmis au modèle dans la description
+ */
+const STRING_FORMATS: Record<string, (schema: z.ZodString) => z.ZodString> = {
+  'email': schema => schema.email(),
+  'uri': schema => schema.url(),
+  'url': schema => schema.url(),
+  'uuid': schema => schema.uuid(),
+  'date-time': schema => schema.datetime({ offset: true }),
+  'date': schema => schema.date(),
+  'time': schema => schema.time(),
+  'ipv4': schema => schema.ip({ version: 'v4' }),
+  'ipv6': schema => schema.ip({ version: 'v6' })
+};
+
+type JSONSchema = Record<string, any>;
+
+/**
+ * Convertit un JSON Schema (draft 7 / 2020-12) en schéma Zod
+ *
+ * Les propriétés absentes de "required" deviennent optionnelles, les descriptions sont conservées
+ * (.describe) pour être transmises au modèle. Les références locales ("#/$defs/...", "#/definitions/...", "#")
+ * sont résolues, récursion comprise. Lève une erreur listant les mots-clés non pris en charge plutôt que
+ * d'ignorer une contrainte.
+ */
+export function jsonSchemaToZod(jsonSchema: unknown): z.ZodTypeAny {
+  if (!isSchemaObject(jsonSchema)) {
+    throw new Error('JSON Schema invalide: un objet est attendu');
+  }
+
+  const unsupported = findUnsupportedKeywords(jsonSchema, '#');
+  if (unsupported.length > 0) {
+    throw new Error(`Mots-clés JSON Schema non supportés: ${unsupported.join(', ')}`);
+  }
+
+  return new JSONSchemaConverter(jsonSchema).convertRoot();
+}
+
+/**
+ * Descriptions des champs d'un schéma Zod (.describe), par chemin JSON (ex: "line_items[].amount")
+ */
+export function collectFieldDescriptions(schema: z.ZodTypeAny, path = ''): Array<{ path: string; description: string }> {
+  const own = schema.description && path ? [{ path, description: schema.description }] : [];
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return mergeDescriptions(own, collectFieldDescriptions(schema.unwrap(), path));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return mergeDescriptions(own, collectFieldDescriptions(schema.removeDefault(), path));
+  }
+  if (schema instanceof z.ZodObject) {
+    return [...own, ...Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+      .flatMap(([key, value]) => collectFieldDescriptions(value, path ? `${path}.${key}` : key))];
+  }
+  if (schema instanceof z.ZodArray) {
+    return mergeDescriptions(own, collectFieldDescriptions(schema.element, `${path}[]`));
+  }
+  // Unions et références (z.lazy) : seule la description du champ lui-même
+  return own;
+}
+
+// Une description portée à la fois par le champ et par son type enveloppé n'est listée qu'une fois
+function mergeDescriptions(
+  own: Array<{ path: string; description: string }>,
+  inner: Array<{ path: string; description: string }>
+): Array<{ path: string; description: string }> {
+  return [...own, ...inner.filter(entry => !own.some(existing => existing.path === entry.path && existing.description === entry.description))];
+}
+
+/**
+ * Conversion d'un JSON Schema avec ses définitions (résolution des $ref)
+ */
+class JSONSchemaConverter {
+  private resolved = new Map<string, z.ZodTypeAny>();
+  private resolving = new Set<string>();
+
+  constructor(private root: JSONSchema) {}
+
+  /**
+   * Racine convertie comme la référence "#", qu'elle peut contenir (schéma récursif)
+   */
+  convertRoot(): z.ZodTypeAny {
+    return this.convertReference('#', '#');
+  }
+
+  private convert(schema: JSONSchema, path: string): z.ZodTypeAny {
+    let converted = this.convertType(schema, path);
+
+    if (schema.nullable === true) {
+      converted = converted.nullable();
+    }
+
+    const description = this.buildDescription(schema);
+    return description ? converted.describe(description) : converted;
+  }
+
+  private convertType(schema: JSONSchema, path: string): z.ZodTypeAny {
+    if (typeof schema.$ref === 'string') {
+      return this.convertReference(schema.$ref, path);
+    }
+
+    if (schema.const !== undefined) {
+      return this.literal(schema.const, path);
+    }
+
+    if (Array.isArray(schema.enum)) {
+      return this.convertEnum(schema.enum, path);
+    }
+
+    const alternatives = schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(alternatives)) {
+      const keyword = schema.anyOf ? 'anyOf' : 'oneOf';
+      return this.union(alternatives.map((alternative, index) => this.convert(alternative, `${path}/${keyword}/${index}`)), path);
+    }
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : this.inferTypes(schema);
+    if (types.length === 0) {
+      return z.any();
+    }
+
+    const invalid = types.filter(type => !JSON_TYPES.includes(type));
+    if (invalid.length > 0) {
+      throw new Error(`Type JSON Schema inconnu à ${path}: ${invalid.join(', ')}`);
+    }
+
+    const nonNull = types.filter(type => type !== 'null');
+    if (nonNull.length === 0) {
+      return z.null();
+    }
+    const converted = this.union(nonNull.map(type => this.convertSingleType(type, schema, path)), path);
+    return types.includes('null') ? converted.nullable() : converted;
+  }
+
+  /**
+   * Type déduit des mots-clés quand "type" est absent, ex: { properties } → objet
+   */
+  private inferTypes(schema: JSONSchema): string[] {
+    if (schema.properties || schema.required || schema.additionalProperties !== undefined) return ['object'];
+    if (schema.items || schema.minItems !== undefined || schema.maxItems !== undefined) return ['array'];
+    if (schema.pattern || schema.format || schema.minLength !== undefined || schema.maxLength !== undefined) return ['string'];
+    if (['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum'].some(keyword => schema[keyword] !== undefined)) return ['number'];
+    return [];
+  }
+
+  private convertSingleType(type: string, schema: JSONSchema, path: string): z.ZodTypeAny {
+    switch (type) {
+      case 'string': return this.convertString(schema, path);
+      case 'number': return this.convertNumber(z.number(), schema);
+      case 'integer': return this.convertNumber(z.number().int(), schema);
+      case 'boolean': return z.boolean();
+      case 'array': return this.convertArray(schema, path);
+      case 'object': return this.convertObject(schema, path);
+      default: return z.null();
+    }
+  }
+
+  private convertString(schema: JSONSchema, path: string): z.ZodTypeAny {
+    let converted = z.string();
+    if (typeof schema.minLength === 'number') converted = converted.min(schema.minLength);
+    if (typeof schema.maxLength === 'number') converted = converted.max(schema.maxLength);
+
+    if (typeof schema.pattern === 'string') {
+      try {
+        converted = converted.regex(new RegExp(schema.pattern, 'u'));
+      } catch (error: any) {
+        throw new Error(`Expression "pattern" invalide à ${path}: ${error.message}`);
+      }
+    }
+
+    const format = typeof schema.format === 'string' ? STRING_FORMATS[schema.format] : undefined;
+    return format ? format(converted) : converted;
+  }
+
+  private convertNumber(converted: z.ZodNumber, schema: JSONSchema): z.ZodTypeAny {
+    if (typeof schema.minimum === 'number') converted = converted.min(schema.minimum);
+    if (typeof schema.maximum === 'number') converted = converted.max(schema.maximum);
+    // Draft 4 : exclusiveMinimum/exclusiveMaximum booléens qualifiant minimum/maximum
+    if (schema.exclusiveMinimum === true && typeof schema.minimum === 'number') converted = converted.gt(schema.minimum);
+    if (schema.exclusiveMaximum === true && typeof schema.maximum === 'number') converted = converted.lt(schema.maximum);
+    if (typeof schema.exclusiveMinimum === 'number') converted = converted.gt(schema.exclusiveMinimum);
+    if (typeof schema.exclusiveMaximum === 'number') converted = converted.lt(schema.exclusiveMaximum);
+    return converted;
+  }
+
+  private convertArray(schema: JSONSchema, path: string): z.ZodTypeAny {
+    if (Array.isArray(schema.items)) {
+      throw new Error(`Mots-clés JSON Schema non supportés: items (tuple) à ${path}`);
+    }
+
+    let converted = z.array(isSchemaObject(schema.items) ? this.convert(schema.items, `${path}/items`) : z.any());
+    if (typeof schema.minItems === 'number') converted = converted.min(schema.minItems);
+    if (typeof schema.maxItems === 'number') converted = converted.max(schema.maxItems);
+    return converted;
+  }
+
+  private convertObject(schema: JSONSchema, path: string): z.ZodTypeAny {
+    const properties: Record<string, JSONSchema> = isSchemaObject(schema.properties) ? schema.properties : {};
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    const additional = schema.additionalProperties;
+
+    // Dictionnaire : { additionalProperties: { type: 'number' } } sans propriétés
+    if (Object.keys(properties).length === 0 && isSchemaObject(additional)) {
+      return z.record(this.convert(additional, `${path}/additionalProperties`));
+    }
+
+    const missing = [...required].filter(key => !(key in properties));
+    if (missing.length > 0 && additional === false) {
+      throw new Error(`Propriétés requises absentes de "properties" à ${path}: ${missing.join(', ')}`);
+    }
+
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [key, property] of Object.entries(properties)) {
+      const converted = this.convert(isSchemaObject(property) ? property : {}, `${path}/properties/${key}`);
+      shape[key] = required.has(key) ? converted : converted.optional();
+    }
+
+    const object = z.object(shape);
+    if (additional === false) return object.strict();
+    if (additional === true) return object.passthrough();
+    if (isSchemaObject(additional)) return object.catchall(this.convert(additional, `${path}/additionalProperties`));
+    // Sans additionalProperties : les clés non décrites renvoyées par le modèle sont ignorées
+    return object;
+  }
+
+  private convertEnum(values: unknown[], path: string): z.ZodTypeAny {
+    const nonNull = values.filter(value => value !== null);
+    const strings = nonNull.filter((value): value is string => typeof value === 'string');
+
+    const converted = strings.length === nonNull.length && strings.length > 0
+      ? z.enum(strings as [string, ...string[]])
+      : this.union(nonNull.map(value => this.literal(value, path)), path);
+
+    return nonNull.length < values.length ? converted.nullable() : converted;
+  }
+
+  private literal(value: unknown, path: string): z.ZodTypeAny {
+    if (value === null) return z.null();
+    if (['string', 'number', 'boolean'].includes(typeof value)) return z.literal(value as string | number | boolean);
+    throw new Error(`Valeur enum/const non supportée à ${path}: ${JSON.stringify(value)}`);
+  }
+
+  private union(options: z.ZodTypeAny[], path: string): z.ZodTypeAny {
+    if (options.length === 0) {
+      throw new Error(`Aucun type possible à ${path}`);
+    }
+    return options.length === 1
+      ? options[0]!
+      : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  /**
+   * Référence locale, résolue une fois ; une référence en cours de résolution (schéma récursif) passe par z.lazy
+   */
+  private convertReference(ref: string, path: string): z.ZodTypeAny {
+    const cached = this.resolved.get(ref);
+    if (cached) {
+      return cached;
+    }
+    if (this.resolving.has(ref)) {
+      return z.lazy(() => this.resolved.get(ref)!);
+    }
+
+    const target = this.resolvePointer(ref, path);
+    this.resolving.add(ref);
+    const converted = this.convert(target, ref);
+    this.resolving.delete(ref);
+    this.resolved.set(ref, converted);
+    return converted;
+  }
+
+  private resolvePointer(ref: string, path: string): JSONSchema {
+    if (ref !== '#' && !ref.startsWith('#/')) {
+      throw new Error(`Référence externe non supportée à ${path}: ${ref}`);
+    }
+
+    let target: unknown = this.root;
+    for (const segment of ref.slice(2).split('/').filter(Boolean)) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = isSchemaObject(target) ? target[key] : undefined;
+    }
+
+    if (!isSchemaObject(target)) {
+      throw new Error(`Référence introuvable à ${path}: ${ref}`);
+    }
+    return target;
+  }
+
+  /**
+   * Description transmise au modèle, complétée par les formats non vérifiés par Zod
+   */
+  private buildDescription(schema: JSONSchema): string | undefined {
+    const format = typeof schema.format === 'string' && !STRING_FORMATS[schema.format] ? `format: ${schema.format}` : undefined;
+    const parts = [schema.description, format].filter((part): part is string => typeof part === 'string' && part.length > 0);
+    return parts.length > 0 ? parts.join(' - ') : undefined;
+  }
+}
+
+/**
+ * Mots-clés non pris en charge, avec leur position (ex: "allOf à #/properties/seller")
+ */
+function findUnsupportedKeywords(schema: JSONSchema, path: string): string[] {
+  const unsupported = Object.keys(schema)
+    .filter(keyword => !SUPPORTED_KEYWORDS.has(keyword) && !keyword.startsWith('x-'))
+    .map(keyword => `${keyword} à ${path}`);
+
+  const children: Array<[unknown, string]> = [];
+  for (const keyword of ['properties', '$defs', 'definitions']) {
+    if (isSchemaObject(schema[keyword])) {
+      for (const [key, child] of Object.entries(schema[keyword])) {
+        children.push([child, `${path}/${keyword}/${key}`]);
+      }
+    }
+  }
+  for (const keyword of ['anyOf', 'oneOf']) {
+    if (Array.isArray(schema[keyword])) {
+      schema[keyword].forEach((child: unknown, index: number) => children.push([child, `${path}/${keyword}/${index}`]));
+    }
+  }
+  children.push([schema.items, `${path}/items`], [schema.additionalProperties, `${path}/additionalProperties`]);
+
+  return [
+    ...unsupported,
+    ...children.flatMap(([child, childPath]) => isSchemaObject(child) ? findUnsupportedKeywords(child, childPath) : [])
+  ];
+}
+
+function isSchemaObject(value: unknown): value is JSONSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,233 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { createModuleLogger } from "../../utils/logger";
+import { consistencyValidator, UtilityBillValidator, type ExtractionValidator } from '../validation';
+import { BasicReceiptSchema, ComprehensiveInvoiceSchema } from './invoice';
+import { TablesOnlySchema } from './tables';
+import { UTILITY_BILL_PROMPT, UtilityBillSchema } from './utility-bill';
+import { jsonSchemaToZod } from './json-schema';
+
+const logger = createModuleLogger('schema-registry');
+
+/**
+ * Schéma de document enregistré par nom et version
+ */
+export interface SchemaDefinition {
+  /** Nom utilisé dans l'option documentType, ex: 'purchase-order' */
+  name: string;
+  /** Version, ex: '1', '2.1.0' ; documentType 'nom@version' cible une version précise, 'nom' la plus récente */
+  version: string;
+  description?: string;
+  /** Schéma Zod ou JSON Schema (converti avec jsonSchemaToZod) */
+  schema: z.ZodTypeAny | Record<string, unknown>;
+  /** Consignes d'extraction ajoutées au prompt à la place des consignes génériques */
+  prompt?: string;
+  /** Vérifications de cohérence appliquées aux données extraites avec ce schéma */
+  validators?: ExtractionValidator[];
+}
+
+/**
+ * Schéma enregistré, converti en Zod
+ */
+export interface RegisteredSchema {
+  name: string;
+  version: string;
+  description?: string;
+  schema: z.ZodTypeAny;
+  prompt?: string;
+  validators: ExtractionValidator[];
+  /** Forme d'origine du schéma */
+  format: 'zod' | 'json-schema';
+}
+
+/**
+ * Description publique d'une version de schéma (GET /api/v1/schemas)
+ */
+export interface SchemaInfo {
+  name: string;
+  version: string;
+  /** Version utilisée quand documentType ne précise pas de version */
+  latest: boolean;
+  description?: string;
+  format: 'zod' | 'json-schema';
+  hasPrompt: boolean;
+  /** Noms des validateurs propres au schéma */
+  validators: string[];
+}
+
+const INVOICE_PROMPT = `TASK: Extract comprehensive invoice information.
+- Invoice details (number, date, amounts)
+- Seller and buyer information
+- Line items with quantities and prices
+- Financial totals and tax information
+- Payment terms and banking details
+- Use null for missing fields - never guess`;
+
+const BUILTIN_SCHEMAS: SchemaDefinition[] = [
+  { name: 'invoice', version: '1', description: 'Complete invoice: parties, line items, totals, VAT and payment terms', schema: ComprehensiveInvoiceSchema, prompt: INVOICE_PROMPT },
+  { name: 'receipt', version: '1', description: 'Till or payment receipt: merchant, date and total', schema: BasicReceiptSchema },
+  { name: 'tables', version: '1', description: 'Tables and tabular data only', schema: TablesOnlySchema },
+  {
+    name: 'utility-bill',
+    version: '1',
+    description: 'Energy, water or telecom bill: delivery points (PDL/PCE), meter readings and charges per tariff band and period',
+    schema: UtilityBillSchema,
+    prompt: UTILITY_BILL_PROMPT,
+    validators: [new UtilityBillValidator()]
+  }
+];
+
+/**
+ * Registre des schémas de document nommés et versionnés
+ */
+export class SchemaRegistry {
+  private schemas = new Map<string, Map<string, RegisteredSchema>>();
+
+  constructor() {
+    BUILTIN_SCHEMAS.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Ajoute une version de schéma, ou remplace la même version ; ses validateurs rejoignent les vérifications de cohérence
+   */
+  register(definition: SchemaDefinition): RegisteredSchema {
+    if (!/^[\w-]+$/.test(definition.name)) {
+      throw new Error(`Nom de schéma invalide: ${definition.name}`);
+    }
+    if (!/^[\w.-]+$/.test(definition.version)) {
+      throw new Error(`Version de schéma invalide: ${definition.name}@${definition.version}`);
+    }
+
+    const isZod = definition.schema instanceof z.ZodType;
+    const registered: RegisteredSchema = {
+      name: definition.name,
+      version: definition.version,
+      description: definition.description,
+      schema: isZod ? definition.schema as z.ZodTypeAny : jsonSchemaToZod(definition.schema),
+      prompt: definition.prompt,
+      validators: definition.validators || [],
+      format: isZod ? 'zod' : 'json-schema'
+    };
+
+    const versions = this.schemas.get(definition.name) || new Map<string, RegisteredSchema>();
+    if (versions.has(definition.version)) {
+      logger.warn({ schema: definition.name, version: definition.version }, '♻️ Schéma remplacé');
+    }
+    versions.set(definition.version, registered);
+    this.schemas.set(definition.name, versions);
+
+    // Chaque validateur ne s'applique qu'aux extractions faites avec cette version du schéma
+    for (const validator of registered.validators) {
+      consistencyValidator.register({
+        name: `${registered.name}@${registered.version}:${validator.name}`,
+        appliesTo: schema => schema === registered.schema,
+        validate: (data, tolerance) => validator.validate(data, tolerance)
+      });
+    }
+
+    logger.debug({ schema: registered.name, version: registered.version, format: registered.format }, '📐 Schéma enregistré');
+    return registered;
+  }
+
+  /**
+   * Schéma désigné par 'nom' (version la plus récente) ou 'nom@version'
+   */
+  find(reference: string): RegisteredSchema | undefined {
+    const [name, version] = reference.split('@');
+    const versions = this.schemas.get(name!);
+    if (!versions) return undefined;
+    return version ? versions.get(version) : versions.get(latestVersion([...versions.keys()]));
+  }
+
+  has(reference: string): boolean {
+    return !!this.find(reference);
+  }
+
+  names(): string[] {
+    return [...this.schemas.keys()];
+  }
+
+  /**
+   * Versions enregistrées, triées par nom puis version
+   */
+  list(): SchemaInfo[] {
+    return [...this.schemas.entries()].flatMap(([name, versions]) => {
+      const latest = latestVersion([...versions.keys()]);
+      return [...versions.values()]
+        .sort((a, b) => compareVersions(a.version, b.version))
+        .map(registered => ({
+          name,
+          version: registered.version,
+          latest: registered.version === latest,
+          description: registered.description,
+          format: registered.format,
+          hasPrompt: !!registered.prompt,
+          validators: registered.validators.map(validator => validator.name)
+        }));
+    });
+  }
+
+  /**
+   * Enregistre les schémas d'un répertoire (chargement au démarrage)
+   *
+   * - fichiers .json : { name, version, description?, prompt?, schema } avec un JSON Schema
+   * - modules .ts/.js/.mjs : export default d'une définition (ou d'un tableau), Zod et validateurs compris
+   *
+   * Un fichier invalide interrompt le chargement avec son nom dans le message d'erreur.
+   */
+  async loadDirectory(directory: string): Promise<RegisteredSchema[]> {
+    const files = (await fs.readdir(directory)).filter(file => /\.(json|ts|js|mjs)$/.test(file) && !file.endsWith('.d.ts')).sort();
+    const registered: RegisteredSchema[] = [];
+
+    for (const file of files) {
+      const filePath = path.join(directory, file);
+      try {
+        const content = file.endsWith('.json')
+          ? JSON.parse(await fs.readFile(filePath, 'utf8'))
+          : (await import(pathToFileURL(filePath).href)).default;
+
+        const definitions: SchemaDefinition[] = Array.isArray(content) ? content : [content];
+        for (const definition of definitions) {
+          if (!definition || typeof definition.name !== 'string' || typeof definition.version !== 'string' || !definition.schema) {
+            throw new Error('définition attendue: { name, version, schema }');
+          }
+          registered.push(this.register(definition));
+        }
+      } catch (error: any) {
+        throw new Error(`Schéma invalide dans ${file}: ${error.message}`);
+      }
+    }
+
+    logger.info({ directory, schemas: registered.map(schema => `${schema.name}@${schema.version}`) }, '📐 Schémas chargés');
+    return registered;
+  }
+}
+
+/**
+ * Compare deux versions segment par segment, numériquement quand c'est possible ("1.10" > "1.9")
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.');
+  const right = b.split('.');
+
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const x = left[index] ?? '0';
+    const y = right[index] ?? '0';
+    const difference = /^\d+$/.test(x) && /^\d+$/.test(y)
+      ? Number(x) - Number(y)
+      : x.localeCompare(y);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  return 0;
+}
+
+function latestVersion(versions: string[]): string {
+  return versions.reduce((latest, version) => compareVersions(version, latest) > 0 ? version : latest);
+}
+
+/**
+ * Instance singleton du registre des schémas
+ */
+export const schemaRegistry = new SchemaRegistry();
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { ContactInfoSchema, DocumentInfoSchema, PaymentInfoSchema, AddressSchema } from './base';
+import { FinancialTotalsSchema } from './invoice';
+
+/**
+ * Schémas des factures d'énergie, d'eau et de télécoms
+ */
+
+// Point de livraison ou de service : PDL/PRM (électricité), PCE (gaz), ligne ou contrat (télécoms, eau)
+export const DeliveryPointSchema = z.object({
+  identifier: z.string().nullable().optional(),
+  identifier_type: z.string().nullable().optional(), // PDL, PRM, PCE, line_number...
+  service_type: z.string().nullable().optional(), // electricity, gas, water, telecom
+  address: AddressSchema.nullable().optional(),
+  contract_number: z.string().nullable().optional(),
+  tariff_option: z.string().nullable().optional(), // Base, Heures Creuses, Tempo, forfait...
+  subscribed_power_kva: z.number().nullable().optional(),
+});
+
+export const MeterReadingSchema = z.object({
+  meter_number: z.string().nullable().optional(),
+  delivery_point: z.string().nullable().optional(),
+  tariff_band: z.string().nullable().optional(), // HP, HC, base, peak...
+  period_start: z.string().nullable().optional(),
+  period_end: z.string().nullable().optional(),
+  previous_reading: z.number().nullable().optional(),
+  current_reading: z.number().nullable().optional(),
+  reading_type: z.string().nullable().optional(), // actual, estimated, customer
+  // Gaz : m³ relevés × coefficient de conversion = kWh facturés
+  conversion_coefficient: z.number().nullable().optional(),
+  consumption: z.number().nullable().optional(),
+  unit: z.string().nullable().optional(),
+});
+
+export const UtilityChargeSchema = z.object({
+  description: z.string().nullable().optional(),
+  category: z.string().nullable().optional(), // consumption, subscription, tax, service, other
+  delivery_point: z.string().nullable().optional(),
+  tariff_band: z.string().nullable().optional(),
+  period_start: z.string().nullable().optional(),
+  period_end: z.string().nullable().optional(),
+  quantity: z.number().nullable().optional(),
+  unit: z.string().nullable().optional(), // kWh, m3, GB, min, jours, mois...
+  unit_price: z.number().nullable().optional(),
+  amount: z.number().nullable().optional(),
+  tax_rate: z.number().nullable().optional(),
+  estimated: z.boolean().nullable().optional(),
+});
+
+export const UtilityBillDetailsSchema = z.object({
+  bill_number: z.string().nullable().optional(),
+  bill_date: z.string().nullable().optional(),
+  due_date: z.string().nullable().optional(),
+  customer_number: z.string().nullable().optional(),
+  contract_number: z.string().nullable().optional(),
+  billing_period_start: z.string().nullable().optional(),
+  billing_period_end: z.string().nullable().optional(),
+  bill_type: z.string().nullable().optional(), // actual, estimated, regularization, installment
+});
+
+// === SCHÉMA FACTURE ÉNERGIE / EAU / TÉLÉCOMS ===
+export const UtilityBillSchema = z.object({
+  document_info: DocumentInfoSchema.optional(),
+  service_type: z.string().nullable().optional(), // electricity, gas, dual, water, telecom, internet, mobile
+  bill_details: UtilityBillDetailsSchema.optional(),
+  supplier_info: ContactInfoSchema.optional(),
+  customer_info: ContactInfoSchema.optional(),
+  delivery_points: z.array(DeliveryPointSchema).optional(),
+  meter_readings: z.array(MeterReadingSchema).optional(),
+  charges: z.array(UtilityChargeSchema).optional(),
+  financial_totals: FinancialTotalsSchema.optional(),
+  payment_info: PaymentInfoSchema.optional(),
+});
+
+/**
+ * Consignes d'extraction des factures d'énergie, d'eau et de télécoms
+ */
+export const UTILITY_BILL_PROMPT = `TASK: Extract an energy, water or telecom bill.
+- Bill details: number, dates, customer and contract numbers, billing period, whether it is based on actual or estimated readings
+- Delivery points: PDL/PRM (electricity), PCE (gas), line or contract number, with tariff option and subscribed power
+- Meter readings: one entry per meter and tariff band (e.g. HP/HC), with previous and current index, period and consumption
+- Charges: one line per billed item, keeping the tariff band, period, quantity, unit, unit price and amount excluding VAT as printed
+- Subscription, taxes (CTA, accise, TICGN...) and services are separate charge lines with their category
+- Financial totals and payment details
+- Use null for missing fields - never guess`;
+
+// Types TypeScript générés
+export type DeliveryPoint = z.infer<typeof DeliveryPointSchema>;
+export type MeterReading = z.infer<typeof MeterReadingSchema>;
+export type UtilityCharge = z.infer<typeof UtilityChargeSchema>;
+export type UtilityBillDetails = z.infer<typeof UtilityBillDetailsSchema>;
+export type UtilityBill = z.infer<typeof UtilityBillSchema>;
@@ -1,7 +1,50 @@
+import type { CacheConfig } from './cache/types';
+
+/**
+ * Vision LLM providers intégrés
+ */
+export type BuiltinVisionProvider = 'scaleway' | 'ollama' | 'mistral' | 'custom' | 'openai' | 'anthropic' | 'google';
+
+/**
+ * Nom d'un provider Vision : intégré ou ajouté avec registerProvider()
+ */
+export type VisionProvider = BuiltinVisionProvider | (string & {});
+
+/**
+ * Mode d'extraction : images (vision), couche texte du PDF (text) ou les deux (hybrid)
+ */
+export type ExtractionMode = 'vision' | 'text' | 'hybrid';
+
+/**
+ * Mode de recadrage : pourcentage centré, zone de contenu détectée ou marges uniformes
+ */
+export type CropMode = 'center' | 'content' | 'margins';
+
+/**
+ * Type de fichier en entrée : PDF ou image (JPEG, PNG, TIFF, WebP, HEIC)
+ */
+export type InputFileType = 'pdf' | 'image';
+
 /**
- * Vision LLM providers disponibles
+ * Ligne de texte natif et sa position sur la page
  */
-export type VisionProvider = 'scaleway' | 'ollama' | 'mistral' | 'custom';
+export interface PdfTextLine {
+  text: string;
+  /** Boîte englobante [x_min, y_min, x_max, y_max], normalisée entre 0 et 1, origine en haut à gauche */
+  bbox: [number, number, number, number];
+}
+
+/**
+ * Texte natif d'une page PDF
+ */
+export interface PdfPageText {
+  /** Numéro de page (base 1) */
+  page: number;
+  /** Texte de la page, une ligne par ligne de texte, de haut en bas */
+  text: string;
+  /** Lignes de la page avec leur position */
+  lines: PdfTextLine[];
+}
 
 /**
  * Options pour extraction Vision LLM (style Sparrow)
@@ -17,16 +60,52 @@ export interface VisionExtractionOptions {
    */
   model?: string;
   
+  /**
+   * Mode d'extraction (défaut: 'vision')
+   * - 'text' : envoie la couche texte du PDF au lieu des images (PDF natifs)
+   * - 'hybrid' : envoie la couche texte avec les images
+   */
+  mode?: ExtractionMode;
+  
   /**
    * Résolution DPI pour extraction d'images
    */
   dpi?: number;
   
   /**
-   * Recadrage intelligent Sparrow (pourcentage)
+   * Pages à traiter (ex: "1-3,7"), toutes les pages si non défini
    */
-  cropSize?: number;
+  pages?: string;
+  
+  /**
+   * Correction automatique de l'orientation : EXIF, quart de tour, redressement de l'inclinaison
+   */
+  autoOrient?: boolean;
   
+  /**
+   * Mode de recadrage (défaut: 'center' si cropSize est défini, sinon aucun recadrage)
+   * - 'center' : conserve cropSize % de la page, centré
+   * - 'content' : recadre sur le contenu détecté (texte, tableaux, logos)
+   * - 'margins' : retire les marges uniformes (blanches) autour de la page
+   */
+  cropMode?: CropMode;
+  
+  /**
+   * Recadrage intelligent Sparrow (pourcentage, mode 'center')
+   */
+  cropSize?: number;
+
+  /**
+   * Découpage des grandes pages en tuiles sous la limite de résolution du modèle
+   * (petits caractères lisibles), chaque tuile étant extraite séparément puis fusionnée
+   */
+  tiling?: boolean;
+
+  /**
+   * Recouvrement entre tuiles voisines, en part de la taille d'une tuile (défaut: 0.1)
+   */
+  tileOverlap?: number;
+
   /**
    * Qualité JPEG pour Vision LLM (70-100)
    */
@@ -44,7 +123,7 @@ export interface VisionExtractionOptions {
 export interface InternalProcessingOptions extends VisionExtractionOptions {
   // Options Vision spécifiques
   tablesOnly?: boolean;
-  documentType?: 'invoice' | 'receipt' | 'basic';
+  documentType?: string;
   query?: string;
   customSchema?: any;
   
@@ -52,28 +131,52 @@ export interface InternalProcessingOptions extends VisionExtractionOptions {
   extractImages: boolean;
 }
 
-/**
- * Modèles par défaut selon provider
- */
-export const DEFAULT_MODELS: Record<VisionProvider, string> = {
-  'scaleway': 'mistral-small-3.1-24b-instruct-2503',
-  'ollama': 'llava:13b',
-  'mistral': 'pixtral-12b-latest',
-  'custom': '' 
-};
-
 /**
  * Configuration d'un provider AI
  */
 export interface ProviderConfig {
   /** Modèle à utiliser pour ce provider */
   model?: string;
-  /** Clé API (pour Scaleway) */
+  /** Clé API (Scaleway, Mistral, OpenAI, Anthropic, Google) */
   apiKey?: string;
   /** URL de base personnalisée */
   baseURL?: string;
 }
 
+/**
+ * Bascule vers d'autres providers quand le provider demandé est indisponible (429, 5xx, réseau)
+ */
+export interface FallbackConfig {
+  /** Providers essayés dans l'ordre après le provider demandé, ex: ['mistral', 'ollama'] */
+  providers: Array<VisionProvider | { provider: VisionProvider; model?: string }>;
+  /** Échecs consécutifs avant d'ouvrir le circuit d'un provider (défaut: 3) */
+  failureThreshold?: number;
+  /** Durée d'ouverture du circuit avant un nouvel essai, en ms (défaut: 60000) */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Prix d'un modèle, pour l'estimation du coût des extractions
+ */
+export interface ModelPrice {
+  /** Prix par million de tokens en entrée */
+  inputPerMillion: number;
+  /** Prix par million de tokens en sortie */
+  outputPerMillion: number;
+  /** Prix par image envoyée, si facturé en plus des tokens */
+  perImage?: number;
+}
+
+/**
+ * Table de prix par modèle
+ */
+export interface PricingConfig {
+  /** Devise des prix (défaut: 'USD') */
+  currency?: string;
+  /** Prix par "provider/modèle" ou par nom de modèle, ex: { 'mistral/pixtral-12b-latest': {...}, 'gpt-4o': {...} } */
+  models: Record<string, ModelPrice>;
+}
+
 /**
  * Configuration complète du processeur PDF
  */
@@ -83,7 +186,18 @@ export interface PdfProcessorConfig {
     ollama?: ProviderConfig;
     mistral?: ProviderConfig;
     custom?: ProviderConfig;
+    openai?: ProviderConfig;
+    anthropic?: ProviderConfig;
+    google?: ProviderConfig;
+    /** Providers ajoutés avec registerProvider() */
+    [provider: string]: ProviderConfig | undefined;
   };
+  /** Providers de secours et coupe-circuit par provider */
+  fallback?: FallbackConfig;
+  /** Prix des modèles pour l'estimation du coût dans metadata.usage */
+  pricing?: PricingConfig;
+  /** Cache des résultats d'extraction (désactivé si absent) */
+  cache?: CacheConfig;
 }
 
 /**
@@ -0,0 +1,69 @@
+import type { ValidationTolerance, ValidationWarning } from './types';
+
+/**
+ * Outils de comparaison de montants partagés par les validateurs
+ */
+
+export const DEFAULT_TOLERANCE: ValidationTolerance = {
+  absolute: 0.01,
+  relative: 0.001
+};
+
+/**
+ * Vérifie qu'un montant extrait correspond au montant attendu, aux arrondis près
+ *
+ * @param roundedTerms - Nombre de montants arrondis cumulés dans la valeur attendue
+ */
+export function amountsMatch(
+  expected: number,
+  actual: number,
+  tolerance: ValidationTolerance,
+  roundedTerms: number = 1
+): boolean {
+  const allowed = Math.max(tolerance.absolute * Math.max(1, roundedTerms), tolerance.relative * Math.abs(expected));
+  return Math.abs(expected - actual) <= allowed + Number.EPSILON;
+}
+
+/**
+ * Premier montant numérique parmi des champs synonymes (ex: total_ht, subtotal)
+ *
+ * @returns Le montant et le nom du champ trouvé
+ */
+export function pickAmount(source: Record<string, any> | null | undefined, keys: string[]): { value: number; key: string } | null {
+  if (!source) return null;
+
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return { value, key };
+    }
+  }
+  return null;
+}
+
+/**
+ * Taux exprimé en pourcentage (20) ou en fraction (0.2), ramené en fraction
+ */
+export function toRate(rate: number): number {
+  return rate > 1 ? rate / 100 : rate;
+}
+
+/**
+ * Arrondi au centime pour l'affichage des montants attendus
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Construit un avertissement d'écart entre montant attendu et montant extrait
+ */
+export function mismatch(code: string, message: string, paths: string[], expected: number, actual: number): ValidationWarning {
+  return {
+    code,
+    message: `${message} (attendu ${roundAmount(expected)}, extrait ${actual})`,
+    paths,
+    expected: roundAmount(expected),
+    actual
+  };
+}
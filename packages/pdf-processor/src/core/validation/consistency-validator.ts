@@ -0,0 +1,61 @@
+import type { z } from 'zod';
+import { createModuleLogger } from "../../utils/logger";
+import { DEFAULT_TOLERANCE } from './arithmetic';
+import { InvoiceArithmeticValidator } from './invoice-validator';
+import { checkRequiredFields } from './required-fields';
+import type { ExtractionValidator, ValidationTolerance, ValidationWarning } from './types';
+
+const logger = createModuleLogger('consistency-validator');
+
+/**
+ * Options des vérifications de cohérence
+ */
+export interface ConsistencyOptions {
+  /** Tolérance des comparaisons de montants */
+  tolerance?: Partial<ValidationTolerance>;
+  /** Champs obligatoires, ex: "invoice_details.invoice_number" ou "line_items[].description" */
+  requiredFields?: string[];
+}
+
+/**
+ * Vérifie la cohérence des données extraites (le schéma Zod ne contrôle que les types)
+ */
+export class ConsistencyValidator {
+  private validators: ExtractionValidator[] = [new InvoiceArithmeticValidator()];
+
+  /**
+   * Ajoute un validateur, appliqué aux schémas qu'il reconnaît
+   */
+  register(validator: ExtractionValidator): void {
+    this.validators = [...this.validators.filter(existing => existing.name !== validator.name), validator];
+  }
+
+  /**
+   * Exécute les validateurs applicables au schéma utilisé et vérifie les champs obligatoires
+   */
+  validate(
+    data: any,
+    schema: z.ZodSchema,
+    schemaName: string,
+    options: ConsistencyOptions = {}
+  ): ValidationWarning[] {
+    const applicable = this.validators.filter(validator => validator.appliesTo(schema, schemaName));
+    const tolerance = { ...DEFAULT_TOLERANCE, ...options.tolerance };
+    
+    const warnings = [
+      ...checkRequiredFields(data, options.requiredFields || []),
+      ...applicable.flatMap(validator => validator.validate(data, tolerance))
+    ];
+
+    if (warnings.length > 0) {
+      logger.warn({ schemaName, warningCount: warnings.length, codes: warnings.map(warning => warning.code) }, '⚠️ Incohérences détectées dans les données extraites');
+    }
+
+    return warnings;
+  }
+}
+
+/**
+ * Instance singleton du validateur de cohérence
+ */
+export const consistencyValidator = new ConsistencyValidator();
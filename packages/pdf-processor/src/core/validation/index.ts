@@ -0,0 +1,10 @@
+/**
+ * Validation de cohérence des données extraites (arithmétique des factures...)
+ */
+
+export * from './types';
+export { DEFAULT_TOLERANCE } from './arithmetic';
+export { InvoiceArithmeticValidator } from './invoice-validator';
+export { UtilityBillValidator } from './utility-bill-validator';
+export { checkRequiredFields } from './required-fields';
+export { ConsistencyValidator, consistencyValidator, type ConsistencyOptions } from './consistency-validator';
@@ -0,0 +1,183 @@
+import type { z } from 'zod';
+import { ComprehensiveInvoiceSchema, type ComprehensiveInvoice, type InvoiceLineItem } from '../schemas/invoice';
+import { amountsMatch, mismatch, pickAmount, roundAmount, toRate } from './arithmetic';
+import type { ExtractionValidator, ValidationTolerance, ValidationWarning } from './types';
+
+// Champs synonymes (structure classique puis française)
+const QUANTITY_KEYS = ['quantity', 'quantite'];
+const UNIT_PRICE_KEYS = ['unit_price', 'prix_unitaire'];
+const LINE_TOTAL_KEYS = ['line_total', 'montant_ht'];
+const LINE_TAX_KEYS = ['tax_amount', 'montant_tva'];
+const TAX_RATE_KEYS = ['tax_rate', 'taux_tva'];
+const SUBTOTAL_KEYS = ['subtotal', 'total_ht', 'montant_ht'];
+const TAX_TOTAL_KEYS = ['tax_total', 'total_tva', 'montant_tva'];
+const TOTAL_KEYS = ['total_amount', 'total_ttc', 'montant_ttc'];
+
+/**
+ * Cohérence arithmétique d'une facture (ComprehensiveInvoiceSchema)
+ *
+ * - quantité × prix unitaire (remise éventuelle) = total de ligne
+ * - somme des lignes = sous-total
+ * - TVA : somme des TVA de ligne, ou sous-total × taux unique
+ * - sous-total - remise + TVA + frais de port = total
+ * - total - montant payé = solde dû
+ *
+ * Seuls les champs renseignés sont comparés ; la structure multi-pages (`pages`) n'est pas vérifiée.
+ */
+export class InvoiceArithmeticValidator implements ExtractionValidator {
+  name = 'invoice-arithmetic';
+
+  appliesTo(schema: z.ZodSchema): boolean {
+    return schema === ComprehensiveInvoiceSchema;
+  }
+
+  validate(invoice: ComprehensiveInvoice, tolerance: ValidationTolerance): ValidationWarning[] {
+    if (!invoice) return [];
+
+    const lines = invoice.line_items || [];
+    const totals = invoice.financial_totals || {};
+
+    return [
+      ...lines.flatMap((line, index) => this.checkLine(line, index, tolerance)),
+      ...this.checkSubtotal(lines, totals, tolerance),
+      ...this.checkTax(lines, totals, tolerance),
+      ...this.checkTotal(totals, tolerance),
+      ...this.checkBalance(totals, tolerance)
+    ];
+  }
+
+  /**
+   * quantité × prix unitaire = total de ligne (HT, ou TTC si un taux est indiqué)
+   */
+  private checkLine(line: InvoiceLineItem, index: number, tolerance: ValidationTolerance): ValidationWarning[] {
+    const quantity = pickAmount(line, QUANTITY_KEYS);
+    const unitPrice = pickAmount(line, UNIT_PRICE_KEYS);
+    const lineTotal = pickAmount(line, LINE_TOTAL_KEYS);
+    if (!quantity || !unitPrice || !lineTotal) return [];
+
+    const gross = quantity.value * unitPrice.value;
+    const discount = line.discount || 0;
+
+    // La remise peut être un montant ou un pourcentage
+    const netCandidates = discount ? [gross - discount, gross * (1 - toRate(discount))] : [gross];
+    const taxRate = pickAmount(line, TAX_RATE_KEYS);
+    const candidates = taxRate
+      ? [...netCandidates, ...netCandidates.map(net => net * (1 + toRate(taxRate.value)))]
+      : netCandidates;
+
+    if (candidates.some(candidate => amountsMatch(candidate, lineTotal.value, tolerance))) {
+      return [];
+    }
+
+    const path = `line_items[${index}]`;
+    return [mismatch(
+      'line_total_mismatch',
+      `Ligne ${index + 1} : quantité × prix unitaire ne correspond pas au total de ligne`,
+      [`${path}.${quantity.key}`, `${path}.${unitPrice.key}`, `${path}.${lineTotal.key}`],
+      netCandidates[0]!,
+      lineTotal.value
+    )];
+  }
+
+  /**
+   * Somme des totaux de ligne = sous-total (toutes les lignes doivent avoir un total)
+   */
+  private checkSubtotal(lines: InvoiceLineItem[], totals: Record<string, any>, tolerance: ValidationTolerance): ValidationWarning[] {
+    const subtotal = pickAmount(totals, SUBTOTAL_KEYS);
+    const lineTotals = lines.map(line => pickAmount(line, LINE_TOTAL_KEYS));
+    if (!subtotal || lineTotals.length === 0 || lineTotals.some(total => !total)) return [];
+
+    const sum = lineTotals.reduce((acc, total) => acc + total!.value, 0);
+    if (amountsMatch(sum, subtotal.value, tolerance, lineTotals.length)) return [];
+
+    return [mismatch(
+      'subtotal_mismatch',
+      'La somme des lignes ne correspond pas au sous-total',
+      [`financial_totals.${subtotal.key}`, ...lineTotals.map((total, index) => `line_items[${index}].${total!.key}`)],
+      sum,
+      subtotal.value
+    )];
+  }
+
+  /**
+   * TVA totale = somme des TVA de ligne, ou (sous-total - remise) × taux si toutes les lignes ont le même taux
+   */
+  private checkTax(lines: InvoiceLineItem[], totals: Record<string, any>, tolerance: ValidationTolerance): ValidationWarning[] {
+    const taxTotal = pickAmount(totals, TAX_TOTAL_KEYS);
+    if (!taxTotal) return [];
+
+    const taxPath = `financial_totals.${taxTotal.key}`;
+    const lineTaxes = lines.map(line => pickAmount(line, LINE_TAX_KEYS));
+
+    if (lineTaxes.length > 0 && lineTaxes.every(tax => tax)) {
+      const sum = lineTaxes.reduce((acc, tax) => acc + tax!.value, 0);
+      if (amountsMatch(sum, taxTotal.value, tolerance, lineTaxes.length)) return [];
+
+      return [mismatch(
+        'tax_mismatch',
+        'La somme des TVA de ligne ne correspond pas à la TVA totale',
+        [taxPath, ...lineTaxes.map((tax, index) => `line_items[${index}].${tax!.key}`)],
+        sum,
+        taxTotal.value
+      )];
+    }
+
+    const subtotal = pickAmount(totals, SUBTOTAL_KEYS);
+    const rates = new Set(lines.map(line => pickAmount(line, TAX_RATE_KEYS)?.value).map(rate => rate === undefined ? undefined : toRate(rate)));
+    const rate = rates.size === 1 ? [...rates][0] : undefined;
+    if (!subtotal || rate === undefined) return [];
+
+    const bases = [subtotal.value, subtotal.value - (totals.discount_total || 0)];
+    if (bases.some(base => amountsMatch(base * rate, taxTotal.value, tolerance, 2))) return [];
+
+    return [mismatch(
+      'tax_mismatch',
+      `La TVA totale ne correspond pas au sous-total × ${roundAmount(rate * 100)} %`,
+      [taxPath, `financial_totals.${subtotal.key}`],
+      bases[0]! * rate,
+      taxTotal.value
+    )];
+  }
+
+  /**
+   * Sous-total - remise + TVA + frais de port = total (le sous-total peut déjà inclure la remise)
+   */
+  private checkTotal(totals: Record<string, any>, tolerance: ValidationTolerance): ValidationWarning[] {
+    const subtotal = pickAmount(totals, SUBTOTAL_KEYS);
+    const taxTotal = pickAmount(totals, TAX_TOTAL_KEYS);
+    const total = pickAmount(totals, TOTAL_KEYS);
+    if (!subtotal || !taxTotal || !total) return [];
+
+    const base = subtotal.value + taxTotal.value + (totals.shipping_cost || 0);
+    const candidates = [base - (totals.discount_total || 0), base];
+    if (candidates.some(candidate => amountsMatch(candidate, total.value, tolerance, 2))) return [];
+
+    return [mismatch(
+      'total_mismatch',
+      'Sous-total + TVA ne correspond pas au total',
+      [`financial_totals.${total.key}`, `financial_totals.${subtotal.key}`, `financial_totals.${taxTotal.key}`],
+      candidates[0]!,
+      total.value
+    )];
+  }
+
+  /**
+   * Total - montant payé = solde dû
+   */
+  private checkBalance(totals: Record<string, any>, tolerance: ValidationTolerance): ValidationWarning[] {
+    const total = pickAmount(totals, TOTAL_KEYS);
+    const balanceDue = pickAmount(totals, ['balance_due']);
+    if (!total || !balanceDue) return [];
+
+    const expected = total.value - (totals.amount_paid || 0);
+    if (amountsMatch(expected, balanceDue.value, tolerance, 2)) return [];
+
+    return [mismatch(
+      'balance_due_mismatch',
+      'Total - montant payé ne correspond pas au solde dû',
+      ['financial_totals.balance_due', `financial_totals.${total.key}`, 'financial_totals.amount_paid'],
+      expected,
+      balanceDue.value
+    )];
+  }
+}
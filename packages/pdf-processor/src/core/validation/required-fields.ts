@@ -0,0 +1,47 @@
+import { indexPath, isPlainObject, joinPath } from '../vision/json-path';
+import type { ValidationWarning } from './types';
+
+/**
+ * Vérifie la présence des champs obligatoires
+ *
+ * Chemins JSON avec "[]" pour chaque élément d'un tableau, ex: "invoice_details.invoice_number",
+ * "line_items[].description". Un champ null, absent ou vide est manquant.
+ */
+export function checkRequiredFields(data: any, requiredFields: string[]): ValidationWarning[] {
+  return requiredFields.flatMap(field =>
+    findMissing(data, field.split('.'), '').map(path => ({
+      code: 'required_field_missing',
+      message: `Champ obligatoire manquant : ${path}`,
+      paths: [path]
+    }))
+  );
+}
+
+/**
+ * Chemins concrets manquants pour les segments restants
+ */
+function findMissing(value: any, segments: string[], path: string): string[] {
+  if (segments.length === 0) {
+    return isMissing(value) ? [path] : [];
+  }
+
+  const [segment, ...rest] = segments as [string, ...string[]];
+  const eachItem = segment.endsWith('[]');
+  const key = eachItem ? segment.slice(0, -2) : segment;
+  const keyPath = joinPath(path, key);
+  const child = isPlainObject(value) ? value[key] : undefined;
+
+  if (!eachItem) {
+    return findMissing(child, rest, keyPath);
+  }
+
+  // Tableau absent ou vide : le champ est manquant au niveau du tableau
+  if (!Array.isArray(child) || child.length === 0) {
+    return [keyPath];
+  }
+  return child.flatMap((item, index) => findMissing(item, rest, indexPath(keyPath, index)));
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
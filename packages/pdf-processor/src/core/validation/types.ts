@@ -0,0 +1,39 @@
+import type { z } from 'zod';
+
+/**
+ * Incohérence détectée dans les données extraites (le schéma est respecté mais les valeurs ne concordent pas)
+ */
+export interface ValidationWarning {
+  /** Code stable de l'incohérence (ex: "line_total_mismatch") */
+  code: string;
+  /** Description lisible de l'incohérence */
+  message: string;
+  /** Chemins JSON des champs impliqués (ex: "line_items[2].line_total") */
+  paths: string[];
+  /** Valeur attendue d'après les autres champs */
+  expected?: number;
+  /** Valeur extraite */
+  actual?: number;
+}
+
+/**
+ * Tolérance des comparaisons de montants (arrondis)
+ *
+ * Un écart est accepté s'il est inférieur à max(absolute, relative * |attendu|).
+ */
+export interface ValidationTolerance {
+  /** Écart absolu accepté par montant arrondi (défaut: 0.01) */
+  absolute: number;
+  /** Écart relatif accepté (défaut: 0.001, soit 0,1 %) */
+  relative: number;
+}
+
+/**
+ * Validateur de cohérence appliqué après l'extraction
+ */
+export interface ExtractionValidator {
+  name: string;
+  /** Vérifie si le validateur s'applique au schéma utilisé */
+  appliesTo(schema: z.ZodSchema, schemaName: string): boolean;
+  validate(data: any, tolerance: ValidationTolerance): ValidationWarning[];
+}
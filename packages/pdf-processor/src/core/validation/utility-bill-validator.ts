@@ -0,0 +1,111 @@
+import type { z } from 'zod';
+import { UtilityBillSchema, type UtilityBill, type UtilityCharge, type MeterReading } from '../schemas/utility-bill';
+import { amountsMatch, mismatch, pickAmount, toRate } from './arithmetic';
+import type { ExtractionValidator, ValidationTolerance, ValidationWarning } from './types';
+
+/**
+ * Cohérence arithmétique d'une facture d'énergie, d'eau ou de télécoms (UtilityBillSchema)
+ *
+ * - index actuel - index précédent (× coefficient de conversion) = consommation relevée
+ * - consommation de la période × prix unitaire = montant de chaque ligne de charge
+ *
+ * Une ligne sans quantité reprend la consommation du relevé de même plage tarifaire (et même point de livraison),
+ * si ce relevé est unique.
+ */
+export class UtilityBillValidator implements ExtractionValidator {
+  name = 'utility-bill-arithmetic';
+
+  appliesTo(schema: z.ZodSchema): boolean {
+    return schema === UtilityBillSchema;
+  }
+
+  validate(bill: UtilityBill, tolerance: ValidationTolerance): ValidationWarning[] {
+    if (!bill) return [];
+
+    const readings = bill.meter_readings || [];
+    const charges = bill.charges || [];
+
+    return [
+      ...readings.flatMap((reading, index) => this.checkReading(reading, index, tolerance)),
+      ...charges.flatMap((charge, index) => this.checkCharge(charge, index, readings, tolerance))
+    ];
+  }
+
+  /**
+   * (index actuel - index précédent) × coefficient de conversion = consommation
+   */
+  private checkReading(reading: MeterReading, index: number, tolerance: ValidationTolerance): ValidationWarning[] {
+    const previous = pickAmount(reading, ['previous_reading']);
+    const current = pickAmount(reading, ['current_reading']);
+    const consumption = pickAmount(reading, ['consumption']);
+    if (!previous || !current || !consumption) return [];
+
+    const difference = current.value - previous.value;
+    const coefficient = reading.conversion_coefficient;
+    // La consommation peut être exprimée dans l'unité du compteur (m³) ou après conversion (kWh)
+    const candidates = coefficient ? [difference, difference * coefficient] : [difference];
+    if (candidates.some(candidate => amountsMatch(candidate, consumption.value, tolerance))) return [];
+
+    const path = `meter_readings[${index}]`;
+    return [mismatch(
+      'consumption_mismatch',
+      `Relevé ${index + 1} : l'écart entre les index ne correspond pas à la consommation`,
+      [`${path}.previous_reading`, `${path}.current_reading`, `${path}.consumption`],
+      candidates[candidates.length - 1]!,
+      consumption.value
+    )];
+  }
+
+  /**
+   * quantité (ou consommation du relevé correspondant) × prix unitaire = montant (HT, ou TTC si un taux est indiqué)
+   */
+  private checkCharge(charge: UtilityCharge, index: number, readings: MeterReading[], tolerance: ValidationTolerance): ValidationWarning[] {
+    const unitPrice = pickAmount(charge, ['unit_price']);
+    const amount = pickAmount(charge, ['amount']);
+    if (!unitPrice || !amount) return [];
+
+    const path = `charges[${index}]`;
+    let quantity = pickAmount(charge, ['quantity']);
+    let quantityPath = `${path}.quantity`;
+
+    if (!quantity) {
+      const readingIndex = this.findReading(charge, readings);
+      if (readingIndex === undefined) return [];
+      quantity = pickAmount(readings[readingIndex], ['consumption']);
+      quantityPath = `meter_readings[${readingIndex}].consumption`;
+      if (!quantity) return [];
+    }
+
+    const net = quantity.value * unitPrice.value;
+    const candidates = charge.tax_rate ? [net, net * (1 + toRate(charge.tax_rate))] : [net];
+    if (candidates.some(candidate => amountsMatch(candidate, amount.value, tolerance))) return [];
+
+    return [mismatch(
+      'charge_amount_mismatch',
+      `Ligne ${index + 1} : consommation × prix unitaire ne correspond pas au montant`,
+      [quantityPath, `${path}.unit_price`, `${path}.amount`],
+      net,
+      amount.value
+    )];
+  }
+
+  /**
+   * Relevé unique de même plage tarifaire, et de même point de livraison quand les deux le précisent
+   */
+  private findReading(charge: UtilityCharge, readings: MeterReading[]): number | undefined {
+    const band = normalize(charge.tariff_band);
+    if (!band) return undefined;
+
+    const deliveryPoint = normalize(charge.delivery_point);
+    const matches = readings
+      .map((reading, index) => ({ reading, index }))
+      .filter(({ reading }) => normalize(reading.tariff_band) === band)
+      .filter(({ reading }) => !deliveryPoint || !normalize(reading.delivery_point) || normalize(reading.delivery_point) === deliveryPoint);
+
+    return matches.length === 1 ? matches[0]!.index : undefined;
+  }
+}
+
+function normalize(value: string | null | undefined): string | undefined {
+  return value?.trim().toLowerCase().replace(/\s+/g, ' ') || undefined;
+}
@@ -1,14 +1,73 @@
-import { generateObject, type LanguageModel } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
+import { generateObject, streamObject, type LanguageModel } from 'ai';
 import { z } from 'zod';
 import { createModuleLogger } from "../../utils/logger";
-import { DEFAULT_MODELS } from '../types';
-import type { PdfProcessorConfig } from '../types';
+import type { PdfProcessorConfig, PdfPageText, VisionProvider } from '../types';
 import type { ProcessedVisionImage } from './image-optimization';
+import type { ImageTile } from './tiling';
+import { augmentSchemaForGrounding, unwrapGrounding, GROUNDING_INSTRUCTIONS, type GroundingMap } from './grounding';
+import type { ValidationWarning } from '../validation';
+import { fieldProbabilitiesFromLogprobs, type TokenLogprob } from './confidence';
 import type { AIVisionProcessingOptions } from './processor';
+import { isProviderUnavailableError, providerCircuitBreaker } from './circuit-breaker';
+import { providerRegistry } from '../providers';
+import type { ModelCallUsage } from './usage';
+import { collectFieldDescriptions } from '../schemas/json-schema';
+import { schemaRegistry } from '../schemas/registry';
 
 const logger = createModuleLogger('ai-generator');
 
+/**
+ * Contexte d'un appel au modèle (extraction découpée par pages)
+ */
+export interface GenerationContext {
+  /** Numéros des pages envoyées dans cet appel (base 1) */
+  pages?: number[];
+  /** Nombre total de pages du document */
+  totalPages?: number;
+  /** Couche texte des pages (modes 'text' et 'hybrid') */
+  pageTexts?: PdfPageText[];
+  /** Tuile envoyée dans cet appel (découpage en tuiles) */
+  tile?: ImageTile;
+  /** Numéro de page de chaque image envoyée (positions en mode grounding, défaut: pages) */
+  imagePages?: number[];
+  /** Extraction précédente et incohérences à corriger (auto-correction) */
+  correction?: {
+    previous: any;
+    warnings: ValidationWarning[];
+  };
+  /** Objets partiels au fil de la réponse (génération en flux avec streamObject, ignoré en mode grounding) */
+  onPartial?: (partial: unknown) => void;
+  /** Consignes remplaçant le prompt d'extraction (ex: classification du document) */
+  instructions?: string;
+}
+
+/**
+ * Provider essayé sans succès avant celui qui a produit le résultat
+ */
+export interface FallbackAttempt {
+  provider: string;
+  model: string;
+  error: string;
+  /** Provider ignoré sans requête (circuit ouvert, configuration manquante) */
+  skipped?: boolean;
+}
+
+/**
+ * Résultat d'un appel au modèle
+ */
+export interface GenerationOutput<T = any> {
+  object: T;
+  modelUsed: string;
+  /** Provider qui a produit le résultat (différent du provider demandé après une bascule) */
+  providerUsed: string;
+  grounding?: GroundingMap;
+  logprobs?: Record<string, number>;
+  /** Providers en échec avant le résultat (bascule configurée dans pdfProcessor.fallback) */
+  fallbackAttempts?: FallbackAttempt[];
+  /** Tokens et images consommés par l'appel */
+  usage: ModelCallUsage;
+}
+
 /**
  * Générateur de données structurées avec AI SDK + validation Zod
  */
@@ -16,41 +75,140 @@ export class AIGenerator {
   
   /**
    * Génère les données structurées avec AI SDK + validation Zod automatique
+   *
+   * Avec pdfProcessor.fallback, les providers de secours sont essayés dans l'ordre quand le provider
+   * est indisponible (429, 5xx, réseau) ; un provider en échec répété est ignoré le temps que son circuit se referme.
    */
   async generate<T extends z.ZodSchema>(
     images: ProcessedVisionImage[],
     schema: T,
-    options: AIVisionProcessingOptions
-  ): Promise<{ object: z.infer<T>; modelUsed: string }> {
+    options: AIVisionProcessingOptions,
+    context: GenerationContext = {}
+  ): Promise<GenerationOutput<z.infer<T>>> {
+    
+    const chain = this.getProviderChain(options);
+    const fallback = options.pdfProcessor?.fallback;
+    
+    if (chain.length === 1 || !fallback) {
+      const model = providerRegistry.createModel(options.provider || 'scaleway', options.model, options.pdfProcessor);
+      return this.generateWithModel(images, schema, options, context, model);
+    }
+    
+    const attempts: FallbackAttempt[] = [];
+    
+    for (const candidate of chain) {
+      const modelName = providerRegistry.resolveModel(candidate.provider, candidate.model, options.pdfProcessor);
+      
+      if (!providerCircuitBreaker.canRequest(candidate.provider, fallback)) {
+        logger.warn({ provider: candidate.provider }, '⏭️ Circuit ouvert, provider ignoré');
+        attempts.push({ provider: candidate.provider, model: modelName, error: 'Circuit ouvert après des échecs répétés', skipped: true });
+        continue;
+      }
+      
+      let model: LanguageModel;
+      try {
+        model = providerRegistry.createModel(candidate.provider, candidate.model, options.pdfProcessor);
+      } catch (error: any) {
+        logger.warn({ provider: candidate.provider, error: error.message }, '⏭️ Provider non configuré, ignoré');
+        attempts.push({ provider: candidate.provider, model: modelName, error: error.message, skipped: true });
+        continue;
+      }
+      
+      try {
+        const result = await this.generateWithModel(images, schema, { ...options, provider: candidate.provider, model: candidate.model }, context, model);
+        providerCircuitBreaker.recordSuccess(candidate.provider);
+        
+        if (attempts.length > 0) {
+          logger.info({ provider: candidate.provider, model: result.modelUsed, failedProviders: attempts.map(attempt => attempt.provider) }, '↪️ Extraction réalisée par un provider de secours');
+          return { ...result, fallbackAttempts: attempts };
+        }
+        return result;
+      } catch (error: any) {
+        // Réponse invalide du modèle : un autre provider ne ferait pas mieux avec la même requête
+        if (!isProviderUnavailableError(error)) {
+          throw error;
+        }
+        
+        providerCircuitBreaker.recordFailure(candidate.provider, fallback);
+        attempts.push({ provider: candidate.provider, model: modelName, error: error.message });
+        logger.warn({ provider: candidate.provider, error: error.message }, '↪️ Provider indisponible, bascule vers le suivant');
+      }
+    }
+    
+    throw new Error(`Aucun provider disponible: ${attempts.map(attempt => `${attempt.provider} (${attempt.error})`).join('; ')}`);
+  }
+
+  /**
+   * Providers à essayer dans l'ordre : provider demandé puis providers de secours
+   */
+  private getProviderChain(options: AIVisionProcessingOptions): Array<{ provider: VisionProvider; model?: string }> {
+    const primary: { provider: VisionProvider; model?: string } = { provider: options.provider || 'scaleway', model: options.model };
+    const fallback = options.pdfProcessor?.fallback;
+    
+    if (!fallback || options.fallback === false) {
+      return [primary];
+    }
+    
+    const chain = [primary];
+    for (const entry of fallback.providers) {
+      const candidate = typeof entry === 'string' ? { provider: entry } : entry;
+      if (!chain.some(existing => existing.provider === candidate.provider && existing.model === candidate.model)) {
+        chain.push(candidate);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * Appel au modèle d'un provider donné
+   */
+  private async generateWithModel<T extends z.ZodSchema>(
+    images: ProcessedVisionImage[],
+    schema: T,
+    options: AIVisionProcessingOptions,
+    context: GenerationContext,
+    model: LanguageModel
+  ): Promise<GenerationOutput<z.infer<T>>> {
     
     const provider = options.provider || 'scaleway';
-    const modelName = options.model || options.pdfProcessor?.providers?.[provider as keyof typeof options.pdfProcessor.providers]?.model || DEFAULT_MODELS[provider as keyof typeof DEFAULT_MODELS];
-    const model = this.getModelInstance(provider, options.model, options.pdfProcessor);
+    const modelName = providerRegistry.resolveModel(provider, options.model, options.pdfProcessor);
+    
+    // Mode grounding : position de chaque champ demandée via un schéma augmenté (images uniquement)
+    const grounded = !!options.grounding && images.length > 0;
+    if (options.grounding && !grounded) {
+      logger.warn('⚠️ Grounding indisponible sans images (mode texte), positions ignorées');
+    }
+    const requestSchema = grounded ? augmentSchemaForGrounding(schema) : schema;
+    
+    // Scores de confiance : probabilités des tokens si le provider les fournit
+    const withLogprobs = (!!options.confidence || options.ensembleStrategy === 'confidence') && providerRegistry.supportsLogprobs(provider);
     
     // Construction du prompt optimisé selon le schéma
-    const prompt = this.buildPromptForSchema(schema, options);
+    const basePrompt = this.buildPromptForSchema(schema, options, context);
+    const prompt = grounded ? `${basePrompt}\n\n${GROUNDING_INSTRUCTIONS}` : basePrompt;
     
-    const modelToUse = options.model || DEFAULT_MODELS[provider];
-    logger.debug({ provider, model: modelToUse }, '🎯 Génération avec AI');
+    logger.debug({ provider, model: modelName }, '🎯 Génération avec AI');
     
     // Préparation des images selon le format du provider
-    const imageMessages = this.formatImagesForProvider(images, provider);
+    const imageMessages = this.formatImagesForProvider(images, provider, grounded);
     
     // GÉNÉRATION AVEC AI SDK + VALIDATION ZOD AUTOMATIQUE
     logger.debug({
       provider,
       model: modelName,
       imageCount: images.length,
+      textPageCount: context.pageTexts?.length || 0,
       schemaKeys: Object.keys((schema as any).shape || {}),
+      grounded,
       promptLength: prompt.length,
       systemPromptLength: this.getSystemPrompt(provider).length,
-      maxRetries: options.maxRetries || 2
+      maxRetries: options.maxRetries ?? 2
     }, '🎯 Début génération AI avec tous les détails');
     
     try {
-      const result = await generateObject({
+      const request = {
         model,
-        schema,
+        schema: requestSchema,
         messages: [
           {
             role: 'system',
@@ -60,16 +218,44 @@ export class AIGenerator {
             role: 'user', 
             content: [
               { type: 'text', text: prompt },
+              ...this.formatPageTexts(context.pageTexts),
               ...imageMessages
             ]
           }
         ],
-        maxRetries: options.maxRetries || 2,
-      });
+        maxRetries: options.maxRetries ?? 2,
+        abortSignal: options.abortSignal,
+        ...(withLogprobs ? { providerOptions: { openai: { logprobs: true } } } : {}),
+      };
+      
+      const result = context.onPartial && !grounded
+        ? await this.streamWithPartials(request, context.onPartial)
+        : await generateObject(request);
       
       logger.debug('✅ Données structurées générées et validées par Zod');
       
-      return { ...result, modelUsed: modelName };
+      const tokens = (result.providerMetadata as { openai?: { logprobs?: TokenLogprob[] } } | undefined)?.openai?.logprobs;
+      const logprobs = withLogprobs && Array.isArray(tokens) ? fieldProbabilitiesFromLogprobs(tokens, grounded) : undefined;
+      
+      const tokenUsage = (result.usage || {}) as { inputTokens?: number; outputTokens?: number };
+      const usage: ModelCallUsage = {
+        provider,
+        model: modelName,
+        inputTokens: tokenUsage.inputTokens ?? 0,
+        outputTokens: tokenUsage.outputTokens ?? 0,
+        imageCount: images.length
+      };
+      
+      if (!grounded) {
+        return { ...result, modelUsed: modelName, providerUsed: provider, logprobs, usage };
+      }
+      
+      // Séparation données / positions, puis validation avec le schéma d'origine
+      const imagePages = context.imagePages || context.pages || [];
+      const frames = images.map((image, index) => ({ page: imagePages[index] ?? index + 1, region: image.region }));
+      const { data, grounding } = unwrapGrounding(result.object, frames);
+      
+      return { ...result, object: schema.parse(data), grounding, modelUsed: modelName, providerUsed: provider, logprobs, usage };
     } catch (error: any) {
       console.log('❌ Erreur lors de la génération AI', error);
       logger.error({
@@ -85,84 +271,41 @@ export class AIGenerator {
   }
 
   /**
-   * Obtient l'instance du modèle selon le provider avec config personnalisée
+   * Génération en flux : transmet chaque objet partiel puis renvoie l'objet complet validé
    */
-  private getModelInstance(provider: string, model?: string, config?: PdfProcessorConfig): LanguageModel {
-    const providerConfig = config?.providers?.[provider as keyof typeof config.providers];
-    const modelToUse = model || providerConfig?.model || DEFAULT_MODELS[provider as keyof typeof DEFAULT_MODELS];
-    
-    logger.debug({ 
-      provider, 
-      model: modelToUse, 
-      hasCustomConfig: !!providerConfig 
-    }, '🤖 Configuration modèle');
-
-    switch (provider) {
-      case 'scaleway':
-        const apiKey = providerConfig?.apiKey || process.env.EK_AI_API_KEY;
-        const baseURL = providerConfig?.baseURL || process.env.EK_AI_BASE_URL || 'https://api.scaleway.ai/v1';
-        
-        if (!apiKey) {
-          throw new Error('Scaleway API key requis: fournissez-le via pdfProcessor.providers.scaleway.apiKey ou EK_AI_API_KEY');
-        }
-        
-        const scalewayClient = createOpenAI({ apiKey, baseURL });
-        return scalewayClient.chat(modelToUse); // Force l'utilisation de Chat Completions API
-      
-      case 'mistral':
-        const mistralApiKey = providerConfig?.apiKey || process.env.EK_MISTRAL_API_KEY;
-        const mistralBaseURL = providerConfig?.baseURL;
-        
-        if (!mistralApiKey) {
-          throw new Error('Mistral API key requis: fournissez-le via pdfProcessor.providers.mistral.apiKey ou EK_MISTRAL_API_KEY');
-        }
-        
-        const mistralConfig: any = { apiKey: mistralApiKey, baseURL: 'https://api.mistral.ai/v1' };
-        if (mistralBaseURL) {
-          mistralConfig.baseURL = mistralBaseURL;
-        }
-        
-        const mistralClient = createOpenAI(mistralConfig);
-        return mistralClient.chat(modelToUse);
-      
-      case 'ollama':
-        const defaultOllamaURL = 'http://localhost:11434/v1';
-        const ollamaConfig: any = {
-          baseURL: providerConfig?.baseURL || defaultOllamaURL,
-          apiKey: 'not-needed', // Ollama doesn't require API key
-        };
-        
-        logger.debug({
-          provider: 'ollama',
-          baseURL: ollamaConfig.baseURL,
-          model: modelToUse
-        }, '🦙 Configuration Ollama');
-        
-        const ollama = createOpenAI(ollamaConfig);
-        return ollama.chat(modelToUse);
-      
-      case 'custom':
-        const customApiKey = providerConfig?.apiKey || process.env.CUSTOM_API_KEY || 'not-needed';
-        const customBaseURL = providerConfig?.baseURL;
-        
-        if (!customBaseURL) {
-          throw new Error('Custom baseURL requis: fournissez-le via pdfProcessor.providers.custom.baseURL');
-        }
-        
-        // For local providers like Ollama, API key is not needed
-        const customClient = createOpenAI({ apiKey: customApiKey, baseURL: customBaseURL });
-        return customClient.chat(modelToUse); // Force l'utilisation de Chat Completions API
-      
-      default:
-        throw new Error(`Provider non supporté: ${provider}. Seuls 'scaleway', 'mistral', 'ollama' et 'custom' sont supportés.`);
+  private async streamWithPartials(
+    request: Parameters<typeof streamObject>[0],
+    onPartial: (partial: unknown) => void
+  ): Promise<{ object: unknown; usage: unknown; providerMetadata: unknown }> {
+    
+    // Les erreurs d'appel (429, 5xx, réseau) ne sont pas levées par le flux : conservées pour la bascule
+    let streamError: unknown;
+    const stream = streamObject({ ...request, onError: ({ error }) => { streamError = error; } });
+    
+    for await (const partial of stream.partialObjectStream) {
+      onPartial(partial);
     }
+    
+    if (streamError) {
+      throw streamError;
+    }
+    
+    return {
+      object: await stream.object,
+      usage: await stream.usage,
+      providerMetadata: await stream.providerMetadata
+    };
   }
 
   /**
    * Construit le prompt optimisé selon le schéma Zod
    */
-  private buildPromptForSchema(schema: z.ZodSchema, options: AIVisionProcessingOptions): string {
-    const basePrompt = `Extract structured data from this document following the provided schema exactly.`;
+  private buildPromptForSchema(schema: z.ZodSchema, options: AIVisionProcessingOptions, context: GenerationContext = {}): string {
+    if (context.instructions) {
+      return context.instructions;
+    }
+    
+    const basePrompt = `Extract structured data from this document following the provided schema exactly.${this.buildFieldNote(schema)}${this.buildPageNote(context)}${this.buildTileNote(context)}${this.buildCorrectionNote(context)}`;
     
     if (options.tablesOnly) {
       return `${basePrompt}
@@ -175,16 +318,12 @@ TASK: Focus exclusively on extracting tables and tabular data.
 - Include table context/summary if visible`;
     }
     
-    if (options.documentType === 'invoice') {
+    // Consignes propres au schéma du registre (type de document)
+    const schemaPrompt = options.documentType ? schemaRegistry.find(options.documentType)?.prompt : undefined;
+    if (schemaPrompt) {
       return `${basePrompt}
 
-TASK: Extract comprehensive invoice information.
-- Invoice details (number, date, amounts)
-- Seller and buyer information
-- Line items with quantities and prices
-- Financial totals and tax information
-- Payment terms and banking details
-- Use null for missing fields - never guess`;
+${schemaPrompt}`;
     }
     
     return `${basePrompt}
@@ -198,14 +337,106 @@ TASK: Perform comprehensive document data extraction.
 `;
   }
 
+  /**
+   * Rappelle les descriptions des champs du schéma (ex: "description" d'un JSON Schema)
+   */
+  private buildFieldNote(schema: z.ZodSchema): string {
+    const fields = collectFieldDescriptions(schema as z.ZodTypeAny);
+    if (fields.length === 0) {
+      return '';
+    }
+
+    return `
+
+FIELDS:
+${fields.map(field => `- ${field.path}: ${field.description}`).join('\n')}`;
+  }
+
+  /**
+   * Précise au modèle quelles pages du document il reçoit
+   */
+  private buildPageNote(context: GenerationContext): string {
+    if (!context.pages || context.pages.length === 0) {
+      return '';
+    }
+
+    const pageList = context.pages.join(', ');
+    const total = context.totalPages ? ` of ${context.totalPages}` : '';
+    return `
+
+NOTE: You only see page(s) ${pageList}${total} of the document. Extract only what is visible on these pages; other pages are processed separately and merged afterwards.`;
+  }
+
+  /**
+   * Situe la tuile reçue dans la page (découpage en tuiles)
+   */
+  private buildTileNote(context: GenerationContext): string {
+    const tile = context.tile;
+    if (!tile) {
+      return '';
+    }
+
+    return `
+
+NOTE: The image is tile (row ${tile.row + 1}, column ${tile.column + 1}) of a ${tile.rows}x${tile.columns} grid cut from a ${tile.pageWidth}x${tile.pageHeight} px page. It covers x=${tile.left}-${tile.left + tile.width} and y=${tile.top}-${tile.top + tile.height} px. Neighbouring tiles overlap and are merged afterwards: extract only fields and table rows that are fully readable in this tile, and use null for anything cut at the edges.`;
+  }
+
+  /**
+   * Transmet l'extraction précédente et ses incohérences pour une nouvelle tentative
+   */
+  private buildCorrectionNote(context: GenerationContext): string {
+    const correction = context.correction;
+    if (!correction) {
+      return '';
+    }
+
+    const issues = correction.warnings
+      .map(warning => `- [${warning.code}] ${warning.message} (fields: ${warning.paths.join(', ')})`)
+      .join('\n');
+
+    return `
+
+CORRECTION: A previous extraction of this document failed the consistency checks below.
+${issues}
+
+PREVIOUS EXTRACTION:
+${JSON.stringify(correction.previous, null, 2)}
+
+Re-read the document carefully and return a corrected extraction. Check the values listed above against the document. Only change values that the document supports; the document may itself contain inconsistencies, in which case keep the values as printed. Use null for values that are not visible.${context.pages || context.tile ? ' The previous extraction covers the whole document: return only what is visible in the part you receive.' : ''}`;
+  }
+
+  /**
+   * Formate la couche texte du PDF, page par page, chaque ligne précédée de sa position
+   */
+  private formatPageTexts(pageTexts?: PdfPageText[]): any[] {
+    if (!pageTexts || pageTexts.length === 0) {
+      return [];
+    }
+
+    const position = (value: number) => value.toFixed(2);
+    const text = pageTexts
+      .map(page => {
+        const lines = page.lines.map(line => `[${position(line.bbox[0])}, ${position(line.bbox[1])}] ${line.text}`);
+        return `=== Page ${page.page} ===\n${lines.join('\n')}`;
+      })
+      .join('\n\n');
+
+    return [{
+      type: 'text',
+      text: `DOCUMENT TEXT LAYER (extracted from the PDF, one line per text line, each starting with [x, y]: the position of its top-left corner, normalized 0-1 on the page):\n\n${text}`
+    }];
+  }
+
   /**
    * Formate les images selon le provider
+   *
+   * En mode grounding, chaque image est précédée de son numéro pour que le modèle puisse y faire référence.
    */
-  private formatImagesForProvider(images: ProcessedVisionImage[], provider: string): any[] {
-    return images.map(img => ({
-      type: 'image',
-      image: `data:image/jpeg;base64,${img.base64}`,
-    }));
+  private formatImagesForProvider(images: ProcessedVisionImage[], provider: string, numbered: boolean = false): any[] {
+    return images.flatMap((img, index) => {
+      const image = providerRegistry.formatImage(provider, img);
+      return numbered ? [{ type: 'text', text: `Image ${index + 1}:` }, image] : [image];
+    });
   }
 
   /**
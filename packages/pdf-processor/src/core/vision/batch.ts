@@ -0,0 +1,77 @@
+import { createModuleLogger } from "../../utils/logger";
+
+const logger = createModuleLogger('batch');
+
+/**
+ * Résultat d'un fichier d'un lot : résultat de l'extraction ou message d'erreur
+ */
+export type BatchItemResult<R> = {
+  /** Position du fichier dans le lot (base 0) */
+  index: number;
+  file: string;
+  /** Durée de traitement du fichier (ms) */
+  durationMs: number;
+} & ({ success: true; result: R } | { success: false; error: string });
+
+/**
+ * Options d'exécution d'un lot
+ */
+export interface BatchRunOptions<R> {
+  /** Fichiers traités simultanément (défaut: 2) */
+  concurrency?: number;
+  /** Appelé dès qu'un fichier est terminé, dans l'ordre de fin de traitement */
+  onResult?: (result: BatchItemResult<R>) => void;
+  /** Plus aucun fichier n'est démarré une fois le signal déclenché */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Traite une liste de fichiers avec un nombre limité de traitements simultanés
+ *
+ * L'échec d'un fichier n'interrompt pas le lot : il est renvoyé avec son message d'erreur.
+ * Les résultats sont renvoyés dans l'ordre des fichiers.
+ */
+export async function runBatch<I, R>(
+  items: I[],
+  name: (item: I) => string,
+  worker: (item: I, index: number) => Promise<R>,
+  options: BatchRunOptions<R> = {}
+): Promise<BatchItemResult<R>[]> {
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 2, items.length || 1));
+  const results: BatchItemResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  logger.info({ fileCount: items.length, concurrency }, '📚 Traitement du lot');
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index]!;
+      const file = name(item);
+      const startTime = Date.now();
+
+      let result: BatchItemResult<R>;
+      if (options.abortSignal?.aborted) {
+        result = { index, file, durationMs: 0, success: false, error: 'Lot interrompu' };
+      } else {
+        try {
+          result = { index, file, durationMs: 0, success: true, result: await worker(item, index) };
+        } catch (error: any) {
+          logger.warn({ file, error: error.message }, '⚠️ Échec du fichier, lot poursuivi');
+          result = { index, file, durationMs: 0, success: false, error: error.message };
+        }
+        result.durationMs = Date.now() - startTime;
+      }
+
+      results[index] = result;
+      options.onResult?.(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, lane));
+
+  const failed = results.filter(result => !result.success).length;
+  logger.info({ fileCount: items.length, failed }, failed > 0 ? '⚠️ Lot terminé avec des échecs' : '✅ Lot terminé');
+
+  return results;
+}
@@ -0,0 +1,104 @@
+import { createModuleLogger } from "../../utils/logger";
+
+const logger = createModuleLogger('circuit-breaker');
+
+export const DEFAULT_FAILURE_THRESHOLD = 3;
+export const DEFAULT_RESET_TIMEOUT_MS = 60_000;
+
+/**
+ * Seuils du coupe-circuit
+ */
+export interface CircuitBreakerOptions {
+  /** Échecs consécutifs avant ouverture du circuit */
+  failureThreshold?: number;
+  /** Durée d'ouverture avant un nouvel essai, en ms */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * État du circuit d'un provider
+ * - 'closed' : requêtes envoyées normalement
+ * - 'open' : provider ignoré jusqu'à la fin du délai
+ * - 'half-open' : délai écoulé, une requête d'essai décide de la fermeture ou d'une nouvelle ouverture
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitEntry {
+  failures: number;
+  openedAt?: number;
+}
+
+/**
+ * Coupe-circuit par provider : après plusieurs échecs consécutifs, le provider est ignoré
+ * pendant un délai pour basculer directement sur les providers de secours
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, CircuitEntry>();
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  getState(provider: string, options: CircuitBreakerOptions = {}): CircuitState {
+    const circuit = this.circuits.get(provider);
+    if (circuit?.openedAt === undefined) return 'closed';
+
+    const resetTimeout = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+    return this.now() - circuit.openedAt >= resetTimeout ? 'half-open' : 'open';
+  }
+
+  /**
+   * Vérifie si une requête peut être envoyée au provider
+   */
+  canRequest(provider: string, options: CircuitBreakerOptions = {}): boolean {
+    return this.getState(provider, options) !== 'open';
+  }
+
+  recordSuccess(provider: string): void {
+    if (this.circuits.get(provider)?.openedAt !== undefined) {
+      logger.info({ provider }, '✅ Circuit refermé');
+    }
+    this.circuits.delete(provider);
+  }
+
+  recordFailure(provider: string, options: CircuitBreakerOptions = {}): void {
+    const circuit = this.circuits.get(provider) || { failures: 0 };
+    const wasHalfOpen = this.getState(provider, options) === 'half-open';
+    circuit.failures++;
+
+    // Échec de la requête d'essai ou seuil atteint : (ré)ouverture du circuit
+    if (wasHalfOpen || circuit.failures >= (options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+      circuit.openedAt = this.now();
+      logger.warn({ provider, failures: circuit.failures, resetTimeoutMs: options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS }, '🔌 Circuit ouvert pour le provider');
+    }
+
+    this.circuits.set(provider, circuit);
+  }
+
+  reset(): void {
+    this.circuits.clear();
+  }
+}
+
+/**
+ * Vérifie si une erreur indique un provider indisponible (quota 429, erreur serveur 5xx, réseau)
+ * plutôt qu'une réponse invalide du modèle
+ */
+export function isProviderUnavailableError(error: any): boolean {
+  // Erreur finale après les tentatives de l'AI SDK
+  const cause = error?.lastError ?? error;
+  const status = cause?.statusCode ?? cause?.status;
+
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  return cause?.isRetryable === true
+    || /ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|fetch failed|network|timeout/i.test(`${cause?.code ?? ''} ${cause?.message ?? ''}`);
+}
+
+/**
+ * Coupe-circuit partagé par les extractions du processus
+ */
+export const providerCircuitBreaker = new CircuitBreaker();
@@ -0,0 +1,282 @@
+import { createModuleLogger } from "../../utils/logger";
+import type { ValidationWarning } from '../validation';
+import { indexPath, isPlainObject, joinPath } from './json-path';
+
+const logger = createModuleLogger('confidence');
+
+/**
+ * Seuil par défaut sous lequel un champ est à revoir
+ */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+
+// Facteur appliqué à un champ impliqué dans une incohérence (champ obligatoire manquant : 0)
+const VALIDATION_PENALTY = 0.5;
+
+/**
+ * Probabilité d'un token renvoyée par le provider (format OpenAI)
+ */
+export interface TokenLogprob {
+  token: string;
+  logprob: number;
+}
+
+/**
+ * Confiance d'une valeur extraite
+ */
+export interface FieldConfidence {
+  /** Score combiné entre 0 et 1 */
+  score: number;
+  /** Signaux disponibles, chacun entre 0 et 1 */
+  signals: {
+    /** Probabilité moyenne (géométrique) des tokens de la valeur */
+    logprob?: number;
+    /** Part des échantillons qui donnent la même valeur */
+    agreement?: number;
+    /** 1 sans incohérence, pénalisé si le champ est impliqué dans un avertissement */
+    validation: number;
+  };
+}
+
+/**
+ * Confiance de chaque valeur extraite, par chemin JSON (ex: "line_items[2].line_total")
+ */
+export type ConfidenceMap = Record<string, FieldConfidence>;
+
+/**
+ * Zone d'une valeur feuille dans le texte JSON généré
+ */
+interface LeafSpan {
+  path: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Probabilité de chaque valeur feuille à partir des logprobs des tokens de la réponse JSON
+ *
+ * @param grounded - Réponse au format grounding ({ value, source }) : seules les valeurs sont retenues
+ */
+export function fieldProbabilitiesFromLogprobs(tokens: TokenLogprob[], grounded: boolean = false): Record<string, number> {
+  const text = tokens.map(token => token.token).join('');
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const token of tokens) {
+    offsets.push(offset);
+    offset += token.token.length;
+  }
+
+  const probabilities: Record<string, number> = {};
+
+  for (const span of scanJsonLeaves(text)) {
+    const path = grounded ? toGroundedValuePath(span.path) : span.path;
+    if (path === null) continue;
+
+    const logprobs = tokens
+      .filter((token, index) => offsets[index]! < span.end && offsets[index]! + token.token.length > span.start)
+      .map(token => token.logprob);
+
+    if (logprobs.length > 0) {
+      const meanLogprob = logprobs.reduce((sum, logprob) => sum + logprob, 0) / logprobs.length;
+      probabilities[path] = round(Math.exp(meanLogprob));
+    }
+  }
+
+  return probabilities;
+}
+
+/**
+ * Combine les signaux disponibles en un score par champ
+ *
+ * Score = moyenne des signaux du modèle (logprobs, accord entre échantillons), 1 si aucun,
+ * multipliée par le facteur de validation.
+ */
+export function scoreFieldConfidence(input: {
+  object: any;
+  logprobs?: Record<string, number>;
+  samples?: any[];
+  warnings?: ValidationWarning[];
+  threshold?: number;
+}): { confidence: ConfidenceMap; lowConfidenceFields: string[] } {
+  const leaves = flattenLeaves(input.object);
+  const sampleLeaves = (input.samples || []).map(sample => flattenLeaves(sample));
+  const penalties = validationFactors(input.warnings || []);
+  const threshold = input.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+
+  const confidence: ConfidenceMap = {};
+  const lowConfidenceFields: string[] = [];
+
+  for (const [path, value] of Object.entries(leaves)) {
+    const logprob = input.logprobs?.[path];
+    const agreement = sampleLeaves.length > 0
+      ? round((1 + sampleLeaves.filter(sample => sameValue(sample[path], value)).length) / (1 + sampleLeaves.length))
+      : undefined;
+    const validation = penalties[path] ?? 1;
+
+    const modelSignals = [logprob, agreement].filter((signal): signal is number => signal !== undefined);
+    const base = modelSignals.length > 0 ? modelSignals.reduce((sum, signal) => sum + signal, 0) / modelSignals.length : 1;
+    const score = round(base * validation);
+
+    confidence[path] = {
+      score,
+      signals: {
+        ...(logprob !== undefined ? { logprob } : {}),
+        ...(agreement !== undefined ? { agreement } : {}),
+        validation
+      }
+    };
+
+    if (score < threshold) {
+      lowConfidenceFields.push(path);
+    }
+  }
+
+  // Champs obligatoires absents de l'objet : confiance nulle
+  for (const [path, factor] of Object.entries(penalties)) {
+    if (factor === 0 && !(path in confidence)) {
+      confidence[path] = { score: 0, signals: { validation: 0 } };
+      lowConfidenceFields.push(path);
+    }
+  }
+
+  logger.debug({ fieldCount: Object.keys(confidence).length, lowConfidenceCount: lowConfidenceFields.length }, '📊 Confiance par champ calculée');
+
+  return { confidence, lowConfidenceFields };
+}
+
+/**
+ * Aplatit un objet en valeurs feuilles par chemin JSON
+ */
+export function flattenLeaves(value: any, path: string = '', leaves: Record<string, any> = {}): Record<string, any> {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenLeaves(item, indexPath(path, index), leaves));
+  } else if (isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      flattenLeaves(item, joinPath(path, key), leaves);
+    }
+  } else if (path) {
+    leaves[path] = value;
+  }
+  return leaves;
+}
+
+/**
+ * Repère les valeurs feuilles d'un texte JSON et leur position
+ *
+ * Le texte peut être précédé d'autre contenu (ex: bloc markdown) ; un JSON tronqué renvoie
+ * les valeurs lues jusque-là.
+ */
+export function scanJsonLeaves(text: string): LeafSpan[] {
+  const spans: LeafSpan[] = [];
+  let pos = text.search(/[{[]/);
+  if (pos < 0) return spans;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos]!)) pos++;
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) throw new Error(`JSON inattendu à la position ${pos}`);
+    pos++;
+  };
+
+  const readString = (): string => {
+    skipWhitespace();
+    const start = pos;
+    expect('"');
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    expect('"');
+    return JSON.parse(text.slice(start, pos));
+  };
+
+  const readValue = (path: string): void => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === '{' || char === '[') {
+      const isObject = char === '{';
+      const close = isObject ? '}' : ']';
+      pos++;
+      skipWhitespace();
+      if (text[pos] === close) {
+        pos++;
+        return;
+      }
+
+      for (let index = 0; ; index++) {
+        if (isObject) {
+          const key = readString();
+          expect(':');
+          readValue(joinPath(path, key));
+        } else {
+          readValue(indexPath(path, index));
+        }
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        expect(close);
+        return;
+      }
+    }
+
+    const start = pos;
+    if (char === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[,}\]\s]/.test(text[pos]!)) pos++;
+      if (pos === start) throw new Error(`JSON inattendu à la position ${pos}`);
+    }
+    spans.push({ path, start, end: pos });
+  };
+
+  try {
+    readValue('');
+  } catch (error: any) {
+    logger.debug({ error: error.message, spanCount: spans.length }, '⚠️ Réponse JSON partiellement analysée');
+  }
+
+  return spans;
+}
+
+/**
+ * Chemin de la valeur d'un champ au format grounding ("total.value" → "total"), null pour les sources
+ */
+function toGroundedValuePath(path: string): string | null {
+  if (/\.source(\.|\[|$)/.test(path)) return null;
+  return path.endsWith('.value') ? path.slice(0, -'.value'.length) : path;
+}
+
+/**
+ * Facteur de validation par chemin : pénalité pour les incohérences, 0 pour les champs manquants
+ */
+function validationFactors(warnings: ValidationWarning[]): Record<string, number> {
+  const factors: Record<string, number> = {};
+  for (const warning of warnings) {
+    const factor = warning.code === 'required_field_missing' ? 0 : VALIDATION_PENALTY;
+    for (const path of warning.paths) {
+      factors[path] = Math.min(factors[path] ?? 1, factor);
+    }
+  }
+  return factors;
+}
+
+/**
+ * Compare deux valeurs aux différences de casse, d'espaces et d'arrondi près
+ */
+export function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(normalizeLeaf(a)) === JSON.stringify(normalizeLeaf(b));
+}
+
+function normalizeLeaf(value: any): any {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (typeof value === 'number') return Math.round(value * 100) / 100;
+  return value ?? null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { createModuleLogger } from "../../utils/logger";
+import type { InputFileType, PdfPageText } from '../types';
+import { extractTextFromPDF, hasUsableTextLayer } from '../file-processor';
+import { firstSelectedPage } from '../page-selection';
+import { AIGenerator } from './ai-generator';
+import { ImageOptimizer, type ProcessedVisionImage } from './image-optimization';
+import type { AIVisionProcessingOptions } from './processor';
+import type { ModelCallUsage } from './usage';
+
+const logger = createModuleLogger('document-classifier');
+
+/**
+ * Type de document reconnu par la classification
+ */
+export interface DocumentTypeDefinition {
+  /** Identifiant renvoyé dans metadata.detectedDocumentType, ex: 'purchase-order' */
+  name: string;
+  /** Description transmise au modèle pour reconnaître ce type */
+  description: string;
+  /** Options d'extraction appliquées quand ce type est détecté, ex: { documentType: 'receipt' } ou { customSchema } */
+  options: Partial<AIVisionProcessingOptions>;
+}
+
+/**
+ * Configuration de la classification (option classifier)
+ */
+export interface ClassifierOptions {
+  /** Provider interrogé (défaut: provider de l'extraction) */
+  provider?: string;
+  /** Modèle interrogé, de préférence un petit modèle (défaut: modèle de l'extraction) */
+  model?: string;
+  /** Confiance minimale pour appliquer le type détecté (défaut: 0.6) */
+  minConfidence?: number;
+}
+
+/**
+ * Type de document détecté avant la sélection du schéma (option autoClassify)
+ */
+export interface DocumentClassification {
+  /** Type détecté, 'other' si aucun type enregistré ne correspond */
+  documentType: string;
+  /** Confiance annoncée par le modèle (0-1) */
+  confidence: number;
+  reason?: string;
+  /** false si le type est 'other', la confiance sous le seuil ou la classification en échec : schéma par défaut utilisé */
+  applied: boolean;
+  /** Erreur de l'appel de classification (type 'other', confiance 0) */
+  error?: string;
+}
+
+/**
+ * Type renvoyé quand aucun type enregistré ne correspond
+ */
+export const UNKNOWN_DOCUMENT_TYPE = 'other';
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+/**
+ * Rendu basse résolution : suffisant pour reconnaître un document
+ */
+export const LOW_RESOLUTION_RENDERING: Partial<AIVisionProcessingOptions> = {
+  dpi: 72,
+  tiling: false,
+  autoOrient: false,
+  cropMode: undefined,
+  enhanceContrast: false,
+  targetQuality: 70
+};
+
+const BUILTIN_DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  {
+    name: 'invoice',
+    description: 'Invoice or credit note issued by a seller, with an invoice number, line items and totals',
+    options: { documentType: 'invoice' }
+  },
+  {
+    name: 'receipt',
+    description: 'Till or payment receipt from a shop, restaurant or service, usually short, with a merchant and a total paid',
+    options: { documentType: 'receipt' }
+  },
+  {
+    name: 'tables',
+    description: 'Document made mostly of tables without invoice structure, e.g. bank statement, price list, report',
+    options: { tablesOnly: true }
+  },
+  {
+    name: 'utility-bill',
+    description: 'Electricity, gas, water, internet or phone bill with a contract or delivery point number, meter readings or a consumption period',
+    options: { documentType: 'utility-bill' }
+  }
+];
+
+/**
+ * Classification du type de document avant extraction
+ *
+ * Un appel au modèle sur la première page (de la sélection) en basse résolution, ou sa couche texte en mode texte,
+ * choisit parmi les types enregistrés ; le type retenu fixe les options d'extraction et donc le schéma.
+ */
+export class DocumentClassifier {
+  private types = new Map<string, DocumentTypeDefinition>();
+  private aiGenerator = new AIGenerator();
+  private imageOptimizer = new ImageOptimizer();
+
+  constructor() {
+    BUILTIN_DOCUMENT_TYPES.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Ajoute ou remplace un type de document
+   */
+  register(definition: DocumentTypeDefinition): void {
+    if (!/^[\w-]+$/.test(definition.name) || definition.name === UNKNOWN_DOCUMENT_TYPE) {
+      throw new Error(`Nom de type de document invalide: ${definition.name}`);
+    }
+    this.types.set(definition.name, definition);
+    logger.debug({ documentType: definition.name }, '📇 Type de document enregistré');
+  }
+
+  get(name: string): DocumentTypeDefinition | undefined {
+    return this.types.get(name);
+  }
+
+  names(): string[] {
+    return [...this.types.keys()];
+  }
+
+  /**
+   * Détecte le type du document parmi les types enregistrés
+   */
+  async classify(
+    filePath: string,
+    inputType: InputFileType,
+    options: AIVisionProcessingOptions
+  ): Promise<{ classification: DocumentClassification; usage: ModelCallUsage }> {
+    const classifier = options.classifier || {};
+    // Première page de la sélection : un sous-document extrait avec l'option pages est classé sur sa propre page
+    const page = firstSelectedPage(options.pages);
+    const classifierOptions: AIVisionProcessingOptions = {
+      ...options,
+      ...LOW_RESOLUTION_RENDERING,
+      pages: String(page),
+      provider: classifier.provider || options.provider,
+      model: classifier.model || options.model,
+      grounding: false,
+      confidence: false,
+      ensembleStrategy: undefined
+    };
+
+    const { images, pageTexts } = await this.prepareFirstPage(filePath, inputType, classifierOptions);
+    const names = this.names();
+    const schema = z.object({
+      documentType: z.enum([UNKNOWN_DOCUMENT_TYPE, ...names]),
+      confidence: z.number(),
+      reason: z.string().nullable().optional()
+    });
+
+    const result = await this.aiGenerator.generate(images, schema, classifierOptions, {
+      pages: [page],
+      pageTexts,
+      instructions: this.buildInstructions(names)
+    });
+
+    const confidence = Math.min(1, Math.max(0, result.object.confidence));
+    const minConfidence = classifier.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    const classification: DocumentClassification = {
+      documentType: result.object.documentType,
+      confidence,
+      ...(result.object.reason ? { reason: result.object.reason } : {}),
+      applied: result.object.documentType !== UNKNOWN_DOCUMENT_TYPE && confidence >= minConfidence
+    };
+
+    logger.info({ ...classification, minConfidence, model: result.modelUsed }, classification.applied
+      ? '🏷️ Type de document détecté'
+      : '🏷️ Type de document incertain, schéma par défaut conservé');
+
+    return { classification, usage: result.usage };
+  }
+
+  /**
+   * Page à classer : couche texte si le mode texte est demandé et exploitable, sinon image basse résolution
+   */
+  private async prepareFirstPage(
+    filePath: string,
+    inputType: InputFileType,
+    options: AIVisionProcessingOptions
+  ): Promise<{ images: ProcessedVisionImage[]; pageTexts?: PdfPageText[] }> {
+    if (inputType === 'pdf' && options.mode && options.mode !== 'vision') {
+      const pageTexts = await extractTextFromPDF(filePath, options.pages);
+      if (hasUsableTextLayer(pageTexts)) {
+        return { images: [], pageTexts };
+      }
+    }
+
+    const { optimizedImages } = await this.imageOptimizer.processDirect(filePath, options, inputType);
+    return { images: optimizedImages };
+  }
+
+  private buildInstructions(names: string[]): string {
+    const types = names
+      .map(name => `- ${name}: ${this.types.get(name)!.description}`)
+      .join('\n');
+
+    return `Classify this document from its first page.
+
+DOCUMENT TYPES:
+${types}
+- ${UNKNOWN_DOCUMENT_TYPE}: none of the types above
+
+Return the documentType that best matches, your confidence between 0 and 1, and a short reason.
+Only use a high confidence when the document clearly matches the description.`;
+  }
+}
+
+export const documentClassifier = new DocumentClassifier();
@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { createModuleLogger } from "../../utils/logger";
+import type { InputFileType, PdfPageText } from '../types';
+import { extractTextFromPDF, hasUsableTextLayer } from '../file-processor';
+import { AIGenerator } from './ai-generator';
+import { ImageOptimizer, type ProcessedVisionImage } from './image-optimization';
+import { LOW_RESOLUTION_RENDERING } from './document-classifier';
+import type { AIVisionProcessingOptions } from './processor';
+import type { ModelCallUsage } from './usage';
+
+const logger = createModuleLogger('document-splitter');
+
+/**
+ * Configuration du découpage (option splitter)
+ */
+export interface SplitterOptions {
+  /** Provider interrogé (défaut: provider de l'extraction) */
+  provider?: string;
+  /** Modèle interrogé, de préférence un petit modèle (défaut: modèle de l'extraction) */
+  model?: string;
+  /** Pages analysées par appel au modèle (défaut: 8) */
+  pagesPerRequest?: number;
+}
+
+/**
+ * Indices relevés par le modèle sur une page
+ */
+export interface PageSignal {
+  page: number;
+  /** En-tête d'un nouveau document (logo, bloc émetteur, titre "Facture"...) */
+  startsNewDocument: boolean;
+  /** Numéro de page imprimé, ex: 1 pour "Page 1/3" */
+  pageLabel: number | null;
+  /** Nature du document, ex: 'invoice', 'receipt', 'delivery note' */
+  documentType: string | null;
+  /** Numéro du document, ex: numéro de facture */
+  documentNumber: string | null;
+}
+
+/**
+ * Raison d'un début de document
+ */
+export type BoundaryReason = 'new-header' | 'page-number-reset' | 'document-number-change' | 'document-type-change';
+
+/**
+ * Sous-document détecté dans le fichier
+ */
+export interface DocumentSegment {
+  startPage: number;
+  endPage: number;
+  /** Pages du sous-document (base 1) */
+  pages: number[];
+  documentType?: string;
+  documentNumber?: string;
+  /** Indices ayant ouvert ce sous-document (vide pour le premier) */
+  reasons: BoundaryReason[];
+}
+
+const DEFAULT_PAGES_PER_REQUEST = 8;
+
+const SignalsSchema = z.object({
+  pages: z.array(z.object({
+    page: z.number().int(),
+    startsNewDocument: z.boolean(),
+    pageLabel: z.number().int().nullable(),
+    documentType: z.string().nullable(),
+    documentNumber: z.string().nullable()
+  }))
+});
+
+/**
+ * Regroupe les pages en sous-documents à partir des indices relevés
+ *
+ * Un document commence sur un nouvel en-tête, une numérotation qui repart à 1, un changement de numéro
+ * ou de nature de document. Une page numérotée au-delà de 1 sans changement de numéro reste rattachée
+ * au document en cours : la numérotation l'emporte sur l'en-tête répété ou la nature hésitante.
+ */
+export function detectBoundaries(signals: PageSignal[]): DocumentSegment[] {
+  const segments: DocumentSegment[] = [];
+  let current: DocumentSegment | undefined;
+
+  for (const signal of [...signals].sort((a, b) => a.page - b.page)) {
+    const documentType = normalizeLabel(signal.documentType)?.toLowerCase();
+    const documentNumber = normalizeLabel(signal.documentNumber);
+
+    if (current) {
+      const reasons: BoundaryReason[] = [];
+      if (signal.startsNewDocument) reasons.push('new-header');
+      if (signal.pageLabel === 1) reasons.push('page-number-reset');
+      const numberChanged = !!documentNumber && !!current.documentNumber && documentNumber.toLowerCase() !== current.documentNumber.toLowerCase();
+      if (numberChanged) reasons.push('document-number-change');
+      if (documentType && current.documentType && documentType !== current.documentType) reasons.push('document-type-change');
+
+      const continuation = signal.pageLabel !== null && signal.pageLabel > 1 && !numberChanged;
+
+      if (reasons.length === 0 || continuation) {
+        current.endPage = signal.page;
+        current.pages.push(signal.page);
+        current.documentType ??= documentType;
+        current.documentNumber ??= documentNumber;
+        continue;
+      }
+
+      current = { startPage: signal.page, endPage: signal.page, pages: [signal.page], reasons };
+    } else {
+      current = { startPage: signal.page, endPage: signal.page, pages: [signal.page], reasons: [] };
+    }
+
+    if (documentType) current.documentType = documentType;
+    if (documentNumber) current.documentNumber = documentNumber;
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * Découpage d'un fichier regroupant plusieurs documents (ex: lot de factures scanné en un seul PDF)
+ *
+ * Les pages sont analysées en basse résolution (ou via leur couche texte en mode texte) par groupes,
+ * chaque groupe reprenant la dernière page du précédent pour conserver le contexte.
+ */
+export class DocumentSplitter {
+  private aiGenerator = new AIGenerator();
+  private imageOptimizer = new ImageOptimizer();
+
+  async split(
+    filePath: string,
+    inputType: InputFileType,
+    options: AIVisionProcessingOptions
+  ): Promise<{ segments: DocumentSegment[]; signals: PageSignal[]; usage: ModelCallUsage[] }> {
+    const splitter = options.splitter || {};
+    const splitterOptions: AIVisionProcessingOptions = {
+      ...options,
+      ...LOW_RESOLUTION_RENDERING,
+      provider: splitter.provider || options.provider,
+      model: splitter.model || options.model,
+      grounding: false,
+      confidence: false,
+      ensembleStrategy: undefined
+    };
+
+    const { images, pageNumbers, pageTexts } = await this.preparePages(filePath, inputType, splitterOptions);
+
+    // Une seule page : rien à découper
+    if (pageNumbers.length <= 1) {
+      const signals = pageNumbers.map(page => ({ page, startsNewDocument: true, pageLabel: null, documentType: null, documentNumber: null }));
+      return { segments: detectBoundaries(signals), signals, usage: [] };
+    }
+
+    const pagesPerRequest = Math.max(2, splitter.pagesPerRequest ?? DEFAULT_PAGES_PER_REQUEST);
+    const signals = new Map<number, PageSignal>();
+    const usage: ModelCallUsage[] = [];
+
+    // Groupes de pages se chevauchant d'une page
+    for (let start = 0; start < pageNumbers.length - 1; start += pagesPerRequest - 1) {
+      options.abortSignal?.throwIfAborted();
+      const indexes = pageNumbers.slice(start, start + pagesPerRequest).map((_, offset) => start + offset);
+      const pages = indexes.map(index => pageNumbers[index]!);
+
+      const result = await this.aiGenerator.generate(
+        pageTexts ? [] : indexes.map(index => images[index]!),
+        SignalsSchema,
+        splitterOptions,
+        {
+          pages,
+          totalPages: pageNumbers.length,
+          pageTexts: pageTexts?.filter(pageText => pages.includes(pageText.page)),
+          instructions: this.buildInstructions(pages, !!pageTexts)
+        }
+      );
+      usage.push(result.usage);
+
+      // La page reprise du groupe précédent garde ses indices d'origine
+      for (const signal of result.object.pages) {
+        if (pages.includes(signal.page) && !signals.has(signal.page)) {
+          signals.set(signal.page, signal);
+        }
+      }
+    }
+
+    // Page oubliée par le modèle : rattachée au document en cours
+    const pageSignals = pageNumbers.map(page => signals.get(page) ?? {
+      page, startsNewDocument: false, pageLabel: null, documentType: null, documentNumber: null
+    });
+    const segments = detectBoundaries(pageSignals);
+
+    logger.info({
+      pageCount: pageNumbers.length,
+      documentCount: segments.length,
+      requestCount: usage.length,
+      boundaries: segments.slice(1).map(segment => ({ page: segment.startPage, reasons: segment.reasons }))
+    }, '✂️ Découpage en sous-documents');
+
+    return { segments, signals: pageSignals, usage };
+  }
+
+  /**
+   * Pages à analyser : couche texte si le mode texte est demandé et exploitable, sinon images basse résolution
+   */
+  private async preparePages(
+    filePath: string,
+    inputType: InputFileType,
+    options: AIVisionProcessingOptions
+  ): Promise<{ images: ProcessedVisionImage[]; pageNumbers: number[]; pageTexts?: PdfPageText[] }> {
+    if (inputType === 'pdf' && options.mode && options.mode !== 'vision') {
+      const pageTexts = await extractTextFromPDF(filePath, options.pages);
+      if (hasUsableTextLayer(pageTexts)) {
+        return { images: [], pageNumbers: pageTexts.map(pageText => pageText.page), pageTexts };
+      }
+    }
+
+    const { optimizedImages, pageNumbers } = await this.imageOptimizer.processDirect(filePath, options, inputType);
+    return { images: optimizedImages, pageNumbers };
+  }
+
+  private buildInstructions(pages: number[], fromText: boolean): string {
+    const source = fromText
+      ? 'The text of each page is given below, headed by its page number.'
+      : `The images are pages ${pages.join(', ')} of the file, in this order.`;
+
+    return `This file may contain several documents scanned together (invoices, receipts, letters...).
+${source}
+
+For each page, return:
+- page: the page number in the file (${pages.join(', ')})
+- startsNewDocument: true if the page starts a new document (new letterhead, issuer block or document title), false if it continues the previous page
+- pageLabel: the page number printed on the page (1 for "Page 1/3"), null if none
+- documentType: the kind of document in a few words (e.g. invoice, receipt, delivery note), null if unclear
+- documentNumber: the document number printed on the page (e.g. invoice number), null if none
+
+Return every page, copy the printed values exactly and use null rather than guessing.`;
+  }
+}
+
+/**
+ * Normalise un libellé relevé par le modèle pour comparer les pages entre elles
+ */
+function normalizeLabel(value: string | null): string | undefined {
+  const normalized = value?.trim().replace(/\s+/g, ' ');
+  return normalized || undefined;
+}
+
+export const documentSplitter = new DocumentSplitter();
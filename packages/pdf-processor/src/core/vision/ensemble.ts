@@ -0,0 +1,249 @@
+import { createModuleLogger } from "../../utils/logger";
+import type { VisionProvider } from '../types';
+import { sameValue } from './confidence';
+import type { GroundingMap } from './grounding';
+import { indexPath, isPlainObject, joinPath } from './json-path';
+
+const logger = createModuleLogger('ensemble');
+
+// Poids d'un membre sans probabilité pour le champ (stratégie confidence)
+const DEFAULT_MEMBER_WEIGHT = 0.5;
+
+/**
+ * Modèle participant au vote
+ */
+export interface EnsembleMember {
+  provider: VisionProvider;
+  /** Modèle spécifique (défaut: modèle par défaut du provider) */
+  model?: string;
+}
+
+/**
+ * Règle de choix entre valeurs divergentes
+ * - 'majority' : valeur donnée par le plus de membres, le premier membre départage
+ * - 'confidence' : valeur dont la somme des probabilités (logprobs) est la plus élevée
+ */
+export type EnsembleStrategy = 'majority' | 'confidence';
+
+/**
+ * Extraction d'un membre soumise au vote
+ */
+export interface EnsembleCandidate {
+  /** Libellé du membre (ex: "mistral/pixtral-12b-latest") */
+  member: string;
+  object: any;
+  grounding?: GroundingMap;
+  logprobs?: Record<string, number>;
+}
+
+/**
+ * Champ sur lequel les membres ne sont pas d'accord
+ */
+export interface EnsembleDisagreement {
+  /** Chemin JSON du champ, suffixe ".length" pour un nombre d'éléments de tableau différent */
+  path: string;
+  /** Valeurs proposées et membres qui les proposent */
+  values: Array<{ value: any; members: string[] }>;
+  /** Valeur retenue */
+  chosen: any;
+}
+
+/**
+ * Compte rendu d'un membre de l'ensemble
+ */
+export interface EnsembleMemberReport {
+  member: string;
+  provider: VisionProvider;
+  model: string;
+  success: boolean;
+  processingTime: number;
+  error?: string;
+}
+
+/**
+ * Résultat du vote
+ */
+export interface EnsembleVote {
+  object: any;
+  disagreements: EnsembleDisagreement[];
+  /** Positions reprises du membre retenu pour chaque valeur */
+  grounding?: GroundingMap;
+  /** Probabilités reprises du membre retenu pour chaque valeur */
+  logprobs?: Record<string, number>;
+}
+
+/**
+ * Vote sur une valeur : membres qui la proposent (index dans la liste des candidats)
+ */
+interface Ballot {
+  candidate: number;
+  value: any;
+}
+
+/**
+ * État du vote
+ */
+interface VoteState {
+  candidates: EnsembleCandidate[];
+  strategy: EnsembleStrategy;
+  disagreements: EnsembleDisagreement[];
+  /** Membre retenu pour chaque valeur simple */
+  winners: Record<string, number>;
+}
+
+/**
+ * Réconcilie les extractions de plusieurs modèles champ par champ
+ *
+ * - objets : vote clé par clé
+ * - tableaux : vote sur le nombre d'éléments, puis élément par élément (même index)
+ * - valeurs simples : vote selon la stratégie, à égalité une valeur non nulle puis le premier membre l'emportent
+ * - chaque divergence est reportée avec les valeurs proposées par membre
+ */
+export class EnsembleVoter {
+
+  vote(candidates: EnsembleCandidate[], strategy: EnsembleStrategy = 'majority'): EnsembleVote {
+    if (candidates.length === 0) {
+      throw new Error('Aucune extraction à départager');
+    }
+
+    const state: VoteState = { candidates, strategy, disagreements: [], winners: {} };
+    const object = this.voteValue(candidates.map((candidate, index) => ({ candidate: index, value: candidate.object })), '', state);
+
+    logger.info({ members: candidates.length, strategy, disagreements: state.disagreements.length }, '🗳️ Vote de l\'ensemble terminé');
+
+    return {
+      object,
+      disagreements: state.disagreements,
+      ...this.collectFromWinners(state, 'grounding'),
+      ...this.collectFromWinners(state, 'logprobs')
+    };
+  }
+
+  private voteValue(ballots: Ballot[], path: string, state: VoteState): any {
+    const present = ballots.filter(ballot => ballot.value !== null && ballot.value !== undefined);
+
+    if (present.length > 0 && present.every(ballot => isPlainObject(ballot.value))) {
+      return this.voteStructure(ballots, present, path, state, () => this.voteObject(present, path, state));
+    }
+
+    if (present.length > 0 && present.every(ballot => Array.isArray(ballot.value))) {
+      return this.voteStructure(ballots, present, path, state, () => this.voteArray(present, path, state));
+    }
+
+    return this.voteLeaf(ballots, path, state);
+  }
+
+  /**
+   * Objet ou tableau : vote d'abord entre la structure et l'absence de valeur
+   */
+  private voteStructure(ballots: Ballot[], present: Ballot[], path: string, state: VoteState, voteContent: () => any): any {
+    if (present.length === ballots.length) {
+      return voteContent();
+    }
+
+    const absent = ballots.filter(ballot => !present.includes(ballot));
+    const keepContent = this.weight(present, path, state) >= this.weight(absent, path, state);
+    const chosen = keepContent ? voteContent() : absent[0]!.value;
+
+    this.report(path, [present, absent], chosen ?? null, state);
+    return chosen;
+  }
+
+  private voteObject(ballots: Ballot[], path: string, state: VoteState): Record<string, any> {
+    const keys = [...new Set(ballots.flatMap(ballot => Object.keys(ballot.value)))];
+    const result: Record<string, any> = {};
+
+    for (const key of keys) {
+      const value = this.voteValue(ballots.map(ballot => ({ candidate: ballot.candidate, value: ballot.value[key] })), joinPath(path, key), state);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  private voteArray(ballots: Ballot[], path: string, state: VoteState): any[] {
+    const lengthPath = `${path}.length`;
+    const length = this.voteLeaf(ballots.map(ballot => ({ candidate: ballot.candidate, value: ballot.value.length })), lengthPath, state);
+    const result: any[] = [];
+
+    for (let index = 0; index < length; index++) {
+      const itemBallots = ballots
+        .filter(ballot => index < ballot.value.length)
+        .map(ballot => ({ candidate: ballot.candidate, value: ballot.value[index] }));
+      result.push(this.voteValue(itemBallots, indexPath(path, index), state));
+    }
+
+    // Le nombre d'éléments n'est pas un champ du résultat
+    delete state.winners[lengthPath];
+    return result;
+  }
+
+  private voteLeaf(ballots: Ballot[], path: string, state: VoteState): any {
+    const groups: Ballot[][] = [];
+    for (const ballot of ballots) {
+      const group = groups.find(existing => sameValue(existing[0]!.value, ballot.value));
+      if (group) {
+        group.push(ballot);
+      } else {
+        groups.push([ballot]);
+      }
+    }
+
+    // Égalité : une valeur non nulle, puis le premier membre l'emportent
+    const isEmpty = (group: Ballot[]) => group[0]!.value === null || group[0]!.value === undefined;
+    const best = groups.reduce((winner, group) => {
+      const difference = this.weight(group, path, state) - this.weight(winner, path, state);
+      if (Math.abs(difference) > Number.EPSILON) return difference > 0 ? group : winner;
+      if (isEmpty(winner) !== isEmpty(group)) return isEmpty(winner) ? group : winner;
+      return group[0]!.candidate < winner[0]!.candidate ? group : winner;
+    });
+
+    if (groups.length > 1) {
+      this.report(path, groups, best[0]!.value ?? null, state);
+    }
+
+    state.winners[path] = best[0]!.candidate;
+    return best[0]!.value;
+  }
+
+  /**
+   * Poids d'un groupe de votes : nombre de membres, ou somme des probabilités du champ
+   */
+  private weight(ballots: Ballot[], path: string, state: VoteState): number {
+    if (state.strategy === 'majority') {
+      return ballots.length;
+    }
+    return ballots.reduce((sum, ballot) => sum + (state.candidates[ballot.candidate]!.logprobs?.[path] ?? DEFAULT_MEMBER_WEIGHT), 0);
+  }
+
+  private report(path: string, groups: Ballot[][], chosen: any, state: VoteState): void {
+    state.disagreements.push({
+      path: path || '$',
+      values: groups.map(group => ({
+        value: group[0]!.value ?? null,
+        members: group.map(ballot => state.candidates[ballot.candidate]!.member)
+      })),
+      chosen
+    });
+  }
+
+  /**
+   * Reprend les positions ou probabilités du membre retenu pour chaque valeur
+   */
+  private collectFromWinners<K extends 'grounding' | 'logprobs'>(state: VoteState, key: K): Partial<Record<K, NonNullable<EnsembleCandidate[K]>>> {
+    if (!state.candidates.some(candidate => candidate[key])) {
+      return {};
+    }
+
+    const collected: Record<string, any> = {};
+    for (const [path, candidate] of Object.entries(state.winners)) {
+      const entry = state.candidates[candidate]![key]?.[path];
+      if (entry !== undefined) {
+        collected[path] = entry;
+      }
+    }
+    return { [key]: collected } as Partial<Record<K, NonNullable<EnsembleCandidate[K]>>>;
+  }
+}
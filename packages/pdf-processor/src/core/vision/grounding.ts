@@ -0,0 +1,201 @@
+import { z } from 'zod';
+import { createModuleLogger } from "../../utils/logger";
+import type { ImageRegion } from './image-analysis';
+import { indexPath, isPlainObject, joinPath } from './json-path';
+
+const logger = createModuleLogger('grounding');
+
+/**
+ * Position d'une valeur extraite dans le document
+ */
+export interface FieldGrounding {
+  /** Numéro de la page (base 1) */
+  page: number;
+  /**
+   * Boîte englobante [x_min, y_min, x_max, y_max], normalisée entre 0 et 1
+   * par rapport à la page (après correction d'orientation)
+   */
+  bbox: [number, number, number, number];
+}
+
+/**
+ * Positions des valeurs extraites, par chemin JSON (ex: "line_items[2].line_total")
+ */
+export type GroundingMap = Record<string, FieldGrounding>;
+
+/**
+ * Image envoyée au modèle : page d'origine et zone de la page couverte
+ */
+export interface GroundingFrame {
+  page: number;
+  region?: ImageRegion;
+}
+
+/**
+ * Source d'une valeur demandée au modèle, relative à l'image reçue
+ *
+ * Sans description : le schéma est répété pour chaque champ, le format est expliqué une seule fois
+ * dans GROUNDING_INSTRUCTIONS.
+ */
+const FieldSourceSchema = z.object({
+  image: z.number().int(),
+  bbox: z.array(z.number()),
+}).nullable();
+
+/**
+ * Instructions ajoutées au prompt en mode grounding
+ */
+export const GROUNDING_INSTRUCTIONS = `GROUNDING: Every leaf field is an object { "value": ..., "source": ... }.
+- "value" holds the extracted value, following the usual rules
+- "source.image" is the 1-based index of the image where the value is read
+- "source.bbox" is [x_min, y_min, x_max, y_max] around the value, normalized 0-1 relative to that image
+- Use "source": null when the value is null or not visible`;
+
+/**
+ * Transforme chaque champ feuille du schéma en { value, source } pour demander sa position au modèle
+ *
+ * Les types non structurés (any, transformations, tuples...) sont laissés tels quels, sans position.
+ */
+export function augmentSchemaForGrounding(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional) {
+    return augmentSchemaForGrounding(schema.unwrap()).optional();
+  }
+
+  if (isLeafSchema(schema)) {
+    return withDescription(z.object({ value: schema, source: FieldSourceSchema }), schema);
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return augmentSchemaForGrounding(schema.unwrap()).nullable();
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return augmentSchemaForGrounding(schema.removeDefault()).optional();
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      shape[key] = augmentSchemaForGrounding(value);
+    }
+    return withDescription(z.object(shape), schema);
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return withDescription(z.array(augmentSchemaForGrounding(schema.element)), schema);
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return withDescription(z.record(augmentSchemaForGrounding(schema.valueSchema)), schema);
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    const options = (schema.options as z.ZodTypeAny[]).map(augmentSchemaForGrounding);
+    return withDescription(z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]), schema);
+  }
+
+  return schema;
+}
+
+/**
+ * Sépare la réponse du modèle en données du schéma d'origine et positions par chemin JSON
+ *
+ * Les boîtes relatives à une image (tuile, page recadrée) sont ramenées aux coordonnées de la page.
+ */
+export function unwrapGrounding(value: any, frames: GroundingFrame[]): { data: any; grounding: GroundingMap } {
+  const grounding: GroundingMap = {};
+  const data = unwrapValue(value, '', frames, grounding);
+
+  logger.debug({ groundedFields: Object.keys(grounding).length }, '📍 Positions des champs extraites');
+
+  return { data, grounding };
+}
+
+function unwrapValue(value: any, path: string, frames: GroundingFrame[], grounding: GroundingMap): any {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => unwrapValue(item, indexPath(path, index), frames, grounding));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (isGroundedLeaf(value)) {
+    const field = toFieldGrounding(value.source, frames);
+    if (field && value.value !== null && value.value !== undefined) {
+      grounding[path] = field;
+    }
+    return value.value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = unwrapValue(item, joinPath(path, key), frames, grounding);
+  }
+  return result;
+}
+
+/**
+ * Convertit la source donnée par le modèle (relative à l'image) en position sur la page
+ */
+function toFieldGrounding(source: any, frames: GroundingFrame[]): FieldGrounding | null {
+  if (!isPlainObject(source) || typeof source.image !== 'number' || !Array.isArray(source.bbox) || source.bbox.length !== 4) {
+    return null;
+  }
+
+  const frame = frames[source.image - 1];
+  if (!frame || !source.bbox.every((coordinate: unknown) => typeof coordinate === 'number' && Number.isFinite(coordinate))) {
+    return null;
+  }
+
+  const [x0, y0, x1, y1] = (source.bbox as number[]).map(clampUnit) as [number, number, number, number];
+  const region = frame.region;
+  const toPageX = (x: number) => region ? (region.left + x * region.width) / region.pageWidth : x;
+  const toPageY = (y: number) => region ? (region.top + y * region.height) / region.pageHeight : y;
+
+  return {
+    page: frame.page,
+    bbox: [
+      round(toPageX(Math.min(x0, x1))),
+      round(toPageY(Math.min(y0, y1))),
+      round(toPageX(Math.max(x0, x1))),
+      round(toPageY(Math.max(y0, y1)))
+    ]
+  };
+}
+
+/**
+ * Champ simple (texte, nombre, booléen, énumération), éventuellement optionnel ou nullable
+ */
+function isLeafSchema(schema: z.ZodTypeAny): boolean {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return isLeafSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return isLeafSchema(schema.removeDefault());
+  }
+  return schema instanceof z.ZodString
+    || schema instanceof z.ZodNumber
+    || schema instanceof z.ZodBoolean
+    || schema instanceof z.ZodLiteral
+    || schema instanceof z.ZodEnum
+    || schema instanceof z.ZodNativeEnum
+    || schema instanceof z.ZodDate;
+}
+
+function isGroundedLeaf(value: Record<string, any>): boolean {
+  const keys = Object.keys(value);
+  return keys.length === 2 && 'value' in value && 'source' in value;
+}
+
+function withDescription<T extends z.ZodTypeAny>(augmented: T, original: z.ZodTypeAny): T {
+  return original.description ? augmented.describe(original.description) : augmented;
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,463 @@
+import sharp from "sharp";
+import { createModuleLogger } from "../../utils/logger";
+import type { CropMode } from "../types";
+
+const logger = createModuleLogger('image-analysis');
+
+// Taille (plus grand côté) de l'image réduite utilisée pour l'analyse
+const ANALYSIS_SIZE = 1000;
+
+// Plage et pas de recherche de l'angle d'inclinaison (degrés)
+const MAX_SKEW_ANGLE = 5;
+const SKEW_ANGLE_STEP = 0.25;
+
+// En dessous de cet angle, le redressement n'apporte rien
+const MIN_SKEW_CORRECTION = 0.3;
+
+// Nombre maximum de pixels sombres échantillonnés pour l'estimation de l'inclinaison
+const MAX_SKEW_SAMPLES = 40000;
+
+// Nombre minimum de lignes de texte pour conclure sur l'orientation
+const MIN_TEXT_LINES = 4;
+
+// Écart minimum entre les deux hypothèses d'orientation comparées
+const ORIENTATION_RATIO = 1.5;
+
+// Part minimum de pixels sombres pour qu'une ligne/colonne compte comme contenu (ignore les poussières)
+const MIN_CONTENT_RATIO = 0.005;
+
+// Au-delà, une ligne/colonne est un bord noir de scanner et non du contenu
+const MAX_CONTENT_RATIO = 0.9;
+
+// Marge conservée autour du contenu détecté (part de la dimension)
+const CONTENT_PADDING = 0.015;
+
+// Un recadrage qui conserve plus que cette part de l'image n'est pas appliqué
+const MIN_CROP_GAIN = 0.97;
+
+/**
+ * Image binarisée (1 = pixel sombre) utilisée pour l'analyse
+ */
+interface BinaryImage {
+  width: number;
+  height: number;
+  dark: Uint8Array;
+}
+
+/**
+ * Zone rectangulaire en pixels de l'image d'origine (format de sharp.extract)
+ */
+export interface CropBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Zone de la page couverte par une image envoyée au modèle (recadrage, tuile)
+ *
+ * Les dimensions de la page sont celles de l'image après correction d'orientation.
+ */
+export interface ImageRegion extends CropBox {
+  pageWidth: number;
+  pageHeight: number;
+}
+
+/**
+ * Rotation horaire à appliquer pour remettre la page à l'endroit
+ */
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+/**
+ * Résultat de la correction d'orientation
+ */
+export interface OrientationCorrection {
+  /** Image corrigée (l'entrée d'origine si aucune correction n'était nécessaire) */
+  image: Buffer | string;
+  /** Corrections appliquées, au format de ProcessedVisionImage.optimizations */
+  optimizations: string[];
+}
+
+/**
+ * Corrige l'orientation d'une page : orientation EXIF, quart de tour détecté
+ * d'après la disposition du texte, puis redressement de l'inclinaison
+ */
+export async function correctOrientation(input: Buffer | string): Promise<OrientationCorrection> {
+  const optimizations: string[] = [];
+
+  const metadata = await sharp(input).metadata();
+  if (metadata.orientation && metadata.orientation > 1) {
+    optimizations.push(`exif-orient-${metadata.orientation}`);
+  }
+
+  const upright = await loadBinaryImage(sharp(input).autoOrient());
+  const quarterTurn = detectQuarterTurn(upright);
+  if (quarterTurn !== 0) {
+    optimizations.push(`rotate-${quarterTurn}`);
+  }
+
+  const rotated = quarterTurn === 0 ? upright : await loadBinaryImage(sharp(input).autoOrient().rotate(quarterTurn));
+  const skewAngle = estimateSkewAngle(rotated);
+  const applySkew = Math.abs(skewAngle) >= MIN_SKEW_CORRECTION;
+  if (applySkew) {
+    optimizations.push(`deskew-${skewAngle.toFixed(2)}deg`);
+  }
+
+  logger.debug({ quarterTurn, skewAngle, exifOrientation: metadata.orientation }, '🧭 Orientation analysée');
+
+  if (optimizations.length === 0) {
+    return { image: input, optimizations };
+  }
+
+  // Une seule rotation par pipeline Sharp : quart de tour et redressement sont combinés
+  const angle = quarterTurn - (applySkew ? skewAngle : 0);
+  const image = await sharp(input)
+    .autoOrient()
+    .rotate(angle, { background: '#ffffff' })
+    .png({ compressionLevel: 1 })
+    .toBuffer();
+
+  return { image, optimizations };
+}
+
+/**
+ * Calcule le recadrage à appliquer selon le mode choisi
+ *
+ * - 'center' : conserve un pourcentage centré de la page (cropSize)
+ * - 'content' : conserve la zone de contenu détectée
+ * - 'margins' : retire les marges uniformes autour de la page
+ *
+ * @returns La zone à extraire et son libellé d'optimisation, ou null sans recadrage
+ */
+export async function resolveCrop(
+  input: Buffer | string,
+  cropMode: CropMode | undefined,
+  cropSize: number | undefined
+): Promise<{ box: CropBox; label: string } | null> {
+  const mode = cropMode || (cropSize ? 'center' : undefined);
+
+  if (mode === 'content' || mode === 'margins') {
+    const box = mode === 'content' ? await detectContentBox(input) : await detectMarginBox(input);
+    return box ? { box, label: `crop-${mode}-${box.width}x${box.height}` } : null;
+  }
+
+  if (mode === 'center' && cropSize && cropSize > 0 && cropSize < 100) {
+    const metadata = await sharp(input).metadata();
+    const cropPercent = cropSize / 100;
+    const cropWidth = Math.floor((metadata.width || 0) * cropPercent);
+    const cropHeight = Math.floor((metadata.height || 0) * cropPercent);
+
+    if (cropWidth > 100 && cropHeight > 100) {
+      const left = Math.floor(((metadata.width || 0) - cropWidth) / 2);
+      const top = Math.floor(((metadata.height || 0) - cropHeight) / 2);
+      return { box: { left, top, width: cropWidth, height: cropHeight }, label: `crop-${cropSize}%` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Détecte la zone de contenu (texte, tableaux, logos) et ignore les marges blanches,
+ * les poussières et les bords noirs de scanner
+ *
+ * @returns La zone à conserver, ou null si le recadrage n'apporte rien
+ */
+export async function detectContentBox(input: Buffer | string): Promise<CropBox | null> {
+  const metadata = await sharp(input).metadata();
+  const width = metadata.width || 0;
+  const height = metadata.height || 0;
+  if (width === 0 || height === 0) return null;
+
+  const image = await loadBinaryImage(sharp(input));
+  const rowProfile = new Float64Array(image.height);
+  const columnProfile = new Float64Array(image.width);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.dark[y * image.width + x]) {
+        rowProfile[y]!++;
+        columnProfile[x]!++;
+      }
+    }
+  }
+
+  const rows = contentExtent(rowProfile, image.width);
+  const columns = contentExtent(columnProfile, image.height);
+  if (!rows || !columns) return null;
+
+  // Retour aux coordonnées de l'image d'origine, avec une marge de sécurité
+  const scaleX = width / image.width;
+  const scaleY = height / image.height;
+  const left = Math.max(0, Math.floor((columns.first - image.width * CONTENT_PADDING) * scaleX));
+  const top = Math.max(0, Math.floor((rows.first - image.height * CONTENT_PADDING) * scaleY));
+  const right = Math.min(width, Math.ceil((columns.last + 1 + image.width * CONTENT_PADDING) * scaleX));
+  const bottom = Math.min(height, Math.ceil((rows.last + 1 + image.height * CONTENT_PADDING) * scaleY));
+
+  return toWorthwhileCrop({ left, top, width: right - left, height: bottom - top }, width, height);
+}
+
+/**
+ * Détecte les marges uniformes autour de la page (couleur du coin supérieur gauche)
+ *
+ * @returns La zone à conserver, ou null si le recadrage n'apporte rien
+ */
+export async function detectMarginBox(input: Buffer | string): Promise<CropBox | null> {
+  const metadata = await sharp(input).metadata();
+  const width = metadata.width || 0;
+  const height = metadata.height || 0;
+  if (width === 0 || height === 0) return null;
+
+  try {
+    const { info } = await sharp(input)
+      .trim({ threshold: 20 })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const box = {
+      left: -(info.trimOffsetLeft || 0),
+      top: -(info.trimOffsetTop || 0),
+      width: info.width,
+      height: info.height
+    };
+    return toWorthwhileCrop(box, width, height);
+  } catch (error) {
+    // Image uniforme : rien à recadrer
+    logger.debug({ error }, '⚠️ Détection des marges impossible');
+    return null;
+  }
+}
+
+/**
+ * Première et dernière ligne (ou colonne) contenant du contenu
+ */
+function contentExtent(profile: Float64Array, lineLength: number): { first: number; last: number } | null {
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < profile.length; i++) {
+    const ratio = profile[i]! / lineLength;
+    if (ratio >= MIN_CONTENT_RATIO && ratio <= MAX_CONTENT_RATIO) {
+      if (first < 0) first = i;
+      last = i;
+    }
+  }
+  return first < 0 ? null : { first, last };
+}
+
+/**
+ * Ignore les recadrages qui ne retirent presque rien
+ */
+function toWorthwhileCrop(box: CropBox, width: number, height: number): CropBox | null {
+  if (box.width <= 0 || box.height <= 0) return null;
+  if (box.width >= width * MIN_CROP_GAIN && box.height >= height * MIN_CROP_GAIN) return null;
+  return box;
+}
+
+/**
+ * Réduit, passe en niveaux de gris et binarise l'image (seuil d'Otsu)
+ */
+async function loadBinaryImage(pipeline: sharp.Sharp): Promise<BinaryImage> {
+  const { data, info } = await pipeline
+    .grayscale()
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const threshold = otsuThreshold(data);
+  const dark = new Uint8Array(info.width * info.height);
+  for (let i = 0; i < dark.length; i++) {
+    dark[i] = data[i * info.channels]! < threshold ? 1 : 0;
+  }
+
+  return { width: info.width, height: info.height, dark };
+}
+
+/**
+ * Seuil de binarisation maximisant la variance inter-classes
+ */
+function otsuThreshold(data: Buffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of data) {
+    histogram[value]!++;
+  }
+
+  const total = data.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundWeight = 0;
+  let bestVariance = 0;
+  let threshold = 128;
+
+  for (let value = 0; value < 256; value++) {
+    backgroundWeight += histogram[value]!;
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += value * histogram[value]!;
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (sum - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = value;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Estime l'inclinaison des lignes de texte (degrés, positif = sens horaire)
+ * en maximisant la netteté du profil de projection horizontal
+ */
+export function estimateSkewAngle(image: BinaryImage): number {
+  const points: Array<[number, number]> = [];
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.dark[y * image.width + x]) points.push([x, y]);
+    }
+  }
+  if (points.length === 0) return 0;
+
+  const stride = Math.max(1, Math.floor(points.length / MAX_SKEW_SAMPLES));
+  const diagonal = Math.ceil(Math.hypot(image.width, image.height));
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -MAX_SKEW_ANGLE; angle <= MAX_SKEW_ANGLE + 1e-9; angle += SKEW_ANGLE_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const profile = new Float64Array(diagonal * 2 + 1);
+
+    for (let i = 0; i < points.length; i += stride) {
+      const [x, y] = points[i]!;
+      profile[Math.round(y * cos - x * sin) + diagonal]!++;
+    }
+
+    let score = 0;
+    for (const count of profile) score += count * count;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return Math.round(bestAngle * 100) / 100;
+}
+
+/**
+ * Détecte un quart de tour d'après la disposition du texte
+ *
+ * Les lignes de texte donnent un profil de projection très contrasté dans leur sens ;
+ * le début des lignes (marge gauche alignée) indique ensuite de quel côté se trouve le haut.
+ */
+export function detectQuarterTurn(image: BinaryImage): QuarterTurn {
+  const rowProfile = new Float64Array(image.height);
+  const columnProfile = new Float64Array(image.width);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.dark[y * image.width + x]) {
+        rowProfile[y]!++;
+        columnProfile[x]!++;
+      }
+    }
+  }
+
+  const horizontalLines = profileVariance(rowProfile, image.width);
+  const verticalLines = profileVariance(columnProfile, image.height);
+
+  if (verticalLines > horizontalLines * ORIENTATION_RATIO) {
+    // Texte vertical : les débuts de ligne alignés en haut indiquent une page tournée dans le sens horaire
+    const edges = lineEdges(image, 'vertical');
+    if (!edges) return 0;
+    if (edges.endSpread > edges.startSpread * ORIENTATION_RATIO) return 270;
+    if (edges.startSpread > edges.endSpread * ORIENTATION_RATIO) return 90;
+    return 0;
+  }
+
+  // Texte horizontal : les débuts de ligne alignés à droite indiquent une page à l'envers
+  const edges = lineEdges(image, 'horizontal');
+  if (edges && edges.startSpread > edges.endSpread * ORIENTATION_RATIO) return 180;
+  return 0;
+}
+
+/**
+ * Variance d'un profil de projection normalisé par la longueur des lignes
+ */
+function profileVariance(profile: Float64Array, lineLength: number): number {
+  if (profile.length === 0 || lineLength === 0) return 0;
+  let sum = 0;
+  let sumSquares = 0;
+  for (const count of profile) {
+    const ratio = count / lineLength;
+    sum += ratio;
+    sumSquares += ratio * ratio;
+  }
+  const mean = sum / profile.length;
+  return sumSquares / profile.length - mean * mean;
+}
+
+/**
+ * Dispersion des débuts et fins de lignes de texte
+ *
+ * Pour des lignes horizontales, le début est le bord gauche ; pour des lignes verticales, le bord haut.
+ */
+function lineEdges(
+  image: BinaryImage,
+  direction: 'horizontal' | 'vertical'
+): { startSpread: number; endSpread: number } | null {
+  const lineCount = direction === 'horizontal' ? image.height : image.width;
+  const lineLength = direction === 'horizontal' ? image.width : image.height;
+  const isDark = (line: number, position: number) => direction === 'horizontal'
+    ? image.dark[line * image.width + position] === 1
+    : image.dark[position * image.width + line] === 1;
+
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let current: { start: number; end: number } | null = null;
+
+  const closeLine = () => {
+    if (current && current.end >= current.start) {
+      starts.push(current.start);
+      ends.push(lineLength - 1 - current.end);
+    }
+    current = null;
+  };
+
+  for (let line = 0; line < lineCount; line++) {
+    let first = -1;
+    let last = -1;
+    for (let position = 0; position < lineLength; position++) {
+      if (isDark(line, position)) {
+        if (first < 0) first = position;
+        last = position;
+      }
+    }
+
+    if (first < 0) {
+      closeLine();
+      continue;
+    }
+
+    if (current) {
+      current.start = Math.min(current.start, first);
+      current.end = Math.max(current.end, last);
+    } else {
+      current = { start: first, end: last };
+    }
+  }
+  closeLine();
+
+  if (starts.length < MIN_TEXT_LINES) return null;
+  return { startSpread: standardDeviation(starts), endSpread: standardDeviation(ends) };
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
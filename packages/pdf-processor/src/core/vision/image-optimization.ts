@@ -1,8 +1,11 @@
 import fs from "fs/promises";
 import path from "path";
 import { createModuleLogger } from "../../utils/logger";
-import { DEFAULT_MODELS } from "../types";
+import type { InputFileType } from "../types";
 import type { AIVisionProcessingOptions } from './processor';
+import { correctOrientation, resolveCrop, type CropBox, type ImageRegion } from './image-analysis';
+import { computeTileGrid, tileLabel, type ImageTile, type ResolutionLimits } from './tiling';
+import { providerRegistry } from '../providers';
 
 const logger = createModuleLogger('image-optimization');
 
@@ -15,6 +18,10 @@ export interface ProcessedVisionImage {
   originalSizeBytes: number;
   compressionRatio: number;
   optimizations: string[];
+  /** Position de la tuile dans la page (découpage en tuiles uniquement) */
+  tile?: ImageTile;
+  /** Zone de la page couverte par l'image (absente si l'image couvre toute la page) */
+  region?: ImageRegion;
 }
 
 /**
@@ -27,29 +34,36 @@ export class ImageOptimizer {
    */
   async processDirect(
     filePath: string, 
-    options: AIVisionProcessingOptions
+    options: AIVisionProcessingOptions,
+    inputType: InputFileType = 'pdf',
+    onRendered?: (imageCount: number) => void
   ): Promise<{
     optimizedImages: ProcessedVisionImage[];
     optimizationMetrics: { originalSizeMB: number; optimizedSizeMB: number; compressionRatio: number };
+    pageNumbers: number[];
   }> {
     
     const tempDir = await this.createTempDir();
     
     try {
-      // Extraction des images du PDF (mode synchrone)
-      const { extractImagesFromPDF } = await import("../file-processor");
+      // Extraction des images du PDF (mode synchrone) ou lecture directe des images
+      const { extractImagesFromPDF, extractImagesFromRaster } = await import("../file-processor");
       
-      const rawImages = await extractImagesFromPDF(filePath, tempDir, {
-        provider: options.provider,
-        dpi: options.dpi || 300,
-        extractImages: true,
-      });
+      const { imagePaths: rawImages, pageNumbers } = inputType === 'image'
+        ? await extractImagesFromRaster(filePath, tempDir, options)
+        : await extractImagesFromPDF(filePath, tempDir, {
+            provider: options.provider,
+            dpi: options.dpi || 300,
+            pages: options.pages,
+            extractImages: true,
+          });
       
       if (rawImages.length === 0) {
-        throw new Error("Aucune image extraite du PDF");
+        throw new Error("Aucune image extraite du document");
       }
       
       logger.debug({ imageCount: rawImages.length }, '🖼️ Images extraites (mode direct)');
+      onRendered?.(rawImages.length);
       
       // Optimisation Sharp directe (sans worker)
       const optimizedImages = await this.optimizeDirectly(rawImages, options);
@@ -65,7 +79,8 @@ export class ImageOptimizer {
           originalSizeMB: totalOriginalSize / (1024 * 1024),
           optimizedSizeMB: totalOptimizedSize / (1024 * 1024),
           compressionRatio: averageCompressionRatio
-        }
+        },
+        pageNumbers
       };
       
     } finally {
@@ -75,6 +90,8 @@ export class ImageOptimizer {
 
   /**
    * Optimisation Sharp directe (sans worker)
+   *
+   * Avec le découpage en tuiles, une grande page produit une image par tuile.
    */
   async optimizeDirectly(
     imagePaths: string[],
@@ -86,8 +103,9 @@ export class ImageOptimizer {
     const { existsSync } = await import("fs");
     
     const results: ProcessedVisionImage[] = [];
+    const limits = providerRegistry.getImageLimits(options.provider, options.model, options.pdfProcessor);
     
-    for (const imagePath of imagePaths) {
+    for (const [sourceIndex, imagePath] of imagePaths.entries()) {
       if (!existsSync(imagePath)) {
         throw new Error(`Image not found: ${imagePath}`);
       }
@@ -95,90 +113,142 @@ export class ImageOptimizer {
       const originalStats = await fs.stat(imagePath);
       const originalSizeBytes = originalStats.size;
       
-      let pipeline = sharp(imagePath);
-      const metadata = await pipeline.metadata();
       const optimizations: string[] = [];
+      let source: Buffer | string = imagePath;
 
-      // Recadrage intelligent (optionnel)
-      if (options.cropSize && options.cropSize > 0 && options.cropSize < 100) {
-        const cropPercent = options.cropSize / 100;
-        const cropWidth = Math.floor((metadata.width || 0) * cropPercent);
-        const cropHeight = Math.floor((metadata.height || 0) * cropPercent);
-        
-        if (cropWidth > 100 && cropHeight > 100) {
-          const left = Math.floor(((metadata.width || 0) - cropWidth) / 2);
-          const top = Math.floor(((metadata.height || 0) - cropHeight) / 2);
-          
-          pipeline = pipeline.extract({ left, top, width: cropWidth, height: cropHeight });
-          optimizations.push(`crop-${options.cropSize}%`);
-        }
+      // Correction d'orientation (EXIF, quart de tour, inclinaison)
+      if (options.autoOrient) {
+        const correction = await correctOrientation(imagePath);
+        source = correction.image;
+        optimizations.push(...correction.optimizations);
       }
 
-      // Redimensionnement pour Vision LLM (selon le nombre max de pixels)
-      const { maxPixels, maxDimension } = this.getMaxResolutionForProvider(options.provider, options.model);
-      const currentPixels = (metadata.width || 0) * (metadata.height || 0);
-      
-      if (currentPixels > maxPixels || (metadata.width && metadata.width > maxDimension) || (metadata.height && metadata.height > maxDimension)) {
-        // Calculer les nouvelles dimensions en gardant le ratio d'aspect
-        const aspectRatio = (metadata.width || 1) / (metadata.height || 1);
-        
-        // Méthode 1: Limiter par pixels totaux (optimal pour tokens)
-        let newWidth = Math.sqrt(maxPixels * aspectRatio);
-        let newHeight = Math.sqrt(maxPixels / aspectRatio);
-        
-        // Méthode 2: Vérifier les limites de dimension max
-        if (newWidth > maxDimension) {
-          newWidth = maxDimension;
-          newHeight = newWidth / aspectRatio;
-        }
-        if (newHeight > maxDimension) {
-          newHeight = maxDimension;
-          newWidth = newHeight * aspectRatio;
-        }
-        
-        newWidth = Math.round(newWidth);
-        newHeight = Math.round(newHeight);
-        
-        pipeline = pipeline.resize(newWidth, newHeight, {
-          kernel: sharp.kernel.lanczos3,
-          withoutEnlargement: true
-        });
-        optimizations.push(`resize-${newWidth}x${newHeight}-pixels`);
+      const metadata = await sharp(source).metadata();
+
+      // Recadrage (optionnel) : centré, sur le contenu ou sur les marges
+      const crop = await resolveCrop(source, options.cropMode, options.cropSize);
+      if (crop) {
+        optimizations.push(crop.label);
       }
+      const region: CropBox = crop?.box || { left: 0, top: 0, width: metadata.width || 0, height: metadata.height || 0 };
+
+      // Découpage en tuiles (optionnel) si la page dépasse la résolution du modèle
+      const tiles = options.tiling
+        ? computeTileGrid(region.width, region.height, limits, sourceIndex, options.tileOverlap)
+        : null;
+
+      const pageSize = { pageWidth: metadata.width || 0, pageHeight: metadata.height || 0 };
 
-      // Amélioration contraste
-      if (options.enhanceContrast !== false) {
-        pipeline = pipeline
-          .modulate({ brightness: 1.05, saturation: 1.1 })
-          .sharpen({ sigma: 0.8, m1: 1.0, m2: 2.0, x1: 2, y2: 10, y3: 20 });
-        optimizations.push('contrast-enhanced');
+      if (!tiles) {
+        const image = await this.encodeRegion(source, crop ? region : null, region, limits, options, optimizations, originalSizeBytes);
+        results.push(crop ? { ...image, region: { ...region, ...pageSize } } : image);
+        continue;
       }
 
-      // Compression JPEG haute qualité
-      const targetQuality = options.targetQuality || 95;
-      pipeline = pipeline.jpeg({
-        quality: targetQuality,
-        progressive: true,
-        mozjpeg: true
-      });
-      optimizations.push(`jpeg-q${targetQuality}`);
+      logger.debug({ sourceIndex, tileCount: tiles.length, rows: tiles[0]!.rows, columns: tiles[0]!.columns }, '🧱 Page découpée en tuiles');
 
-      const optimizedBuffer = await pipeline.toBuffer();
-      const base64 = optimizedBuffer.toString('base64');
-      
-      results.push({
-        base64,
-        optimizedSizeBytes: optimizedBuffer.length,
-        originalSizeBytes,
-        compressionRatio: optimizedBuffer.length / originalSizeBytes,
-        optimizations
-      });
+      for (const tile of tiles) {
+        const box: CropBox = { left: region.left + tile.left, top: region.top + tile.top, width: tile.width, height: tile.height };
+        const image = await this.encodeRegion(
+          source,
+          box,
+          box,
+          limits,
+          options,
+          [...optimizations, tileLabel(tile)],
+          Math.round(originalSizeBytes / tiles.length)
+        );
+        results.push({ ...image, tile, region: { ...box, ...pageSize } });
+      }
     }
     
     logger.debug({ imageCount: results.length }, '✅ Images optimisées (mode direct)');
     return results;
   }
 
+  /**
+   * Redimensionne, améliore et encode en JPEG une zone de l'image source
+   *
+   * @param box - Zone à extraire, ou null pour l'image entière
+   * @param size - Dimensions de la zone encodée
+   */
+  private async encodeRegion(
+    source: Buffer | string,
+    box: CropBox | null,
+    size: { width: number; height: number },
+    limits: ResolutionLimits,
+    options: AIVisionProcessingOptions,
+    optimizations: string[],
+    originalSizeBytes: number
+  ): Promise<ProcessedVisionImage> {
+    
+    const sharp = (await import("sharp")).default;
+    
+    let pipeline = sharp(source);
+    if (box) {
+      pipeline = pipeline.extract(box);
+    }
+
+    // Redimensionnement pour Vision LLM (selon le nombre max de pixels)
+    const { maxPixels, maxDimension } = limits;
+    const currentPixels = size.width * size.height;
+    
+    if (currentPixels > maxPixels || size.width > maxDimension || size.height > maxDimension) {
+      // Calculer les nouvelles dimensions en gardant le ratio d'aspect
+      const aspectRatio = (size.width || 1) / (size.height || 1);
+      
+      // Méthode 1: Limiter par pixels totaux (optimal pour tokens)
+      let newWidth = Math.sqrt(maxPixels * aspectRatio);
+      let newHeight = Math.sqrt(maxPixels / aspectRatio);
+      
+      // Méthode 2: Vérifier les limites de dimension max
+      if (newWidth > maxDimension) {
+        newWidth = maxDimension;
+        newHeight = newWidth / aspectRatio;
+      }
+      if (newHeight > maxDimension) {
+        newHeight = maxDimension;
+        newWidth = newHeight * aspectRatio;
+      }
+      
+      newWidth = Math.round(newWidth);
+      newHeight = Math.round(newHeight);
+      
+      pipeline = pipeline.resize(newWidth, newHeight, {
+        kernel: sharp.kernel.lanczos3,
+        withoutEnlargement: true
+      });
+      optimizations.push(`resize-${newWidth}x${newHeight}-pixels`);
+    }
+
+    // Amélioration contraste
+    if (options.enhanceContrast !== false) {
+      pipeline = pipeline
+        .modulate({ brightness: 1.05, saturation: 1.1 })
+        .sharpen({ sigma: 0.8, m1: 1.0, m2: 2.0, x1: 2, y2: 10, y3: 20 });
+      optimizations.push('contrast-enhanced');
+    }
+
+    // Compression JPEG haute qualité
+    const targetQuality = options.targetQuality || 95;
+    pipeline = pipeline.jpeg({
+      quality: targetQuality,
+      progressive: true,
+      mozjpeg: true
+    });
+    optimizations.push(`jpeg-q${targetQuality}`);
+
+    const optimizedBuffer = await pipeline.toBuffer();
+    
+    return {
+      base64: optimizedBuffer.toString('base64'),
+      optimizedSizeBytes: optimizedBuffer.length,
+      originalSizeBytes,
+      compressionRatio: optimizedBuffer.length / originalSizeBytes,
+      optimizations
+    };
+  }
+
   private async createTempDir(): Promise<string> {
     const tempDir = path.join(
       process.env.EK_TMPDIR || '/tmp',
@@ -195,31 +265,4 @@ export class ImageOptimizer {
       logger.warn({ error, tempDir }, '⚠️ Erreur nettoyage répertoire temporaire');
     }
   }
-
-  /**
-   * Détermine les limites de résolution selon le modèle
-   */
-  private getMaxResolutionForProvider(provider: string, model?: string): { maxPixels: number, maxDimension: number } {
-    // Déterminer le modèle utilisé
-    const modelName = model || DEFAULT_MODELS[provider as keyof typeof DEFAULT_MODELS] || '';
-    
-    // Limites selon le modèle spécifique
-    if (modelName.toLowerCase().includes('pixtral')) {
-      return { 
-        maxPixels: 1024 * 1024, // 1,048,576 pixels max
-        maxDimension: 1024      // 1024px max par dimension
-      };
-    } else if (modelName.toLowerCase().includes('mistral')) {
-      return { 
-        maxPixels: 1540 * 1540, // 2,371,600 pixels max  
-        maxDimension: 1540      // 1540px max par dimension
-      };
-    }
-    
-    // Par défaut, utiliser 2048 pour les autres modèles
-    return { 
-      maxPixels: 2048 * 2048, // 4,194,304 pixels max
-      maxDimension: 2048      // 2048px max par dimension
-    };
-  }
-}
\ No newline at end of file
+}
@@ -19,8 +19,20 @@ export async function extractWithAI<T extends z.ZodSchema>(
   schema: T,
   options: Partial<AIVisionProcessingOptions> = {}
 ): Promise<z.infer<T>> {
+  const result = await extractWithAIMetadata(filePath, schema, options);
+  return result.data;
+}
+
+/**
+ * Comme extractWithAI, avec le résultat complet (métadonnées, consommation)
+ */
+export async function extractWithAIMetadata<T extends z.ZodSchema>(
+  filePath: string,
+  schema: T,
+  options: Partial<AIVisionProcessingOptions> = {}
+): Promise<AIVisionResult<z.infer<T>>> {
   
-  const result = await aiVisionProcessor.process(filePath, {
+  const result = await aiVisionProcessor.process<z.infer<T>>(filePath, {
     provider: options.provider || 'scaleway',
     model: options.model,
     customSchema: schema,
@@ -29,11 +41,12 @@ export async function extractWithAI<T extends z.ZodSchema>(
     ...options
   });
   
-  if (!result.validation.success) {
-    throw new Error(`Validation failed: ${result.validation.errors?.message}`);
+  // Seules les erreurs de schéma sont bloquantes, les incohérences restent dans validation.warnings
+  if (result.validation.errors) {
+    throw new Error(`Validation failed: ${result.validation.errors.message}`);
   }
   
-  return result.data;
+  return result;
 }
 
 /**
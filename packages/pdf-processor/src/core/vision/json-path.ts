@@ -0,0 +1,24 @@
+/**
+ * Utilitaires de chemins JSON (ex: "line_items[3].description")
+ */
+
+/**
+ * Ajoute une clé d'objet à un chemin JSON
+ */
+export function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Ajoute un index de tableau à un chemin JSON
+ */
+export function indexPath(path: string, index: number): string {
+  return `${path}[${index}]`;
+}
+
+/**
+ * Vérifie qu'une valeur est un objet simple (ni tableau, ni null)
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,12 +1,26 @@
 import { z } from 'zod';
 import path from "path";
 import { createModuleLogger } from "../../utils/logger";
-import type { VisionExtractionOptions, PdfProcessorConfig } from '../types';
+import type { VisionExtractionOptions, PdfProcessorConfig, ExtractionMode, PdfPageText, InputFileType } from '../types';
 import { ImageOptimizer } from './image-optimization';
 import type { ProcessedVisionImage } from './image-optimization';
 import { WorkerManager } from './worker-manager';
 import { SchemaSelector } from './schema-selector';
-import { AIGenerator } from './ai-generator';
+import { AIGenerator, type FallbackAttempt, type GenerationContext } from './ai-generator';
+import { ResultMerger, type PartialExtraction } from './result-merger';
+import type { GroundingMap } from './grounding';
+import { scoreFieldConfidence, type ConfidenceMap } from './confidence';
+import { EnsembleVoter, type EnsembleDisagreement, type EnsembleMember, type EnsembleMemberReport, type EnsembleStrategy } from './ensemble';
+import { consistencyValidator, type ValidationTolerance, type ValidationWarning } from '../validation';
+import { SelfCorrector, type CorrectionAttempt } from './self-corrector';
+import { detectInputType, extractTextFromPDF, hasUsableTextLayer } from '../file-processor';
+import { combineUsage, summarizeUsage, usageTracker, type ExtractionUsage, type ModelCallUsage } from './usage';
+import { computeCacheKey, hashFile, hashSchema, resultCache, type CacheMode, type CacheStatus } from '../cache';
+import { providerRegistry } from '../providers';
+import { documentClassifier, UNKNOWN_DOCUMENT_TYPE, type ClassifierOptions, type DocumentClassification } from './document-classifier';
+import { documentSplitter, type DocumentSegment, type SplitterOptions } from './document-splitter';
+import { formatPageSelection } from '../page-selection';
+import { observeAsStream, type ExtractionStreamEvent, type ProcessingObserver } from './stream';
 
 const logger = createModuleLogger('vision-processor');
 
@@ -16,9 +30,46 @@ const logger = createModuleLogger('vision-processor');
 export interface AIVisionProcessingOptions extends VisionExtractionOptions {
   query?: string;
   tablesOnly?: boolean;
-  documentType?: 'invoice' | 'receipt' | 'basic' | 'custom';
+  /** Schéma du registre : 'invoice', 'receipt', 'tables', un schéma enregistré ('nom' ou 'nom@version') */
+  documentType?: string;
   customSchema?: z.ZodSchema;
   maxRetries?: number;
+  /** Position (page, boîte englobante) de chaque valeur extraite, voir AIVisionResult.grounding (défaut: false) */
+  grounding?: boolean;
+  /** Bascule vers les providers de secours de pdfProcessor.fallback (défaut: true si configurés) */
+  fallback?: boolean;
+  /** Nombre de pages envoyées par appel au modèle (défaut: toutes les pages en un seul appel, ignoré avec le découpage en tuiles) */
+  pagesPerRequest?: number;
+  /** Vérifications de cohérence après extraction, ex: arithmétique des factures (défaut: true) */
+  consistencyChecks?: boolean;
+  /** Champs obligatoires vérifiés après extraction, ex: "invoice_details.invoice_number", "line_items[].description" */
+  requiredFields?: string[];
+  /** Nouvelle tentative avec l'extraction précédente et ses incohérences si des vérifications échouent (défaut: false) */
+  selfCorrect?: boolean;
+  /** Nombre maximum de tentatives d'auto-correction (défaut: 2) */
+  maxCorrectionRounds?: number;
+  /** Score de confiance de chaque valeur extraite, voir AIVisionResult.confidence (défaut: false) */
+  confidence?: boolean;
+  /** Extractions supplémentaires comparées au résultat pour mesurer l'accord entre réponses (défaut: 0) */
+  confidenceSamples?: number;
+  /** Seuil sous lequel un champ est listé dans metadata.lowConfidenceFields (défaut: 0.7) */
+  confidenceThreshold?: number;
+  /** Modèles interrogés en parallèle, résultats réconciliés champ par champ (au moins 2 membres) */
+  ensemble?: EnsembleMember[];
+  /** Choix entre valeurs divergentes de l'ensemble : 'majority' (défaut) ou 'confidence' */
+  ensembleStrategy?: EnsembleStrategy;
+  /** Tolérance des comparaisons de montants (défaut: 0.01 absolu, 0,1 % relatif) */
+  validationTolerance?: Partial<ValidationTolerance>;
+  /** Détection du type de document (première page, basse résolution) quand aucun schéma ni type n'est imposé (défaut: false) */
+  autoClassify?: boolean;
+  /** Provider, modèle et seuil de confiance de la classification (option autoClassify) */
+  classifier?: ClassifierOptions;
+  /** Provider, modèle et taille des groupes de pages du découpage en sous-documents (processDocuments) */
+  splitter?: SplitterOptions;
+  /** Utilisation du cache pdfProcessor.cache : 'use' (défaut), 'refresh' ou 'bypass' */
+  cache?: CacheMode;
+  /** Interrompt l'extraction (vérifié entre les étapes et transmis aux appels au modèle) */
+  abortSignal?: AbortSignal;
   /** Configuration personnalisée des providers */
   pdfProcessor?: PdfProcessorConfig;
 }
@@ -30,22 +81,106 @@ export interface AIVisionResult<T = any> {
   data: T;
   metadata: {
     pageCount: number;
+    /** Numéros des pages traitées (base 1) */
+    pageNumbers?: number[];
+    /** Type du fichier traité (PDF ou image) */
+    inputType?: InputFileType;
+    /** Mode d'extraction effectivement utilisé */
+    mode?: ExtractionMode;
     processingTime: number;
+    /** Provider qui a produit le résultat (provider de secours après une bascule) */
     provider: string;
     model: string;
     schemaUsed: string;
+    /** Version du schéma du registre (documentType enregistré) */
+    schemaVersion?: string;
     optimizationMetrics: {
       originalSizeMB: number;
       optimizedSizeMB: number;
       compressionRatio: number;
     };
+    /** Nombre d'appels au modèle (> 1 en extraction page par page) */
+    requestCount?: number;
+    /** Tokens, images et coût estimé de tous les appels au modèle */
+    usage?: ExtractionUsage;
+    /** Pages d'origine de chaque élément de tableau, par chemin JSON (extraction page par page) */
+    pageSources?: Record<string, number[]>;
+    /** Tentatives d'auto-correction (option selfCorrect) */
+    corrections?: CorrectionAttempt[];
+    /** Providers en échec avant le provider utilisé (pdfProcessor.fallback) */
+    fallbackAttempts?: FallbackAttempt[];
+    /** Champs dont la confiance est sous le seuil, à faire vérifier (option confidence) */
+    lowConfidenceFields?: string[];
+    /** Membres de l'ensemble et champs divergents (option ensemble) */
+    ensemble?: {
+      strategy: EnsembleStrategy;
+      members: EnsembleMemberReport[];
+      disagreements: EnsembleDisagreement[];
+    };
+    /** Type de document détecté avant la sélection du schéma (option autoClassify) */
+    detectedDocumentType?: DocumentClassification;
+    /** Issue de la recherche en cache (pdfProcessor.cache configuré, option cache différente de 'bypass') */
+    cache?: {
+      status: CacheStatus;
+      key: string;
+      /** Date de mise en cache du résultat renvoyé (ISO 8601, status 'hit') */
+      storedAt?: string;
+      /** Consommation de l'extraction mise en cache, déjà facturée (status 'hit', metadata.usage est alors nulle) */
+      originalUsage?: ExtractionUsage;
+    };
   };
+  /** Position de chaque valeur extraite par chemin JSON, ex: "line_items[2].line_total" (mode grounding) */
+  grounding?: GroundingMap;
+  /** Confiance de chaque valeur extraite par chemin JSON (option confidence) */
+  confidence?: ConfidenceMap;
   validation: {
+    /** false si le schéma n'est pas respecté ou si des incohérences sont détectées */
     success: boolean;
     errors?: z.ZodError;
+    /** Incohérences détectées dans des données conformes au schéma */
+    warnings?: ValidationWarning[];
   };
 }
 
+/**
+ * Sous-document d'un fichier découpé et son extraction
+ */
+export interface AIVisionDocumentResult<T = any> extends DocumentSegment {
+  result: AIVisionResult<T>;
+}
+
+/**
+ * Résultat d'un fichier regroupant plusieurs documents (processDocuments)
+ */
+export interface AIVisionSplitResult<T = any> {
+  documents: AIVisionDocumentResult<T>[];
+  metadata: {
+    /** Pages analysées pour le découpage */
+    pageCount: number;
+    processingTime: number;
+    /** Appels au modèle : découpage puis extraction de chaque sous-document */
+    requestCount: number;
+    /** Consommation cumulée du découpage et des extractions */
+    usage: ExtractionUsage;
+  };
+}
+
+/**
+ * Résultat d'une extraction avant vérifications
+ */
+interface GenerationResult {
+  object: any;
+  modelUsed: string;
+  providerUsed: string;
+  fallbackAttempts?: FallbackAttempt[];
+  requestCount: number;
+  /** Consommation de chaque appel au modèle */
+  usage: ModelCallUsage[];
+  pageSources?: Record<string, number[]>;
+  grounding?: GroundingMap;
+  logprobs?: Record<string, number>;
+}
+
 /**
  * Processeur AI Vision principal - orchestrate les différents composants
  */
@@ -54,20 +189,30 @@ export class AIVisionProcessor {
   private imageOptimizer: ImageOptimizer;
   private schemaSelector: SchemaSelector;
   private aiGenerator: AIGenerator;
+  private resultMerger: ResultMerger;
+  private selfCorrector: SelfCorrector;
+  private ensembleVoter: EnsembleVoter;
   
   constructor() {
     this.workerManager = new WorkerManager();
     this.imageOptimizer = new ImageOptimizer();
     this.schemaSelector = new SchemaSelector();
     this.aiGenerator = new AIGenerator();
+    this.resultMerger = new ResultMerger();
+    this.selfCorrector = new SelfCorrector();
+    this.ensembleVoter = new EnsembleVoter();
   }
 
   /**
-   * Traite un PDF avec AI Vision + validation Zod automatique
+   * Traite un PDF ou une image avec AI Vision + validation Zod automatique
+   *
+   * L'observateur optionnel reçoit l'avancement des étapes et, pour une extraction en un seul appel,
+   * les objets partiels au fil de la réponse du modèle.
    */
   async process<T = any>(
     filePath: string,
-    options: AIVisionProcessingOptions
+    options: AIVisionProcessingOptions,
+    observer: ProcessingObserver = {}
   ): Promise<AIVisionResult<T>> {
     
     const startTime = Date.now();
@@ -76,34 +221,173 @@ export class AIVisionProcessor {
     logger.info({ file: path.basename(filePath), provider, model: options.model }, '🤖 AI Vision démarrage');
     
     try {
-      // 1. Extraction et optimisation des images
-      const { optimizedImages, optimizationMetrics, pageCount } = await this.processImages(filePath, options);
+      // 1. Sélection du schéma Zod
+      let { schema, schemaName, schemaVersion } = this.schemaSelector.selectSchema(options);
+      
+      // 2. Cache : résultat d'une extraction identique (même fichier, schéma, modèle et options)
+      const cacheConfig = options.pdfProcessor?.cache;
+      const cacheMode = options.cache ?? 'use';
+      const cacheKey = cacheConfig && cacheMode !== 'bypass' ? await this.getCacheKey(filePath, schema, options) : undefined;
+      
+      if (cacheConfig && cacheKey && cacheMode === 'use') {
+        const cached = await resultCache.get<AIVisionResult<T>>(cacheConfig, cacheKey);
+        if (cached) {
+          logger.info({ file: path.basename(filePath), key: cacheKey, storedAt: cached.storedAt }, '⚡ Résultat servi depuis le cache');
+          // Aucun appel au modèle : consommation nulle, celle de l'extraction d'origine reste consultable
+          const { usage: originalUsage, ...metadata } = cached.result.metadata;
+          return {
+            ...cached.result,
+            metadata: {
+              ...metadata,
+              processingTime: Date.now() - startTime,
+              requestCount: 0,
+              usage: summarizeUsage([], options.pdfProcessor?.pricing),
+              cache: { status: 'hit', key: cacheKey, storedAt: cached.storedAt, ...(originalUsage ? { originalUsage } : {}) }
+            }
+          };
+        }
+      }
+      
+      // 3. Classification du type de document (option autoClassify, sans schéma ni type imposé)
+      let classification: DocumentClassification | undefined;
+      const classificationUsage: ModelCallUsage[] = [];
       
-      // 2. Sélection du schéma Zod
-      const { schema, schemaName } = this.schemaSelector.selectSchema(options);
+      if (options.autoClassify && !this.schemaSelector.usesDefaultSchema(options)) {
+        logger.debug('Classification ignorée: schéma ou type de document imposé');
+      } else if (options.autoClassify) {
+        observer.onProgress?.({ stage: 'classifying' });
+        try {
+          const classified = await documentClassifier.classify(filePath, await detectInputType(filePath), options);
+          classification = classified.classification;
+          classificationUsage.push(classified.usage);
+        } catch (error: any) {
+          // L'extraction continue avec le schéma par défaut
+          logger.warn({ error: error.message }, '⚠️ Échec de la classification, schéma par défaut conservé');
+          classification = { documentType: UNKNOWN_DOCUMENT_TYPE, confidence: 0, applied: false, error: error.message };
+        }
+        
+        if (classification.applied) {
+          // Les options du type détecté (type de document, schéma) s'appliquent à toute la suite
+          options = { ...options, ...documentClassifier.get(classification.documentType)!.options };
+          ({ schema, schemaName, schemaVersion } = this.schemaSelector.selectSchema(options));
+        }
+      }
       
-      // 3. Génération avec AI SDK + validation Zod automatique
-      const result = await this.aiGenerator.generate(optimizedImages, schema, options);
+      // 4. Extraction de la couche texte et/ou des images optimisées selon le mode
+      const { optimizedImages, optimizationMetrics, pageCount, pageNumbers, pageTexts, mode, inputType } = await this.prepareInput(filePath, options, observer);
+      
+      // 5. Génération avec AI SDK + validation Zod automatique (document entier, par tuiles ou page par page)
+      options.abortSignal?.throwIfAborted();
+      const imagePages = this.getImagePages(optimizedImages, pageNumbers);
+      observer.onProgress?.({ stage: 'generating', imageCount: optimizedImages.length });
+      const ensemble = options.ensemble?.length
+        ? await this.generateByEnsemble(optimizedImages, pageNumbers, imagePages, pageTexts, schema, options)
+        : undefined;
+      let result = ensemble?.result ?? await this.generateResult(optimizedImages, pageNumbers, imagePages, pageTexts, schema, options, observer);
+      
+      // Appels suivants (correction, échantillons) : premier membre de l'ensemble
+      const followUpOptions = options.ensemble?.length ? { ...options, ...options.ensemble[0] } : options;
+      
+      // 6. Vérifications de cohérence (totaux, TVA, champs obligatoires) sur les données conformes au schéma
+      const validate = (object: any): ValidationWarning[] => options.consistencyChecks === false
+        ? []
+        : consistencyValidator.validate(object, schema, schemaName, {
+            tolerance: options.validationTolerance,
+            requiredFields: options.requiredFields
+          });
+      options.abortSignal?.throwIfAborted();
+      observer.onProgress?.({ stage: 'validating' });
+      let warnings = validate(result.object);
+      let corrections: CorrectionAttempt[] | undefined;
+      
+      // 7. Auto-correction : nouvelle tentative avec l'extraction précédente et ses incohérences
+      if (options.selfCorrect && warnings.length > 0) {
+        observer.onProgress?.({ stage: 'correcting' });
+        const correction = await this.selfCorrector.correct(result, warnings, {
+          generate: previous => this.generateResult(optimizedImages, pageNumbers, imagePages, pageTexts, schema, followUpOptions, {}, previous),
+          validate
+        }, followUpOptions);
+        
+        corrections = correction.attempts;
+        warnings = correction.warnings;
+        result = {
+          ...correction.result,
+          requestCount: result.requestCount + correction.requestCount,
+          usage: [...result.usage, ...correction.usage]
+        };
+      }
+      
+      // 8. Confiance par champ : logprobs, accord avec des extractions supplémentaires, incohérences
+      let scored: { confidence: ConfidenceMap; lowConfidenceFields: string[] } | undefined;
+      
+      if (options.confidence) {
+        // Les extractions des membres de l'ensemble servent d'échantillons
+        const samples: any[] = ensemble ? [...ensemble.objects] : [];
+        
+        for (let index = 0; index < (options.confidenceSamples || 0); index++) {
+          try {
+            const sample = await this.generateResult(optimizedImages, pageNumbers, imagePages, pageTexts, schema, followUpOptions);
+            samples.push(sample.object);
+            result = { ...result, requestCount: result.requestCount + sample.requestCount, usage: [...result.usage, ...sample.usage] };
+          } catch (error: any) {
+            logger.warn({ sample: index + 1, error: error.message }, '⚠️ Échec d\'une extraction de confiance, échantillon ignoré');
+          }
+        }
+        
+        scored = scoreFieldConfidence({
+          object: result.object,
+          logprobs: result.logprobs,
+          samples,
+          warnings,
+          threshold: options.confidenceThreshold
+        });
+      }
+      
+      // 9. Consommation de l'extraction, ajoutée aux compteurs cumulés
+      const usage = summarizeUsage([...classificationUsage, ...result.usage], options.pdfProcessor?.pricing);
+      usageTracker.record(usage);
       
       const processingTime = Date.now() - startTime;
       
-      logger.info({ processingTime, schemaName }, '✅ AI Vision terminé');
+      logger.info({ processingTime, schemaName, requestCount: result.requestCount, warningCount: warnings.length, totalTokens: usage.totalTokens, estimatedCost: usage.estimatedCost }, '✅ AI Vision terminé');
       
-      return {
+      const extraction: AIVisionResult<T> = {
         data: result.object as T,
         metadata: {
           pageCount,
+          pageNumbers,
+          inputType,
+          mode,
           processingTime,
-          provider,
+          provider: result.providerUsed,
           model: result.modelUsed,
           schemaUsed: schemaName,
-          optimizationMetrics
+          schemaVersion,
+          optimizationMetrics,
+          requestCount: result.requestCount + classificationUsage.length,
+          usage,
+          detectedDocumentType: classification,
+          pageSources: result.pageSources,
+          corrections,
+          fallbackAttempts: result.fallbackAttempts,
+          lowConfidenceFields: scored?.lowConfidenceFields,
+          ensemble: ensemble?.report
         },
+        grounding: result.grounding,
+        confidence: scored?.confidence,
         validation: {
-          success: true,
+          success: warnings.length === 0,
+          warnings
         }
       };
       
+      if (!cacheConfig || !cacheKey) {
+        return extraction;
+      }
+      
+      await resultCache.set(cacheConfig, cacheKey, extraction);
+      return { ...extraction, metadata: { ...extraction.metadata, cache: { status: cacheMode === 'refresh' ? 'refresh' : 'miss', key: cacheKey } } };
+      
     } catch (error: any) {
       logger.error({ 
         error: error.message || error.toString(), 
@@ -145,23 +429,462 @@ export class AIVisionProcessor {
     }
   }
 
+  /**
+   * Traite un fichier regroupant plusieurs documents (ex: lot de factures scanné en un seul PDF)
+   *
+   * Les limites entre documents sont détectées page par page, puis chaque sous-document est extrait
+   * séparément avec les mêmes options, limitées à ses pages.
+   */
+  async processDocuments<T = any>(
+    filePath: string,
+    options: AIVisionProcessingOptions
+  ): Promise<AIVisionSplitResult<T>> {
+    
+    const startTime = Date.now();
+    const inputType = await detectInputType(filePath);
+    
+    logger.info({ file: path.basename(filePath), pages: options.pages }, '✂️ Découpage en sous-documents démarrage');
+    
+    const { segments, usage: splitCalls } = await documentSplitter.split(filePath, inputType, options);
+    const splitUsage = summarizeUsage(splitCalls, options.pdfProcessor?.pricing);
+    if (splitCalls.length > 0) {
+      usageTracker.record(splitUsage);
+    }
+    
+    const documents: AIVisionDocumentResult<T>[] = [];
+    for (const segment of segments) {
+      options.abortSignal?.throwIfAborted();
+      // Pages du sous-document uniquement (PDF ou image multi-pages)
+      const result = await this.process<T>(filePath, { ...options, pages: formatPageSelection(segment.pages) });
+      documents.push({ ...segment, result });
+    }
+    
+    const usage = combineUsage([splitUsage, ...documents.flatMap(document => document.result.metadata.usage ?? [])], options.pdfProcessor?.pricing);
+    const processingTime = Date.now() - startTime;
+    
+    logger.info({ processingTime, documentCount: documents.length, requestCount: usage.requestCount, estimatedCost: usage.estimatedCost }, '✅ Sous-documents extraits');
+    
+    return {
+      documents,
+      metadata: {
+        pageCount: segments.reduce((count, segment) => count + segment.pages.length, 0),
+        processingTime,
+        requestCount: usage.requestCount,
+        usage
+      }
+    };
+  }
+
+  /**
+   * Traitement en flux : avancement des étapes, objets partiels puis résultat final
+   */
+  processStream<T = any>(
+    filePath: string,
+    options: AIVisionProcessingOptions
+  ): AsyncGenerator<ExtractionStreamEvent<T, AIVisionResult<T>>> {
+    return observeAsStream<T, AIVisionResult<T>>(observer => this.process<T>(filePath, options, observer));
+  }
+
+  /**
+   * Clé de cache : contenu du fichier, schéma, provider/modèle et options qui influent sur le résultat
+   * (la configuration des providers, clés API comprises, n'en fait pas partie)
+   */
+  private async getCacheKey(filePath: string, schema: z.ZodSchema, options: AIVisionProcessingOptions): Promise<string> {
+    const provider = options.provider || 'scaleway';
+    
+    return computeCacheKey({
+      fileHash: await hashFile(filePath),
+      schemaHash: hashSchema(schema),
+      provider,
+      model: providerRegistry.resolveModel(provider, options.model, options.pdfProcessor),
+      options: {
+        // Rendu et préparation des images
+        mode: options.mode,
+        dpi: options.dpi,
+        pages: options.pages,
+        autoOrient: options.autoOrient,
+        cropMode: options.cropMode,
+        cropSize: options.cropSize,
+        tiling: options.tiling,
+        tileOverlap: options.tileOverlap,
+        enhanceContrast: options.enhanceContrast,
+        targetQuality: options.targetQuality,
+        // Extraction et vérifications
+        query: options.query,
+        tablesOnly: options.tablesOnly,
+        documentType: options.documentType,
+        pagesPerRequest: options.pagesPerRequest,
+        grounding: options.grounding,
+        consistencyChecks: options.consistencyChecks,
+        validationTolerance: options.validationTolerance,
+        requiredFields: options.requiredFields,
+        selfCorrect: options.selfCorrect,
+        maxCorrectionRounds: options.maxCorrectionRounds,
+        confidence: options.confidence,
+        confidenceSamples: options.confidenceSamples,
+        confidenceThreshold: options.confidenceThreshold,
+        ensemble: options.ensemble?.map(member => ({
+          provider: member.provider,
+          model: providerRegistry.resolveModel(member.provider, member.model, options.pdfProcessor)
+        })),
+        ensembleStrategy: options.ensembleStrategy,
+        autoClassify: options.autoClassify,
+        classifier: options.autoClassify ? {
+          provider: options.classifier?.provider,
+          model: options.classifier?.model,
+          minConfidence: options.classifier?.minConfidence
+        } : undefined
+      }
+    });
+  }
+
+  /**
+   * Extraction du document entier, par tuiles ou page par page selon les images et les options
+   *
+   * `correction` (auto-correction) est transmis à chaque appel, quel que soit le découpage.
+   */
+  private async generateResult(
+    images: ProcessedVisionImage[],
+    pageNumbers: number[],
+    imagePages: number[],
+    pageTexts: PdfPageText[] | undefined,
+    schema: z.ZodSchema,
+    options: AIVisionProcessingOptions,
+    observer: ProcessingObserver = {},
+    correction?: GenerationContext['correction']
+  ): Promise<GenerationResult> {
+    if (images.some(image => image.tile)) {
+      return this.generateByTiles(images, pageNumbers, pageTexts, schema, options, observer, correction);
+    }
+    if (this.shouldGenerateByPages(options, pageNumbers.length)) {
+      return this.generateByPages(images, pageNumbers, pageTexts, schema, options, observer, correction);
+    }
+    // Un seul appel : objets partiels transmis à l'observateur
+    const result = await this.aiGenerator.generate(images, schema, options, { pageTexts, imagePages, onPartial: observer.onPartial, correction });
+    return { ...result, requestCount: 1, usage: [result.usage], pageSources: undefined };
+  }
+
+  /**
+   * Extraction par ensemble : même extraction en parallèle sur chaque membre, puis vote champ par champ
+   */
+  private async generateByEnsemble(
+    images: ProcessedVisionImage[],
+    pageNumbers: number[],
+    imagePages: number[],
+    pageTexts: PdfPageText[] | undefined,
+    schema: z.ZodSchema,
+    options: AIVisionProcessingOptions
+  ): Promise<{
+    result: GenerationResult;
+    objects: any[];
+    report: { strategy: EnsembleStrategy; members: EnsembleMemberReport[]; disagreements: EnsembleDisagreement[] };
+  }> {
+    
+    const members = options.ensemble!;
+    const strategy = options.ensembleStrategy || 'majority';
+    logger.info({ members: members.map(member => member.model ? `${member.provider}/${member.model}` : member.provider), strategy }, '🗳️ Extraction par ensemble');
+    
+    // Providers différents : appels en parallèle, sans bascule pour garder des avis distincts
+    const outcomes = await Promise.all(members.map(async member => {
+      const label = member.model ? `${member.provider}/${member.model}` : member.provider;
+      const startTime = Date.now();
+      try {
+        const result = await this.generateResult(images, pageNumbers, imagePages, pageTexts, schema, { ...options, provider: member.provider, model: member.model, fallback: false });
+        return { member, label, result, processingTime: Date.now() - startTime };
+      } catch (error: any) {
+        logger.warn({ member: label, error: error.message }, '⚠️ Échec d\'un membre de l\'ensemble');
+        return { member, label, error: error.message as string, processingTime: Date.now() - startTime };
+      }
+    }));
+    
+    const succeeded = outcomes.filter(outcome => outcome.result);
+    if (succeeded.length === 0) {
+      throw new Error(`Échec de tous les membres de l'ensemble: ${outcomes.map(outcome => `${outcome.label}: ${outcome.error}`).join('; ')}`);
+    }
+    
+    const vote = this.ensembleVoter.vote(succeeded.map(outcome => ({
+      member: outcome.label,
+      object: outcome.result!.object,
+      grounding: outcome.result!.grounding,
+      logprobs: outcome.result!.logprobs
+    })), strategy);
+    
+    return {
+      result: {
+        // Le résultat réconcilié doit toujours respecter le schéma
+        object: schema.parse(vote.object),
+        modelUsed: succeeded.map(outcome => outcome.result!.modelUsed).join(', '),
+        providerUsed: succeeded.map(outcome => outcome.result!.providerUsed).join(', '),
+        requestCount: succeeded.reduce((sum, outcome) => sum + outcome.result!.requestCount, 0),
+        usage: succeeded.flatMap(outcome => outcome.result!.usage),
+        grounding: vote.grounding,
+        logprobs: vote.logprobs
+      },
+      objects: succeeded.map(outcome => outcome.result!.object),
+      report: {
+        strategy,
+        members: outcomes.map(outcome => ({
+          member: outcome.label,
+          provider: outcome.member.provider,
+          model: outcome.result?.modelUsed || outcome.member.model || '',
+          success: !!outcome.result,
+          processingTime: outcome.processingTime,
+          ...(outcome.error ? { error: outcome.error } : {})
+        })),
+        disagreements: vote.disagreements
+      }
+    };
+  }
+
+  /**
+   * Vérifie si l'extraction doit être découpée en plusieurs appels
+   */
+  private shouldGenerateByPages(options: AIVisionProcessingOptions, pageCount: number): boolean {
+    return !!options.pagesPerRequest && options.pagesPerRequest > 0 && pageCount > options.pagesPerRequest;
+  }
+
+  /**
+   * Extraction page par page : un appel au modèle par groupe de pages puis fusion des résultats
+   */
+  private async generateByPages(
+    images: ProcessedVisionImage[],
+    pageNumbers: number[],
+    pageTexts: PdfPageText[] | undefined,
+    schema: z.ZodSchema,
+    options: AIVisionProcessingOptions,
+    observer: ProcessingObserver = {},
+    correction?: GenerationContext['correction']
+  ): Promise<GenerationResult> {
+    
+    const pagesPerRequest = options.pagesPerRequest!;
+    const total = Math.ceil(pageNumbers.length / pagesPerRequest);
+    const partials: PartialExtraction[] = [];
+    let modelUsed = '';
+    let providerUsed: string = options.provider || 'scaleway';
+    const fallbackAttempts: FallbackAttempt[] = [];
+    const usage: ModelCallUsage[] = [];
+    
+    logger.info({ pageCount: pageNumbers.length, pagesPerRequest }, '📑 Extraction page par page');
+    
+    // Appels séquentiels pour ne pas saturer les quotas du provider
+    for (let start = 0; start < pageNumbers.length; start += pagesPerRequest) {
+      const chunk = images.slice(start, start + pagesPerRequest);
+      const pages = pageNumbers.slice(start, start + pagesPerRequest);
+      
+      options.abortSignal?.throwIfAborted();
+      logger.debug({ pages }, '📄 Génération pour le groupe de pages');
+      
+      const result = await this.aiGenerator.generate(chunk, schema, options, {
+        pages,
+        // Le nombre total de pages n'est connu que sans sélection de pages
+        totalPages: options.pages ? undefined : pageNumbers.length,
+        pageTexts: pageTexts?.filter(pageText => pages.includes(pageText.page)),
+        correction
+      });
+      
+      modelUsed = result.modelUsed;
+      providerUsed = result.providerUsed;
+      fallbackAttempts.push(...(result.fallbackAttempts || []));
+      usage.push(result.usage);
+      partials.push({ pages, object: result.object, grounding: result.grounding, logprobs: result.logprobs });
+      observer.onProgress?.({ stage: 'generating', completed: partials.length, total });
+    }
+    
+    const merged = this.resultMerger.merge(partials);
+    
+    // Le résultat fusionné doit toujours respecter le schéma
+    const object = schema.parse(merged.object);
+    
+    return {
+      object,
+      modelUsed,
+      providerUsed,
+      ...(fallbackAttempts.length > 0 ? { fallbackAttempts } : {}),
+      requestCount: partials.length,
+      usage,
+      pageSources: merged.pageSources,
+      grounding: merged.grounding,
+      logprobs: merged.logprobs
+    };
+  }
+
+  /**
+   * Extraction par tuiles : un appel au modèle par tuile, fusion des tuiles de chaque page
+   * (doublons de la zone de recouvrement ignorés) puis fusion des pages
+   */
+  private async generateByTiles(
+    images: ProcessedVisionImage[],
+    pageNumbers: number[],
+    pageTexts: PdfPageText[] | undefined,
+    schema: z.ZodSchema,
+    options: AIVisionProcessingOptions,
+    observer: ProcessingObserver = {},
+    correction?: GenerationContext['correction']
+  ): Promise<GenerationResult> {
+    
+    const partials: PartialExtraction[] = [];
+    let modelUsed = '';
+    let providerUsed: string = options.provider || 'scaleway';
+    const fallbackAttempts: FallbackAttempt[] = [];
+    const usage: ModelCallUsage[] = [];
+    let requestCount = 0;
+    
+    const groups = this.groupImagesByPage(images);
+    logger.info({ pageCount: groups.length, imageCount: images.length }, '🧱 Extraction par tuiles');
+    
+    // Appels séquentiels pour ne pas saturer les quotas du provider
+    for (const [index, group] of groups.entries()) {
+      const page = pageNumbers[index] ?? index + 1;
+      const pages = [page];
+      const texts = pageTexts?.filter(pageText => pageText.page === page);
+      const tileResults: PartialExtraction[] = [];
+      
+      for (const image of group) {
+        options.abortSignal?.throwIfAborted();
+        logger.debug({ page, tile: image.tile ? `${image.tile.row + 1}x${image.tile.column + 1}` : undefined }, '🧩 Génération pour la tuile');
+        
+        const result = await this.aiGenerator.generate([image], schema, options, {
+          pages,
+          totalPages: options.pages ? undefined : pageNumbers.length,
+          pageTexts: texts,
+          tile: image.tile,
+          correction
+        });
+        
+        modelUsed = result.modelUsed;
+        providerUsed = result.providerUsed;
+        fallbackAttempts.push(...(result.fallbackAttempts || []));
+        usage.push(result.usage);
+        requestCount++;
+        observer.onProgress?.({ stage: 'generating', completed: requestCount, total: images.length });
+        tileResults.push({ pages, object: result.object, grounding: result.grounding, logprobs: result.logprobs });
+      }
+      
+      const pageResult = this.resultMerger.merge(tileResults, { dedupe: true });
+      partials.push({ pages, object: pageResult.object, grounding: pageResult.grounding, logprobs: pageResult.logprobs });
+    }
+    
+    const merged = this.resultMerger.merge(partials);
+    
+    // Le résultat fusionné doit toujours respecter le schéma
+    const object = schema.parse(merged.object);
+    
+    return {
+      object,
+      modelUsed,
+      providerUsed,
+      ...(fallbackAttempts.length > 0 ? { fallbackAttempts } : {}),
+      requestCount,
+      usage,
+      pageSources: merged.pageSources,
+      grounding: merged.grounding,
+      logprobs: merged.logprobs
+    };
+  }
+
+  /**
+   * Numéro de page de chaque image (plusieurs images par page avec le découpage en tuiles)
+   */
+  private getImagePages(images: ProcessedVisionImage[], pageNumbers: number[]): number[] {
+    return this.groupImagesByPage(images).flatMap((group, index) => group.map(() => pageNumbers[index] ?? index + 1));
+  }
+
+  /**
+   * Regroupe les images par page : les tuiles consécutives d'une même page forment un groupe
+   */
+  private groupImagesByPage(images: ProcessedVisionImage[]): ProcessedVisionImage[][] {
+    const groups: ProcessedVisionImage[][] = [];
+    
+    for (const image of images) {
+      const current = groups[groups.length - 1];
+      const previousTile = current?.[current.length - 1]?.tile;
+      
+      if (current && image.tile && previousTile && previousTile.sourceIndex === image.tile.sourceIndex) {
+        current.push(image);
+      } else {
+        groups.push([image]);
+      }
+    }
+    
+    return groups;
+  }
+
+  /**
+   * Prépare les entrées du modèle selon le mode : couche texte, images optimisées ou les deux
+   *
+   * Sans couche texte exploitable (PDF scanné, image), les modes 'text' et 'hybrid' repassent en 'vision'.
+   */
+  private async prepareInput(
+    filePath: string,
+    options: AIVisionProcessingOptions,
+    observer: ProcessingObserver = {}
+  ): Promise<{
+    optimizedImages: ProcessedVisionImage[];
+    optimizationMetrics: { originalSizeMB: number; optimizedSizeMB: number; compressionRatio: number };
+    pageCount: number;
+    pageNumbers: number[];
+    pageTexts?: PdfPageText[];
+    mode: ExtractionMode;
+    inputType: InputFileType;
+  }> {
+    
+    observer.onProgress?.({ stage: 'rendering' });
+    const inputType = await detectInputType(filePath);
+    let mode: ExtractionMode = options.mode || 'vision';
+    let pageTexts: PdfPageText[] | undefined;
+    
+    if (inputType === 'image' && mode !== 'vision') {
+      logger.warn({ requestedMode: mode }, '⚠️ Image sans couche texte, bascule en mode vision');
+      mode = 'vision';
+    }
+    
+    if (mode !== 'vision') {
+      pageTexts = await extractTextFromPDF(filePath, options.pages);
+      
+      if (!hasUsableTextLayer(pageTexts)) {
+        logger.warn({ requestedMode: mode }, '⚠️ Pas de couche texte exploitable, bascule en mode vision');
+        mode = 'vision';
+        pageTexts = undefined;
+      }
+    }
+    
+    if (mode === 'text') {
+      return {
+        optimizedImages: [],
+        optimizationMetrics: { originalSizeMB: 0, optimizedSizeMB: 0, compressionRatio: 1 },
+        pageCount: pageTexts!.length,
+        pageNumbers: pageTexts!.map(pageText => pageText.page),
+        pageTexts,
+        mode,
+        inputType
+      };
+    }
+    
+    const imagesResult = await this.processImages(filePath, options, inputType, observer);
+    return { ...imagesResult, pageTexts, mode, inputType };
+  }
+
   /**
    * Traitement complet des images (extraction + optimisation)
    */
   private async processImages(
     filePath: string, 
-    options: AIVisionProcessingOptions
+    options: AIVisionProcessingOptions,
+    inputType: InputFileType,
+    observer: ProcessingObserver = {}
   ): Promise<{
     optimizedImages: ProcessedVisionImage[];
     optimizationMetrics: { originalSizeMB: number; optimizedSizeMB: number; compressionRatio: number };
     pageCount: number;
+    pageNumbers: number[];
   }> {
     
     if (this.workerManager.isEnabled()) {
       logger.debug('🏭 Mode Workers activé');
       
-      // Extraction PDF → Images (Worker PDF)
-      const extractResult = await this.workerManager.extractImages(filePath, options);
+      // Extraction PDF → Images (Worker PDF), images utilisées directement
+      const extractResult = await this.workerManager.extractImages(filePath, options, inputType);
+      observer.onProgress?.({ stage: 'optimizing', imageCount: extractResult.imagePaths.length });
       
       // Optimisation Sharp pour Vision LLM (Worker Vision)
       const optimizationResult = await this.workerManager.optimizeImages(extractResult.imagePaths, options);
@@ -173,16 +896,20 @@ export class AIVisionProcessor {
           optimizedSizeMB: (optimizationResult.totalOptimizedSize || 0) / (1024 * 1024),
           compressionRatio: optimizationResult.averageCompressionRatio || 1
         },
-        pageCount: extractResult.pageCount
+        pageCount: extractResult.pageCount,
+        pageNumbers: extractResult.pageNumbers
       };
     } else {
       logger.debug('⚡ Mode Direct activé');
-      const directResult = await this.imageOptimizer.processDirect(filePath, options);
+      const directResult = await this.imageOptimizer.processDirect(filePath, options, inputType, imageCount => {
+        observer.onProgress?.({ stage: 'optimizing', imageCount });
+      });
       
       return {
         optimizedImages: directResult.optimizedImages,
         optimizationMetrics: directResult.optimizationMetrics,
-        pageCount: directResult.optimizedImages.length
+        pageCount: directResult.pageNumbers.length,
+        pageNumbers: directResult.pageNumbers
       };
     }
   }
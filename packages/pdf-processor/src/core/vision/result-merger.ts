@@ -0,0 +1,250 @@
+import { createModuleLogger } from "../../utils/logger";
+import { indexPath, isPlainObject, joinPath } from './json-path';
+import type { GroundingMap } from './grounding';
+
+const logger = createModuleLogger('result-merger');
+
+/**
+ * Clés dont les valeurs des dernières pages priment (totaux en fin de document)
+ */
+const LAST_PAGE_KEYS = new Set(['financial_totals', 'totals', 'total']);
+
+/**
+ * Résultat partiel produit par un appel au modèle sur un groupe de pages
+ */
+export interface PartialExtraction {
+  /** Numéros des pages couvertes (base 1) */
+  pages: number[];
+  /** Objet extrait pour ces pages */
+  object: any;
+  /** Positions des valeurs extraites (mode grounding) */
+  grounding?: GroundingMap;
+  /** Probabilité de chaque valeur d'après les logprobs du modèle (scores de confiance) */
+  logprobs?: Record<string, number>;
+}
+
+/**
+ * Options de fusion
+ */
+export interface MergeOptions {
+  /**
+   * Ignore les éléments de tableau identiques à un élément d'un résultat précédent
+   * (tuiles qui se recouvrent : les lignes de la zone commune sont extraites deux fois)
+   */
+  dedupe?: boolean;
+}
+
+/**
+ * Résultat de la fusion des extractions partielles
+ */
+export interface MergedExtraction<T = any> {
+  object: T;
+  /** Pages d'origine de chaque élément de tableau, par chemin JSON (ex: "line_items[3]") */
+  pageSources: Record<string, number[]>;
+  /** Positions des valeurs, chemins recalculés sur l'objet fusionné (mode grounding) */
+  grounding?: GroundingMap;
+  /** Probabilités des valeurs, chemins recalculés sur l'objet fusionné */
+  logprobs?: Record<string, number>;
+}
+
+/**
+ * État de la fusion d'un résultat partiel
+ */
+interface MergeState {
+  pages: number[];
+  partialIndex: number;
+  pageSources: Record<string, number[]>;
+  /** Résultat partiel d'où provient chaque valeur simple retenue */
+  valueOrigins: Record<string, number>;
+  /** Chemins des éléments de tableau du résultat partiel vers le résultat fusionné (null : écarté) */
+  pathMap: Map<string, string | null>;
+  options: MergeOptions;
+}
+
+/**
+ * Fusionne les objets partiels d'une extraction page par page en un seul objet
+ *
+ * - tableaux concaténés (lignes de facture, tableaux détectés...)
+ * - un tableau détecté qui se poursuit sur le groupe suivant est prolongé plutôt que dupliqué
+ * - valeurs simples : la première valeur non nulle est conservée, sauf pour les totaux
+ *   où la dernière page fait foi
+ * - avec `dedupe`, les doublons issus de la zone de recouvrement de deux tuiles sont ignorés
+ * - les positions (grounding) et probabilités suivent les éléments dans le résultat fusionné
+ */
+export class ResultMerger {
+
+  merge<T = any>(partials: PartialExtraction[], options: MergeOptions = {}): MergedExtraction<T> {
+    const pageSources: Record<string, number[]> = {};
+    const valueOrigins: Record<string, number> = {};
+    const hasGrounding = partials.some(partial => partial.grounding);
+    const hasLogprobs = partials.some(partial => partial.logprobs);
+    const grounding: GroundingMap = {};
+    const logprobs: Record<string, number> = {};
+    let merged: any = undefined;
+
+    partials.forEach((partial, partialIndex) => {
+      const state: MergeState = { pages: partial.pages, partialIndex, pageSources, valueOrigins, pathMap: new Map(), options };
+      merged = this.mergeValue(merged, partial.object, '', false, state);
+
+      if (partial.grounding) {
+        this.mergeFieldMap(grounding, partial.grounding, state);
+      }
+      if (partial.logprobs) {
+        this.mergeFieldMap(logprobs, partial.logprobs, state);
+      }
+    });
+
+    logger.debug({ partialCount: partials.length, trackedItems: Object.keys(pageSources).length }, '🧩 Résultats partiels fusionnés');
+
+    return {
+      object: merged as T,
+      pageSources,
+      ...(hasGrounding ? { grounding } : {}),
+      ...(hasLogprobs ? { logprobs } : {})
+    };
+  }
+
+  private mergeValue(target: any, source: any, path: string, lastPageWins: boolean, state: MergeState): any {
+    if (source === undefined || source === null) {
+      return target ?? source;
+    }
+
+    if (Array.isArray(source)) {
+      const base = Array.isArray(target) ? [...target] : [];
+      return this.mergeArray(base, source, path, state);
+    }
+
+    if (isPlainObject(source)) {
+      const base: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+      for (const [key, value] of Object.entries(source)) {
+        base[key] = this.mergeValue(
+          base[key],
+          value,
+          joinPath(path, key),
+          lastPageWins || LAST_PAGE_KEYS.has(key),
+          state
+        );
+      }
+      return base;
+    }
+
+    if (target === undefined || target === null || lastPageWins) {
+      state.valueOrigins[path] = state.partialIndex;
+      return source;
+    }
+    return target;
+  }
+
+  private mergeArray(base: any[], source: any[], path: string, state: MergeState): any[] {
+    const { pages, pageSources, pathMap, options } = state;
+
+    // Éléments des résultats précédents uniquement : les doublons d'un même résultat sont légitimes
+    const previousItems = options.dedupe ? new Set(base.map(item => JSON.stringify(item))) : null;
+
+    source.forEach((item, i) => {
+      const lastIndex = base.length - 1;
+      const sourcePath = indexPath(path, i);
+
+      // Tableau coupé entre deux groupes de pages : on prolonge ses lignes
+      if (i === 0 && lastIndex >= 0 && this.isTableContinuation(base[lastIndex], item)) {
+        const previous = base[lastIndex];
+        const key = indexPath(path, lastIndex);
+        const previousRows = new Set(previous.rows.map((row: any) => JSON.stringify(row)));
+        const rows: any[] = [];
+
+        // Le nom et les en-têtes restent ceux du tableau précédent, seules les lignes sont reprises
+        pathMap.set(sourcePath, null);
+        item.rows.forEach((row: any, rowIndex: number) => {
+          const rowPath = indexPath(joinPath(sourcePath, 'rows'), rowIndex);
+          if (options.dedupe && previousRows.has(JSON.stringify(row))) {
+            pathMap.set(rowPath, null);
+            return;
+          }
+          pathMap.set(rowPath, indexPath(joinPath(key, 'rows'), previous.rows.length + rows.length));
+          rows.push(row);
+        });
+
+        base[lastIndex] = { ...previous, rows: [...previous.rows, ...rows] };
+        pageSources[key] = Array.from(new Set([...(pageSources[key] || []), ...pages]));
+        return;
+      }
+
+      if (previousItems?.has(JSON.stringify(item))) {
+        pathMap.set(sourcePath, null);
+        return;
+      }
+
+      base.push(item);
+      const targetPath = indexPath(path, base.length - 1);
+      pathMap.set(sourcePath, targetPath);
+      pageSources[targetPath] = [...pages];
+    });
+
+    return base;
+  }
+
+  /**
+   * Reporte une information par champ (position, probabilité) d'un résultat partiel sur les chemins
+   * du résultat fusionné
+   *
+   * Une valeur simple n'est renseignée que si elle provient de ce résultat partiel.
+   */
+  private mergeFieldMap<V>(target: Record<string, V>, partialMap: Record<string, V>, state: MergeState): void {
+    for (const [path, field] of Object.entries(partialMap)) {
+      const translated = this.translatePath(path, state.pathMap);
+      if (translated === null) continue;
+
+      const fromArrayItem = translated !== path || this.isUnderMappedItem(path, state.pathMap);
+      if (fromArrayItem || state.valueOrigins[translated] === state.partialIndex) {
+        target[translated] = field;
+      }
+    }
+  }
+
+  /**
+   * Applique la correspondance d'index la plus précise (préfixe le plus long) à un chemin
+   *
+   * @returns Le chemin dans le résultat fusionné, ou null si l'élément a été écarté
+   */
+  private translatePath(path: string, pathMap: Map<string, string | null>): string | null {
+    let bestPrefix = '';
+    let bestTarget: string | null = path;
+
+    for (const [prefix, target] of pathMap) {
+      if (prefix.length > bestPrefix.length && this.isPathPrefix(prefix, path)) {
+        bestPrefix = prefix;
+        bestTarget = target;
+      }
+    }
+
+    if (!bestPrefix) return path;
+    return bestTarget === null ? null : bestTarget + path.slice(bestPrefix.length);
+  }
+
+  private isUnderMappedItem(path: string, pathMap: Map<string, string | null>): boolean {
+    for (const prefix of pathMap.keys()) {
+      if (this.isPathPrefix(prefix, path)) return true;
+    }
+    return false;
+  }
+
+  private isPathPrefix(prefix: string, path: string): boolean {
+    return path === prefix || path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`);
+  }
+
+  /**
+   * Un tableau est la suite du précédent s'il porte le même nom ou les mêmes en-têtes
+   */
+  private isTableContinuation(previous: any, next: any): boolean {
+    if (!isPlainObject(previous) || !isPlainObject(next)) return false;
+    if (!Array.isArray(previous.rows) || !Array.isArray(next.rows)) return false;
+
+    if (previous.table_name && previous.table_name === next.table_name) {
+      return true;
+    }
+
+    const previousHeaders = Array.isArray(previous.headers) ? previous.headers : [];
+    const nextHeaders = Array.isArray(next.headers) ? next.headers : [];
+    return previousHeaders.length > 0 && JSON.stringify(previousHeaders) === JSON.stringify(nextHeaders);
+  }
+}
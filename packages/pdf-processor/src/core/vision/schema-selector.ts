@@ -3,7 +3,8 @@ import { createModuleLogger } from "../../utils/logger";
 import { 
   ComprehensiveInvoiceSchema, 
   TablesOnlySchema, 
-  SchemaFactory 
+  SchemaFactory,
+  schemaRegistry
 } from "../schemas";
 import type { AIVisionProcessingOptions } from './processor';
 
@@ -20,6 +21,8 @@ export class SchemaSelector {
   selectSchema(options: AIVisionProcessingOptions): { 
     schema: z.ZodSchema; 
     schemaName: string; 
+    /** Version du schéma du registre (type de document enregistré) */
+    schemaVersion?: string;
   } {
     
     // 1. Schéma personnalisé fourni
@@ -34,22 +37,22 @@ export class SchemaSelector {
       return { schema: TablesOnlySchema, schemaName: 'tables-only' };
     }
     
-    // 3. Type de document spécifique
+    // 3. Type de document : schéma du registre ('nom' ou 'nom@version')
     if (options.documentType) {
       logger.debug({ documentType: options.documentType }, 'Sélection par type de document');
+      const registered = schemaRegistry.find(options.documentType);
+      if (registered) {
+        return { schema: registered.schema, schemaName: registered.name, schemaVersion: registered.version };
+      }
       const schema = SchemaFactory.getSchemaForDocumentType(options.documentType);
       return { schema, schemaName: options.documentType };
     }
     
-    // 4. Query JSON personnalisée (conversion vers Zod)
-    if (options.query && options.query !== '*' && this.isValidJSON(options.query)) {
-      try {
-        logger.debug('Conversion JSON Schema → Zod');
-        const schema = SchemaFactory.createFromJSON(options.query);
-        return { schema, schemaName: 'custom-json' };
-      } catch (error) {
-        logger.warn('⚠️ Échec conversion JSON → Zod, utilisation schéma complet');
-      }
+    // 4. Query JSON personnalisée (conversion vers Zod, erreur si un mot-clé n'est pas pris en charge)
+    if (options.query && options.query.trim().startsWith('{')) {
+      logger.debug('Conversion JSON Schema → Zod');
+      const schema = SchemaFactory.createFromJSON(options.query);
+      return { schema, schemaName: 'custom-json' };
     }
     
     // 5. Mode découverte par défaut (comme "*" de Sparrow)
@@ -57,12 +60,13 @@ export class SchemaSelector {
     return { schema: ComprehensiveInvoiceSchema, schemaName: 'comprehensive' };
   }
 
-  private isValidJSON(str: string): boolean {
-    try {
-      JSON.parse(str);
-      return true;
-    } catch {
-      return false;
-    }
+  /**
+   * Vrai si aucun schéma, type de document ni query n'est imposé (schéma par défaut ou choisi par classification)
+   */
+  usesDefaultSchema(options: AIVisionProcessingOptions): boolean {
+    return !options.customSchema
+      && !options.tablesOnly
+      && !options.documentType
+      && !(options.query && options.query !== '*');
   }
-}
\ No newline at end of file
+}
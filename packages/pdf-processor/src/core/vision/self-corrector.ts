@@ -0,0 +1,128 @@
+import { createModuleLogger } from "../../utils/logger";
+import type { ValidationWarning } from '../validation';
+import type { GenerationContext } from './ai-generator';
+import type { GroundingMap } from './grounding';
+import type { AIVisionProcessingOptions } from './processor';
+import type { ModelCallUsage } from './usage';
+
+const logger = createModuleLogger('self-corrector');
+
+/**
+ * Nombre de tentatives de correction par défaut
+ */
+export const DEFAULT_MAX_CORRECTION_ROUNDS = 2;
+
+/**
+ * Tentative de correction enregistrée dans les métadonnées du résultat
+ */
+export interface CorrectionAttempt {
+  /** Numéro de la tentative (base 1) */
+  round: number;
+  /** Incohérences transmises au modèle */
+  warnings: ValidationWarning[];
+  /** Incohérences restantes dans la réponse corrigée */
+  remainingWarnings: ValidationWarning[];
+  /** Réponse retenue (moins d'incohérences que le meilleur résultat précédent) */
+  accepted: boolean;
+  processingTime: number;
+  /** Erreur de génération, la correction s'arrête alors */
+  error?: string;
+}
+
+/**
+ * Résultat d'extraction pouvant être corrigé
+ */
+export interface CorrectableResult {
+  object: any;
+  modelUsed: string;
+  providerUsed?: string;
+  grounding?: GroundingMap;
+  logprobs?: Record<string, number>;
+  pageSources?: Record<string, number[]>;
+}
+
+/**
+ * Réponse d'une tentative de correction, éventuellement issue de plusieurs appels au modèle
+ */
+export interface CorrectedResult extends CorrectableResult {
+  providerUsed: string;
+  requestCount: number;
+  usage: ModelCallUsage[];
+}
+
+/**
+ * Génération et vérifications de l'extraction à réutiliser pour la correction
+ */
+export interface CorrectionInput {
+  /** Nouvelle extraction avec le contexte de correction, découpée comme l'extraction initiale */
+  generate: (correction: NonNullable<GenerationContext['correction']>) => Promise<CorrectedResult>;
+  /** Vérifications de cohérence appliquées à chaque réponse */
+  validate: (object: any) => ValidationWarning[];
+}
+
+/**
+ * Boucle d'auto-correction : renvoie au modèle son extraction et les incohérences détectées
+ *
+ * Chaque tentative reprend le découpage de l'extraction initiale (groupes de pages, tuiles).
+ * La réponse avec le moins d'incohérences est conservée.
+ */
+export class SelfCorrector {
+  async correct<R extends CorrectableResult>(
+    result: R,
+    warnings: ValidationWarning[],
+    input: CorrectionInput,
+    options: AIVisionProcessingOptions
+  ): Promise<{ result: R; warnings: ValidationWarning[]; attempts: CorrectionAttempt[]; requestCount: number; usage: ModelCallUsage[] }> {
+    
+    const maxRounds = options.maxCorrectionRounds ?? DEFAULT_MAX_CORRECTION_ROUNDS;
+    const attempts: CorrectionAttempt[] = [];
+    // Consommation de toutes les tentatives, retenues ou non
+    const usage: ModelCallUsage[] = [];
+    let requestCount = 0;
+    let best = { result, warnings };
+    
+    for (let round = 1; round <= maxRounds && best.warnings.length > 0; round++) {
+      const startTime = Date.now();
+      logger.info({ round, warningCount: best.warnings.length }, '🔁 Auto-correction de l\'extraction');
+      
+      try {
+        const corrected = await input.generate({ previous: best.result.object, warnings: best.warnings });
+        
+        requestCount += corrected.requestCount;
+        usage.push(...corrected.usage);
+        const remainingWarnings = input.validate(corrected.object);
+        const accepted = remainingWarnings.length < best.warnings.length;
+        
+        attempts.push({
+          round,
+          warnings: best.warnings,
+          remainingWarnings,
+          accepted,
+          processingTime: Date.now() - startTime
+        });
+        
+        if (accepted) {
+          best = {
+            result: { ...best.result, object: corrected.object, modelUsed: corrected.modelUsed, providerUsed: corrected.providerUsed, grounding: corrected.grounding, logprobs: corrected.logprobs, pageSources: corrected.pageSources },
+            warnings: remainingWarnings
+          };
+        }
+      } catch (error: any) {
+        logger.warn({ round, error: error.message }, '⚠️ Échec de l\'auto-correction, résultat précédent conservé');
+        attempts.push({
+          round,
+          warnings: best.warnings,
+          remainingWarnings: best.warnings,
+          accepted: false,
+          processingTime: Date.now() - startTime,
+          error: error.message
+        });
+        break;
+      }
+    }
+    
+    logger.info({ rounds: attempts.length, remainingWarnings: best.warnings.length }, '✅ Auto-correction terminée');
+    
+    return { result: best.result, warnings: best.warnings, attempts, requestCount, usage };
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Étape du traitement signalée pendant une extraction
+ * - 'classifying' : détection du type de document (option autoClassify)
+ * - 'rendering' : conversion du PDF en images ou lecture de la couche texte
+ * - 'optimizing' : optimisation Sharp des images
+ * - 'generating' : appels au modèle
+ * - 'validating' : vérifications de cohérence
+ * - 'correcting' : auto-correction (option selfCorrect)
+ */
+export type ProcessingStage = 'classifying' | 'rendering' | 'optimizing' | 'generating' | 'validating' | 'correcting';
+
+/**
+ * Avancement d'une étape
+ */
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  /** Nombre d'images à traiter ou envoyées au modèle */
+  imageCount?: number;
+  /** Appels au modèle terminés (extraction page par page ou par tuiles) */
+  completed?: number;
+  /** Appels au modèle prévus (extraction page par page ou par tuiles) */
+  total?: number;
+}
+
+/**
+ * Objet partiel reçu pendant la génération : toutes les propriétés peuvent encore manquer
+ */
+export type PartialData<T> = T extends Array<infer Item>
+  ? Array<PartialData<Item>>
+  : T extends object
+    ? { [Key in keyof T]?: PartialData<T[Key]> }
+    : T;
+
+/**
+ * Suivi d'une extraction en cours
+ */
+export interface ProcessingObserver {
+  onProgress?: (progress: ProcessingProgress) => void;
+  /** Objet partiel à chaque fragment reçu (extraction en un seul appel, sans grounding ni ensemble) */
+  onPartial?: (partial: unknown) => void;
+}
+
+/**
+ * Événement d'une extraction en flux
+ */
+export type ExtractionStreamEvent<T, R> =
+  | ({ type: 'progress' } & ProcessingProgress)
+  | { type: 'partial'; data: PartialData<T> }
+  | { type: 'result'; result: R };
+
+/**
+ * Transforme les notifications d'un traitement en flux d'événements, terminé par le résultat
+ *
+ * Les erreurs du traitement sont relancées par l'itérateur après les événements déjà émis.
+ */
+export async function* observeAsStream<T, R>(
+  run: (observer: ProcessingObserver) => Promise<R>
+): AsyncGenerator<ExtractionStreamEvent<T, R>> {
+  const queue: ExtractionStreamEvent<T, R>[] = [];
+  let wake: (() => void) | undefined;
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+
+  const push = (event: ExtractionStreamEvent<T, R>) => {
+    queue.push(event);
+    wake?.();
+  };
+
+  run({
+    onProgress: progress => push({ type: 'progress', ...progress }),
+    onPartial: partial => push({ type: 'partial', data: partial as PartialData<T> })
+  }).then(
+    result => push({ type: 'result', result }),
+    error => { failure = { error }; }
+  ).finally(() => {
+    finished = true;
+    wake?.();
+  });
+
+  while (true) {
+    const event = queue.shift();
+    if (event) {
+      yield event;
+      continue;
+    }
+    if (finished) break;
+    await new Promise<void>(resolve => { wake = resolve; });
+    wake = undefined;
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
+}
@@ -0,0 +1,129 @@
+import type { CropBox } from './image-analysis';
+
+// Recouvrement par défaut entre tuiles voisines (part de la taille d'une tuile)
+export const DEFAULT_TILE_OVERLAP = 0.1;
+
+// Nombre maximum de tuiles par côté : au-delà, les tuiles sont réduites comme une page classique
+const MAX_TILES_PER_SIDE = 4;
+
+/**
+ * Limites de résolution d'une image envoyée au modèle
+ */
+export interface ResolutionLimits {
+  maxPixels: number;
+  maxDimension: number;
+}
+
+/**
+ * Position d'une tuile dans la page d'origine
+ *
+ * Les coordonnées sont en pixels de la page après orientation et recadrage.
+ */
+export interface ImageTile extends CropBox {
+  /** Index de l'image source (page) dans l'ordre d'extraction */
+  sourceIndex: number;
+  /** Ligne et colonne de la tuile dans la grille (base 0) */
+  row: number;
+  column: number;
+  rows: number;
+  columns: number;
+  /** Dimensions de la page découpée */
+  pageWidth: number;
+  pageHeight: number;
+}
+
+/**
+ * Découpe une page en tuiles qui se recouvrent, chacune sous les limites de résolution du modèle
+ *
+ * @returns Les tuiles de la page, ou null si la page tient déjà dans les limites
+ */
+export function computeTileGrid(
+  width: number,
+  height: number,
+  limits: ResolutionLimits,
+  sourceIndex: number,
+  overlap: number = DEFAULT_TILE_OVERLAP
+): ImageTile[] | null {
+  if (fitsLimits(width, height, limits)) {
+    return null;
+  }
+
+  const { rows, columns } = chooseGrid(width, height, limits, overlap);
+  const tileWidth = tileSize(width, columns, overlap);
+  const tileHeight = tileSize(height, rows, overlap);
+  const tiles: ImageTile[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      tiles.push({
+        sourceIndex,
+        row,
+        column,
+        rows,
+        columns,
+        left: tileOffset(width, tileWidth, column, columns),
+        top: tileOffset(height, tileHeight, row, rows),
+        width: tileWidth,
+        height: tileHeight,
+        pageWidth: width,
+        pageHeight: height
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Libellé d'optimisation d'une tuile (ex: "tile-2x1-of-3x2", ligne x colonne)
+ */
+export function tileLabel(tile: ImageTile): string {
+  return `tile-${tile.row + 1}x${tile.column + 1}-of-${tile.rows}x${tile.columns}`;
+}
+
+/**
+ * Plus petite grille dont les tuiles tiennent dans les limites, à tuiles les plus carrées possible
+ */
+function chooseGrid(
+  width: number,
+  height: number,
+  limits: ResolutionLimits,
+  overlap: number
+): { rows: number; columns: number } {
+  let best: { rows: number; columns: number; score: number } | null = null;
+
+  for (let rows = 1; rows <= MAX_TILES_PER_SIDE; rows++) {
+    for (let columns = 1; columns <= MAX_TILES_PER_SIDE; columns++) {
+      const tileWidth = tileSize(width, columns, overlap);
+      const tileHeight = tileSize(height, rows, overlap);
+      if (!fitsLimits(tileWidth, tileHeight, limits)) continue;
+
+      // Moins de tuiles d'abord, puis le rapport largeur/hauteur le plus proche de 1
+      const aspect = Math.max(tileWidth, tileHeight) / Math.min(tileWidth, tileHeight);
+      const score = rows * columns * 100 + aspect;
+      if (!best || score < best.score) {
+        best = { rows, columns, score };
+      }
+    }
+  }
+
+  return best || { rows: MAX_TILES_PER_SIDE, columns: MAX_TILES_PER_SIDE };
+}
+
+function fitsLimits(width: number, height: number, limits: ResolutionLimits): boolean {
+  return width <= limits.maxDimension && height <= limits.maxDimension && width * height <= limits.maxPixels;
+}
+
+/**
+ * Taille d'une tuile pour couvrir `length` pixels avec `count` tuiles qui se recouvrent
+ */
+function tileSize(length: number, count: number, overlap: number): number {
+  return Math.min(length, Math.ceil(length / (count - (count - 1) * overlap)));
+}
+
+/**
+ * Position d'une tuile : première tuile au bord, dernière tuile alignée sur le bord opposé
+ */
+function tileOffset(length: number, size: number, index: number, count: number): number {
+  return count > 1 ? Math.round((index * (length - size)) / (count - 1)) : 0;
+}
@@ -0,0 +1,218 @@
+import { createModuleLogger } from "../../utils/logger";
+import type { ModelPrice, PricingConfig } from '../types';
+
+const logger = createModuleLogger('usage');
+
+/**
+ * Consommation d'un appel au modèle
+ */
+export interface ModelCallUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Images envoyées dans l'appel */
+  imageCount: number;
+}
+
+/**
+ * Consommation cumulée d'un modèle
+ */
+export interface ModelUsage extends ModelCallUsage {
+  requestCount: number;
+  /** Coût estimé, absent si le modèle n'a pas de prix dans pdfProcessor.pricing */
+  estimatedCost?: number;
+}
+
+/**
+ * Consommation d'une extraction (pages, tuiles, corrections, échantillons et membres d'ensemble)
+ */
+export interface ExtractionUsage {
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  imageCount: number;
+  /** Coût estimé des modèles ayant un prix */
+  estimatedCost?: number;
+  /** Devise des prix (pdfProcessor.pricing.currency) */
+  currency?: string;
+  /** Détail par provider et modèle */
+  byModel: ModelUsage[];
+  /** Modèles utilisés sans prix configuré, exclus du coût estimé ("provider/modèle") */
+  unpricedModels?: string[];
+}
+
+/**
+ * Compteurs cumulés depuis le démarrage (ou la dernière remise à zéro)
+ */
+export interface UsageTotals {
+  /** Début du comptage (ISO 8601) */
+  since: string;
+  extractions: number;
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  imageCount: number;
+  /** Somme des coûts estimés, dans la devise des prix configurés */
+  estimatedCost: number;
+  byModel: ModelUsage[];
+}
+
+/**
+ * Prix d'un modèle : entrée "provider/modèle" puis entrée "modèle"
+ */
+export function findModelPrice(pricing: PricingConfig | undefined, provider: string, model: string): ModelPrice | undefined {
+  return pricing?.models[`${provider}/${model}`] ?? pricing?.models[model];
+}
+
+/**
+ * Coût estimé d'une consommation selon le prix du modèle
+ */
+export function estimateCost(usage: Pick<ModelCallUsage, 'inputTokens' | 'outputTokens' | 'imageCount'>, price: ModelPrice): number {
+  const cost = usage.inputTokens / 1_000_000 * price.inputPerMillion
+    + usage.outputTokens / 1_000_000 * price.outputPerMillion
+    + usage.imageCount * (price.perImage ?? 0);
+  return roundCost(cost);
+}
+
+/**
+ * Agrège les appels d'une extraction, par modèle, avec le coût estimé
+ */
+export function summarizeUsage(calls: ModelCallUsage[], pricing?: PricingConfig): ExtractionUsage {
+  const byModel = new Map<string, ModelUsage>();
+
+  for (const call of calls) {
+    const key = `${call.provider}/${call.model}`;
+    const entry = byModel.get(key) || { provider: call.provider, model: call.model, inputTokens: 0, outputTokens: 0, imageCount: 0, requestCount: 0 };
+    entry.inputTokens += call.inputTokens;
+    entry.outputTokens += call.outputTokens;
+    entry.imageCount += call.imageCount;
+    entry.requestCount++;
+    byModel.set(key, entry);
+  }
+
+  return buildUsage(byModel, pricing);
+}
+
+/**
+ * Cumule les consommations de plusieurs extractions (ex: sous-documents d'un même fichier)
+ */
+export function combineUsage(usages: ExtractionUsage[], pricing?: PricingConfig): ExtractionUsage {
+  const byModel = new Map<string, ModelUsage>();
+
+  for (const model of usages.flatMap(usage => usage.byModel)) {
+    const key = `${model.provider}/${model.model}`;
+    const entry = byModel.get(key) || { provider: model.provider, model: model.model, inputTokens: 0, outputTokens: 0, imageCount: 0, requestCount: 0 };
+    entry.inputTokens += model.inputTokens;
+    entry.outputTokens += model.outputTokens;
+    entry.imageCount += model.imageCount;
+    entry.requestCount += model.requestCount;
+    byModel.set(key, entry);
+  }
+
+  return buildUsage(byModel, pricing);
+}
+
+/**
+ * Coût estimé par modèle et totaux
+ */
+function buildUsage(byModel: Map<string, ModelUsage>, pricing?: PricingConfig): ExtractionUsage {
+  const unpricedModels: string[] = [];
+  let estimatedCost: number | undefined;
+
+  for (const [key, entry] of byModel) {
+    const price = findModelPrice(pricing, entry.provider, entry.model);
+    if (!price) {
+      unpricedModels.push(key);
+      continue;
+    }
+    entry.estimatedCost = estimateCost(entry, price);
+    estimatedCost = roundCost((estimatedCost ?? 0) + entry.estimatedCost);
+  }
+
+  const models = [...byModel.values()];
+  const inputTokens = sum(models, 'inputTokens');
+  const outputTokens = sum(models, 'outputTokens');
+
+  return {
+    requestCount: sum(models, 'requestCount'),
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    imageCount: sum(models, 'imageCount'),
+    ...(estimatedCost !== undefined ? { estimatedCost, currency: pricing?.currency || 'USD' } : {}),
+    byModel: models,
+    ...(pricing && unpricedModels.length > 0 ? { unpricedModels } : {})
+  };
+}
+
+/**
+ * Compteurs cumulés de consommation, toutes extractions confondues
+ */
+export class UsageTracker {
+  private since = new Date();
+  private extractions = 0;
+  private models = new Map<string, ModelUsage>();
+
+  /**
+   * Ajoute la consommation d'une extraction aux compteurs
+   */
+  record(usage: ExtractionUsage): void {
+    this.extractions++;
+
+    for (const model of usage.byModel) {
+      const key = `${model.provider}/${model.model}`;
+      const entry = this.models.get(key) || { provider: model.provider, model: model.model, inputTokens: 0, outputTokens: 0, imageCount: 0, requestCount: 0 };
+      entry.inputTokens += model.inputTokens;
+      entry.outputTokens += model.outputTokens;
+      entry.imageCount += model.imageCount;
+      entry.requestCount += model.requestCount;
+      if (model.estimatedCost !== undefined) {
+        entry.estimatedCost = roundCost((entry.estimatedCost ?? 0) + model.estimatedCost);
+      }
+      this.models.set(key, entry);
+    }
+
+    logger.debug({ totalTokens: usage.totalTokens, estimatedCost: usage.estimatedCost, extractions: this.extractions }, '📈 Consommation enregistrée');
+  }
+
+  getTotals(): UsageTotals {
+    const models = [...this.models.values()].map(model => ({ ...model }));
+    const inputTokens = sum(models, 'inputTokens');
+    const outputTokens = sum(models, 'outputTokens');
+
+    return {
+      since: this.since.toISOString(),
+      extractions: this.extractions,
+      requestCount: sum(models, 'requestCount'),
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      imageCount: sum(models, 'imageCount'),
+      estimatedCost: roundCost(models.reduce((total, model) => total + (model.estimatedCost ?? 0), 0)),
+      byModel: models
+    };
+  }
+
+  reset(): void {
+    this.since = new Date();
+    this.extractions = 0;
+    this.models.clear();
+  }
+}
+
+/**
+ * Instance singleton des compteurs de consommation
+ */
+export const usageTracker = new UsageTracker();
+
+function sum(models: ModelUsage[], field: 'inputTokens' | 'outputTokens' | 'imageCount' | 'requestCount'): number {
+  return models.reduce((total, model) => total + model[field], 0);
+}
+
+// Arrondi au millionième pour éviter les erreurs d'addition des flottants
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -2,6 +2,9 @@ import path from "path";
 import { createModuleLogger } from "../../utils/logger";
 import { workerPoolManager } from "../workers/worker-pool-manager";
 import type { AIVisionProcessingOptions } from './processor';
+import type { InputFileType } from '../types';
+import { extractImagesFromRaster } from '../file-processor';
+import { providerRegistry } from '../providers';
 import type { 
   PdfExtractionTask, 
   PdfExtractionResult 
@@ -59,14 +62,21 @@ export class WorkerManager {
   }
 
   /**
-   * Extrait les images du PDF via worker dédié
+   * Extrait les images du PDF via worker dédié (les images sont préparées sans Ghostscript)
    */
   async extractImages(
     filePath: string, 
-    options: AIVisionProcessingOptions
-  ): Promise<{ imagePaths: string[]; pageCount: number }> {
+    options: AIVisionProcessingOptions,
+    inputType: InputFileType = 'pdf'
+  ): Promise<{ imagePaths: string[]; pageNumbers: number[]; pageCount: number }> {
     
     const tempDir = await this.createTempDir();
+    
+    if (inputType === 'image') {
+      const { imagePaths, pageNumbers } = await extractImagesFromRaster(filePath, tempDir, options);
+      return { imagePaths, pageNumbers, pageCount: imagePaths.length };
+    }
+    
     const pdfPool = workerPoolManager.getPool('pdf-extraction');
     
     logger.debug({ file: path.basename(filePath) }, '📄 Worker PDF: Extraction');
@@ -75,7 +85,8 @@ export class WorkerManager {
       taskId: '',
       pdfPath: filePath,
       outputDir: tempDir,
-      dpi: options.dpi || 300
+      dpi: options.dpi || 300,
+      pages: options.pages
     };
     
     const result = await pdfPool.executeTask<PdfExtractionResult>(task) as PdfExtractionResult;
@@ -88,6 +99,7 @@ export class WorkerManager {
     
     return {
       imagePaths: result.imagePaths,
+      pageNumbers: result.pageNumbers || result.imagePaths.map((_, i) => i + 1),
       pageCount: result.pageCount || result.imagePaths.length
     };
   }
@@ -109,7 +121,12 @@ export class WorkerManager {
       imagePaths,
       options: {
         provider: options.provider,
+        autoOrient: options.autoOrient,
+        cropMode: options.cropMode,
         cropSize: options.cropSize,
+        tiling: options.tiling
+          ? { ...providerRegistry.getImageLimits(options.provider, options.model, options.pdfProcessor), overlap: options.tileOverlap }
+          : undefined,
         enhanceContrast: options.enhanceContrast !== false,
         preserveColor: true,
         targetQuality: options.targetQuality || 95
@@ -8,6 +8,7 @@ import fs from "fs/promises";
 import path from "path";
 import { existsSync } from "fs";
 import { createModuleLogger } from "../../utils/logger";
+import { renderPDFPages } from "../file-processor";
 
 const logger = createModuleLogger('pdf-extraction-worker');
 
@@ -16,12 +17,15 @@ export interface PdfExtractionTask {
   pdfPath: string;
   outputDir: string;
   dpi: number;
+  /** Sélection de pages (ex: "1-3,7"), toutes les pages si non défini */
+  pages?: string;
 }
 
 export interface PdfExtractionResult {
   taskId: string;
   success: boolean;
   imagePaths?: string[];
+  pageNumbers?: number[];
   pageCount?: number;
   error?: string;
   processingTime: number;
@@ -34,7 +38,7 @@ async function processPdfExtractionTask(task: PdfExtractionTask): Promise<PdfExt
   const startTime = Date.now();
   
   try {
-    logger.info({ file: path.basename(task.pdfPath), dpi: task.dpi }, '🔧 Worker PDF: Extraction démarrée');
+    logger.info({ file: path.basename(task.pdfPath), dpi: task.dpi, pages: task.pages }, '🔧 Worker PDF: Extraction démarrée');
     
     // Vérification du fichier PDF
     if (!existsSync(task.pdfPath)) {
@@ -50,13 +54,8 @@ async function processPdfExtractionTask(task: PdfExtractionTask): Promise<PdfExt
       throw new Error("The PDF file is not valid");
     }
 
-    // Conversion PDF → Images avec Ghostscript
-    const imageBuffers = await gs.renderPDFPagesToPNG(
-      pdfBuffer,
-      undefined, // toutes les pages
-      undefined, 
-      task.dpi
-    );
+    // Conversion PDF → Images avec Ghostscript (pages sélectionnées)
+    const { imageBuffers, pageNumbers } = await renderPDFPages(pdfBuffer, task.pages, task.dpi);
 
     logger.debug({ pageCount: imageBuffers.length }, '📄 Worker PDF: Pages extraites');
     
@@ -65,7 +64,7 @@ async function processPdfExtractionTask(task: PdfExtractionTask): Promise<PdfExt
     
     await Promise.all(
       imageBuffers.map(async (buffer, i) => {
-        const imagePath = path.join(task.outputDir, `page-${i + 1}.png`);
+        const imagePath = path.join(task.outputDir, `page-${pageNumbers[i]}.png`);
         await fs.writeFile(imagePath, buffer);
         imagePaths[i] = imagePath;
       })
@@ -78,6 +77,7 @@ async function processPdfExtractionTask(task: PdfExtractionTask): Promise<PdfExt
       taskId: task.taskId,
       success: true,
       imagePaths,
+      pageNumbers,
       pageCount: imagePaths.length,
       processingTime
     };
@@ -8,6 +8,9 @@ import fs from "fs/promises";
 import path from "path";
 import { existsSync } from "fs";
 import { createModuleLogger } from "../../utils/logger";
+import { correctOrientation, resolveCrop, type CropBox, type ImageRegion } from "../vision/image-analysis";
+import { computeTileGrid, tileLabel, type ImageTile, type ResolutionLimits } from "../vision/tiling";
+import type { CropMode } from "../types";
 
 const logger = createModuleLogger('vision-optimization-worker');
 
@@ -16,7 +19,11 @@ export interface VisionOptimizationTask {
   imagePaths: string[];
   options: {
     provider: string;
+    autoOrient?: boolean;
+    cropMode?: CropMode;
     cropSize?: number;
+    /** Limites de résolution du modèle pour le découpage en tuiles (pas de découpage si absent) */
+    tiling?: ResolutionLimits & { overlap?: number };
     enhanceContrast?: boolean;
     preserveColor?: boolean;
     targetQuality?: number;
@@ -30,6 +37,8 @@ export interface OptimizedImageResult {
   originalSizeBytes: number;
   compressionRatio: number;
   optimizations: string[];
+  tile?: ImageTile;
+  region?: ImageRegion;
 }
 
 export interface VisionOptimizationResult {
@@ -45,11 +54,14 @@ export interface VisionOptimizationResult {
 
 /**
  * Optimise une image individuelle pour Vision LLM avec Sharp
+ *
+ * Avec le découpage en tuiles, une grande page produit une image par tuile.
  */
 async function optimizeImageForVisionLLM(
   imagePath: string, 
+  sourceIndex: number,
   options: VisionOptimizationTask['options']
-): Promise<OptimizedImageResult> {
+): Promise<OptimizedImageResult[]> {
   
   if (!existsSync(imagePath)) {
     throw new Error(`Image not found: ${imagePath}`);
@@ -58,34 +70,76 @@ async function optimizeImageForVisionLLM(
   const originalStats = await fs.stat(imagePath);
   const originalSizeBytes = originalStats.size;
   
-  let pipeline = sharp(imagePath);
-  const metadata = await pipeline.metadata();
   const optimizations: string[] = [];
+  let source: Buffer | string = imagePath;
 
-  // 1. RECADRAGE INTELLIGENT SPARROW (optionnel)
-  if (options.cropSize && options.cropSize > 0 && options.cropSize < 100) {
-    const cropPercent = options.cropSize / 100;
-    const cropWidth = Math.floor((metadata.width || 0) * cropPercent);
-    const cropHeight = Math.floor((metadata.height || 0) * cropPercent);
-    
-    if (cropWidth > 100 && cropHeight > 100) {
-      const left = Math.floor(((metadata.width || 0) - cropWidth) / 2);
-      const top = Math.floor(((metadata.height || 0) - cropHeight) / 2);
-      
-      pipeline = pipeline.extract({
-        left,
-        top, 
-        width: cropWidth,
-        height: cropHeight
-      });
-      optimizations.push(`crop-${options.cropSize}%`);
-    }
+  // 0. CORRECTION D'ORIENTATION (optionnel) : EXIF, quart de tour, inclinaison
+  if (options.autoOrient) {
+    const correction = await correctOrientation(imagePath);
+    source = correction.image;
+    optimizations.push(...correction.optimizations);
+  }
+
+  const metadata = await sharp(source).metadata();
+
+  // 1. RECADRAGE (optionnel) : centré Sparrow, sur le contenu ou sur les marges
+  const crop = await resolveCrop(source, options.cropMode, options.cropSize);
+  if (crop) {
+    optimizations.push(crop.label);
+  }
+  const region: CropBox = crop?.box || { left: 0, top: 0, width: metadata.width || 0, height: metadata.height || 0 };
+
+  // 1bis. DÉCOUPAGE EN TUILES (optionnel) si la page dépasse la résolution du modèle
+  const tiles = options.tiling
+    ? computeTileGrid(region.width, region.height, options.tiling, sourceIndex, options.tiling.overlap)
+    : null;
+
+  const pageSize = { pageWidth: metadata.width || 0, pageHeight: metadata.height || 0 };
+
+  if (!tiles) {
+    const result = await encodeRegionForVisionLLM(imagePath, source, crop ? region : null, region, options, optimizations, originalSizeBytes);
+    return [crop ? { ...result, region: { ...region, ...pageSize } } : result];
+  }
+
+  const results: OptimizedImageResult[] = [];
+  for (const tile of tiles) {
+    const box: CropBox = { left: region.left + tile.left, top: region.top + tile.top, width: tile.width, height: tile.height };
+    const result = await encodeRegionForVisionLLM(
+      imagePath,
+      source,
+      box,
+      box,
+      options,
+      [...optimizations, tileLabel(tile)],
+      Math.round(originalSizeBytes / tiles.length)
+    );
+    results.push({ ...result, tile, region: { ...box, ...pageSize } });
+  }
+  return results;
+}
+
+/**
+ * Redimensionne, améliore et encode en JPEG une zone de l'image source (image entière si box est null)
+ */
+async function encodeRegionForVisionLLM(
+  imagePath: string,
+  source: Buffer | string,
+  box: CropBox | null,
+  size: { width: number; height: number },
+  options: VisionOptimizationTask['options'],
+  optimizations: string[],
+  originalSizeBytes: number
+): Promise<OptimizedImageResult> {
+
+  let pipeline = sharp(source);
+  if (box) {
+    pipeline = pipeline.extract(box);
   }
 
   // 2. REDIMENSIONNEMENT POUR VISION LLM (max 2048px pour performance)
-  if (metadata.width && metadata.width > 2048) {
-    const scaleFactor = 2048 / metadata.width;
-    const newHeight = Math.round((metadata.height || 0) * scaleFactor);
+  if (size.width > 2048) {
+    const scaleFactor = 2048 / size.width;
+    const newHeight = Math.round(size.height * scaleFactor);
     
     pipeline = pipeline.resize(2048, newHeight, {
       kernel: sharp.kernel.lanczos3,
@@ -152,9 +206,9 @@ async function processVisionOptimizationTask(task: VisionOptimizationTask): Prom
     for (let i = 0; i < task.imagePaths.length; i += batchSize) {
       const batch = task.imagePaths.slice(i, i + batchSize);
       const batchResults = await Promise.all(
-        batch.map(imagePath => optimizeImageForVisionLLM(imagePath, task.options))
+        batch.map((imagePath, j) => optimizeImageForVisionLLM(imagePath, i + j, task.options))
       );
-      results.push(...batchResults);
+      results.push(...batchResults.flat());
     }
 
     // Calcul des métriques globales
@@ -16,18 +16,63 @@ export {
 export { 
   extractPdf,
   extractPdfWithMetadata,
+  extractPdfStream,
+  extractPdfBatch,
   extractInvoicePdf,
   extractTablesPdf,
   extractReceiptPdf,
+  extractUtilityBillPdf,
+  extractDocumentPdf,
+  extractPdfDocuments,
   schemas,
   providers,
+  registerProvider,
+  registerDocumentType,
+  registerSchema,
+  loadSchemas,
+  listSchemas,
+  getUsageStats,
+  resetUsageStats,
+  MemoryCacheBackend,
+  FileSystemCacheBackend,
+  RedisCacheBackend,
+  JobQueue,
+  MemoryJobStore,
+  FileSystemJobStore,
+  verifyWebhookSignature,
   type ExtractOptions,
   type ExtractResult,
+  type ExtractStreamEvent,
+  type BatchExtractOptions,
+  type BatchExtractResult,
+  type ExtractDocumentsResult,
+  type ExtractedDocument,
   type ComprehensiveInvoice,
   type TablesOnly,
   type BasicReceipt,
+  type UtilityBill,
   type VisionExtractionOptions,
-  type PdfProcessorConfig
+  type PdfProcessorConfig,
+  type ProviderCapabilities,
+  type ProviderModelFactory,
+  type PricingConfig,
+  type ExtractionUsage,
+  type UsageTotals,
+  type CacheBackend,
+  type CacheConfig,
+  type CacheMode,
+  type ClassifierOptions,
+  type DocumentClassification,
+  type DocumentTypeDefinition,
+  type DocumentSegment,
+  type SchemaDefinition,
+  type SchemaInfo,
+  type RegisteredSchema,
+  type ExtractionValidator,
+  type SplitterOptions,
+  type ExtractionJob,
+  type JobStatus,
+  type JobStore
 } from './lib';
 
 // === EXPORTS CORE (pour usage avancé) ===
@@ -42,7 +87,9 @@ export {
   ComprehensiveInvoiceSchema,
   TablesOnlySchema,
   BasicReceiptSchema,
-  SchemaFactory
+  UtilityBillSchema,
+  SchemaFactory,
+  schemaRegistry
 } from './core/schemas';
 
 // === EXPORT DEFAULT COMBINÉ ===
@@ -59,11 +106,23 @@ export default {
   // Library Functions
   extractPdf: Library.extractPdf,
   extractPdfWithMetadata: Library.extractPdfWithMetadata,
+  extractPdfStream: Library.extractPdfStream,
+  extractPdfBatch: Library.extractPdfBatch,
   extractInvoice: Library.extractInvoicePdf,
   extractTables: Library.extractTablesPdf,
   extractReceipt: Library.extractReceiptPdf,
+  extractUtilityBill: Library.extractUtilityBillPdf,
+  extractDocument: Library.extractDocumentPdf,
+  extractDocuments: Library.extractPdfDocuments,
   
   // Schemas & Types
   schemas: Library.schemas,
-  providers: Library.providers
+  providers: Library.providers,
+  registerProvider: Library.registerProvider,
+  registerDocumentType: Library.registerDocumentType,
+  registerSchema: Library.registerSchema,
+  loadSchemas: Library.loadSchemas,
+  listSchemas: Library.listSchemas,
+  getUsageStats: Library.getUsageStats,
+  resetUsageStats: Library.resetUsageStats
 };
\ No newline at end of file
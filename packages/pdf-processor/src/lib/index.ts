@@ -13,37 +13,134 @@ import {
   ComprehensiveInvoiceSchema, 
   TablesOnlySchema, 
   BasicReceiptSchema,
+  UtilityBillSchema,
+  schemaRegistry,
+  type RegisteredSchema,
+  type SchemaDefinition,
+  type SchemaInfo,
   type ComprehensiveInvoice,
   type TablesOnly,
-  type BasicReceipt
+  type BasicReceipt,
+  type UtilityBill
 } from "../core/schemas";
-import type { VisionExtractionOptions, PdfProcessorConfig, ProviderConfig } from "../core/types";
-import { DEFAULT_MODELS } from "../core/types";
+import type { VisionExtractionOptions, VisionProvider, PdfProcessorConfig, ProviderConfig, FallbackConfig, ModelPrice, PricingConfig } from "../core/types";
+import type { FallbackAttempt } from "../core/vision/ai-generator";
+import type { FieldGrounding, GroundingMap } from "../core/vision/grounding";
+import type { ExtractionValidator, ValidationTolerance, ValidationWarning } from "../core/validation";
+import type { CorrectionAttempt } from "../core/vision/self-corrector";
+import type { ConfidenceMap, FieldConfidence } from "../core/vision/confidence";
+import type { EnsembleDisagreement, EnsembleMember, EnsembleMemberReport, EnsembleStrategy } from "../core/vision/ensemble";
+import { usageTracker, type ExtractionUsage, type ModelUsage, type UsageTotals } from "../core/vision/usage";
+import type { ExtractionStreamEvent, PartialData, ProcessingProgress, ProcessingStage } from "../core/vision/stream";
+import { runBatch, type BatchItemResult } from "../core/vision/batch";
+import {
+  documentClassifier,
+  type ClassifierOptions,
+  type DocumentClassification,
+  type DocumentTypeDefinition
+} from "../core/vision/document-classifier";
+import type { BoundaryReason, DocumentSegment, SplitterOptions } from "../core/vision/document-splitter";
+import {
+  MemoryCacheBackend,
+  FileSystemCacheBackend,
+  RedisCacheBackend,
+  type CacheBackend,
+  type CacheConfig,
+  type CacheMode,
+  type CacheStatus,
+  type RedisLikeClient
+} from "../core/cache";
+import {
+  JobQueue,
+  MemoryJobStore,
+  FileSystemJobStore,
+  verifyWebhookSignature,
+  type ExtractionJob,
+  type JobQueueOptions,
+  type JobStatus,
+  type JobStore,
+  type WebhookDelivery
+} from "../core/jobs";
+import {
+  providerRegistry,
+  registerProvider,
+  type ProviderCapabilities,
+  type ProviderFactoryContext,
+  type ProviderImagePart,
+  type ProviderInfo,
+  type ProviderModelFactory
+} from "../core/providers";
 
 /**
  * Options d'extraction pour l'API publique
  */
 export interface ExtractOptions extends Omit<VisionExtractionOptions, 'provider'> {
-  /** Provider d'IA à utiliser */
-  provider?: 'scaleway' | 'ollama' | 'mistral' | 'custom';
+  /** Provider d'IA à utiliser (intégré ou ajouté avec registerProvider) */
+  provider?: VisionProvider;
   /** Modèle spécifique (optionnel) */
   model?: string;
+  /** Mode d'extraction : 'vision' (défaut), 'text' (couche texte du PDF) ou 'hybrid' */
+  mode?: 'vision' | 'text' | 'hybrid';
   /** Schema JSON personnalisé ou type de document */
   query?: string;
+  /** Correction automatique de l'orientation : EXIF, rotation, inclinaison (défaut: false) */
+  autoOrient?: boolean;
+  /** Mode de recadrage : 'center' (cropSize), 'content' (zone de contenu) ou 'margins' (marges blanches) */
+  cropMode?: 'center' | 'content' | 'margins';
   /** Taille de recadrage en pourcentage (10-90) */
   cropSize?: number;
+  /** Découpe les grandes pages en tuiles pour lire les petits caractères (défaut: false) */
+  tiling?: boolean;
+  /** Recouvrement entre tuiles, en part de la taille d'une tuile (défaut: 0.1) */
+  tileOverlap?: number;
   /** Extraction focalisée sur les tableaux uniquement */
   tablesOnly?: boolean;
-  /** Type de document pour utiliser un schéma prédéfini */
-  documentType?: 'invoice' | 'receipt' | 'basic' | 'custom';
+  /** Schéma du registre : 'invoice', 'receipt', 'tables' ou un schéma enregistré ('nom', 'nom@version') */
+  documentType?: string;
   /** Amélioration du contraste (défaut: true) */
   enhanceContrast?: boolean;
   /** Qualité de compression JPEG (70-100, défaut: 95) */
   targetQuality?: number;
   /** DPI pour la conversion PDF vers images (défaut: 300) */
   dpi?: number;
+  /** Pages à traiter, ex: "1-3,7" (défaut: toutes les pages) */
+  pages?: string;
   /** Nombre de tentatives en cas d'échec (défaut: 2) */
   maxRetries?: number;
+  /** Nombre de pages par appel au modèle, résultats fusionnés ensuite (défaut: toutes les pages) */
+  pagesPerRequest?: number;
+  /** Position (page, boîte englobante) de chaque valeur extraite dans ExtractResult.grounding (défaut: false) */
+  grounding?: boolean;
+  /** Vérifications de cohérence (totaux, TVA...) dans validation.warnings (défaut: true) */
+  consistencyChecks?: boolean;
+  /** Tolérance des comparaisons de montants (défaut: { absolute: 0.01, relative: 0.001 }) */
+  validationTolerance?: Partial<ValidationTolerance>;
+  /** Champs obligatoires, ex: ["invoice_details.invoice_number", "line_items[].description"] */
+  requiredFields?: string[];
+  /** Renvoie l'extraction et ses incohérences au modèle pour correction (défaut: false) */
+  selfCorrect?: boolean;
+  /** Nombre maximum de tentatives d'auto-correction (défaut: 2) */
+  maxCorrectionRounds?: number;
+  /** Score de confiance de chaque valeur extraite dans ExtractResult.confidence (défaut: false) */
+  confidence?: boolean;
+  /** Extractions supplémentaires pour mesurer l'accord entre réponses (défaut: 0) */
+  confidenceSamples?: number;
+  /** Seuil sous lequel un champ est listé dans metadata.lowConfidenceFields (défaut: 0.7) */
+  confidenceThreshold?: number;
+  /** Modèles interrogés en parallèle et réconciliés champ par champ, ex: [{ provider: 'mistral' }, { provider: 'ollama', model: 'llava:13b' }] */
+  ensemble?: EnsembleMember[];
+  /** Choix entre valeurs divergentes : 'majority' (défaut) ou 'confidence' (logprobs) */
+  ensembleStrategy?: EnsembleStrategy;
+  /** Détecte le type de document (facture, reçu, tableaux...) pour choisir le schéma quand aucun n'est imposé (défaut: false) */
+  autoClassify?: boolean;
+  /** Provider, petit modèle et seuil de confiance de la classification, ex: { model: 'gpt-4o-mini', minConfidence: 0.7 } */
+  classifier?: ClassifierOptions;
+  /** Provider, petit modèle et pages par appel du découpage en sous-documents (extractPdfDocuments), ex: { model: 'gpt-4o-mini' } */
+  splitter?: SplitterOptions;
+  /** Cache pdfProcessor.cache : 'use' (défaut), 'refresh' (nouvelle extraction mise en cache) ou 'bypass' */
+  cache?: CacheMode;
+  /** Interrompt l'extraction en cours, ex: AbortSignal.timeout(60_000) */
+  abortSignal?: AbortSignal;
   /** Schéma Zod personnalisé pour validation stricte */
   customSchema?: z.ZodSchema;
   /** Configuration personnalisée des providers */
@@ -60,25 +157,65 @@ export interface ExtractResult<T = any> {
   metadata: {
     /** Nombre de pages traitées */
     pageCount: number;
+    /** Numéros des pages traitées */
+    pageNumbers?: number[];
+    /** Mode d'extraction effectivement utilisé */
+    mode?: 'vision' | 'text' | 'hybrid';
     /** Temps de traitement total en ms */
     processingTime: number;
-    /** Provider utilisé */
+    /** Provider utilisé (provider de secours après une bascule) */
     provider: string;
     /** Modèle utilisé */
     model: string;
     /** Nom du schéma utilisé */
     schemaUsed: string;
+    /** Version du schéma du registre (documentType enregistré) */
+    schemaVersion?: string;
     /** Métriques d'optimisation des images */
     optimizationMetrics: {
       originalSizeMB: number;
       optimizedSizeMB: number;
       compressionRatio: number;
     };
+    /** Nombre d'appels au modèle */
+    requestCount?: number;
+    /** Tokens, images et coût estimé (prix dans pdfProcessor.pricing) */
+    usage?: ExtractionUsage;
+    /** Pages d'origine de chaque élément de tableau (extraction page par page) */
+    pageSources?: Record<string, number[]>;
+    /** Tentatives d'auto-correction (option selfCorrect) */
+    corrections?: CorrectionAttempt[];
+    /** Providers en échec avant le provider utilisé (pdfProcessor.fallback) */
+    fallbackAttempts?: FallbackAttempt[];
+    /** Champs à faire vérifier, confiance sous le seuil (option confidence) */
+    lowConfidenceFields?: string[];
+    /** Membres de l'ensemble et champs divergents (option ensemble) */
+    ensemble?: {
+      strategy: EnsembleStrategy;
+      members: EnsembleMemberReport[];
+      disagreements: EnsembleDisagreement[];
+    };
+    /** Type de document détecté et confiance (option autoClassify) */
+    detectedDocumentType?: DocumentClassification;
+    /** Issue de la recherche en cache (pdfProcessor.cache) */
+    cache?: {
+      status: CacheStatus;
+      key: string;
+      /** Date de mise en cache du résultat renvoyé (status 'hit') */
+      storedAt?: string;
+    };
   };
+  /** Position de chaque valeur extraite par chemin JSON (option grounding) */
+  grounding?: GroundingMap;
+  /** Confiance de chaque valeur extraite par chemin JSON (option confidence) */
+  confidence?: ConfidenceMap;
   /** Résultat de la validation */
   validation: {
+    /** false si le schéma n'est pas respecté ou si des incohérences sont détectées */
     success: boolean;
     errors?: z.ZodError;
+    /** Incohérences détectées (ex: total TTC différent de HT + TVA) */
+    warnings?: ValidationWarning[];
   };
 }
 
@@ -93,13 +230,18 @@ export async function extractPdf<T extends z.ZodSchema>(
   return await extractWithAI(filePath, schema, {
     provider: options.provider || 'scaleway',
     model: options.model,
+    cropMode: options.cropMode,
     cropSize: options.cropSize,
+    tiling: options.tiling,
+    tileOverlap: options.tileOverlap,
     tablesOnly: options.tablesOnly,
     documentType: options.documentType,
     enhanceContrast: options.enhanceContrast,
     targetQuality: options.targetQuality,
     dpi: options.dpi || 300,
+    pages: options.pages,
     maxRetries: options.maxRetries,
+    pagesPerRequest: options.pagesPerRequest,
     customSchema: options.customSchema,
     query: options.query,
     pdfProcessor: options.pdfProcessor,
@@ -118,13 +260,19 @@ export async function extractPdfWithMetadata<T extends z.ZodSchema>(
   return await aiVisionProcessor.process<z.infer<T>>(filePath, {
     provider: options.provider || 'scaleway',
     model: options.model,
+    cropMode: options.cropMode,
     cropSize: options.cropSize,
+    tiling: options.tiling,
+    tileOverlap: options.tileOverlap,
     tablesOnly: options.tablesOnly,
     documentType: options.documentType,
     enhanceContrast: options.enhanceContrast,
     targetQuality: options.targetQuality,
     dpi: options.dpi || 300,
+    pages: options.pages,
     maxRetries: options.maxRetries,
+    pagesPerRequest: options.pagesPerRequest,
+    grounding: options.grounding,
     customSchema: schema,
     query: options.query,
     pdfProcessor: options.pdfProcessor,
@@ -132,6 +280,74 @@ export async function extractPdfWithMetadata<T extends z.ZodSchema>(
   });
 }
 
+/**
+ * Événement d'une extraction en flux : avancement, objet partiel ou résultat final
+ */
+export type ExtractStreamEvent<T = any> = ExtractionStreamEvent<T, ExtractResult<T>>;
+
+/**
+ * Extrait des données d'un PDF en flux : étapes du traitement, objets partiels au fil de la
+ * réponse du modèle, puis résultat complet (même contenu que extractPdfWithMetadata)
+ *
+ * @example
+ * for await (const event of extractPdfStream('invoice.pdf', schemas.invoice)) {
+ *   if (event.type === 'partial') render(event.data);
+ *   if (event.type === 'result') save(event.result.data);
+ * }
+ */
+export function extractPdfStream<T extends z.ZodSchema>(
+  filePath: string,
+  schema: T,
+  options: ExtractOptions = {}
+): AsyncGenerator<ExtractStreamEvent<z.infer<T>>> {
+  return aiVisionProcessor.processStream<z.infer<T>>(filePath, {
+    provider: options.provider || 'scaleway',
+    dpi: options.dpi || 300,
+    customSchema: schema,
+    ...options
+  });
+}
+
+/**
+ * Résultat d'un fichier d'un lot : résultat détaillé ou message d'erreur
+ */
+export type BatchExtractResult<T = any> = BatchItemResult<ExtractResult<T>>;
+
+/**
+ * Options d'extraction par lot
+ */
+export interface BatchExtractOptions<T = any> extends ExtractOptions {
+  /** Fichiers traités simultanément (défaut: 2) */
+  concurrency?: number;
+  /** Appelé dès qu'un fichier est terminé, succès ou échec */
+  onResult?: (result: BatchExtractResult<T>) => void;
+}
+
+/**
+ * Extrait les données de plusieurs PDF ou images avec le même schéma
+ *
+ * Un fichier en échec n'interrompt pas le lot : son erreur est renvoyée à sa place (success: false).
+ * Les résultats sont dans l'ordre des fichiers ; onResult les reçoit dans l'ordre de fin de traitement.
+ *
+ * @example
+ * const results = await extractPdfBatch(files, schemas.invoice, { concurrency: 4 });
+ * const failed = results.filter(item => !item.success);
+ */
+export async function extractPdfBatch<T extends z.ZodSchema>(
+  filePaths: string[],
+  schema: T,
+  options: BatchExtractOptions<z.infer<T>> = {}
+): Promise<BatchExtractResult<z.infer<T>>[]> {
+  const { concurrency, onResult, ...extractOptions } = options;
+  
+  return await runBatch(
+    filePaths,
+    filePath => filePath,
+    filePath => extractPdfWithMetadata(filePath, schema, extractOptions),
+    { concurrency, onResult, abortSignal: options.abortSignal }
+  );
+}
+
 /**
  * Extrait une facture avec le schéma complet
  */
@@ -183,13 +399,94 @@ export async function extractReceiptPdf(
   });
 }
 
+/**
+ * Extrait une facture d'énergie, d'eau ou de télécoms : points de livraison, relevés et charges par période
+ */
+export async function extractUtilityBillPdf(
+  filePath: string,
+  options: ExtractOptions = {}
+): Promise<UtilityBill> {
+  return await extractPdf(filePath, UtilityBillSchema, {
+    documentType: 'utility-bill',
+    pdfProcessor: options.pdfProcessor,
+    ...options
+  });
+}
+
+/**
+ * Extrait un document de type inconnu : classification sur la première page, puis extraction avec
+ * le schéma du type détecté (schéma complet si le type est incertain)
+ *
+ * @example
+ * const result = await extractDocumentPdf('scan.pdf', { classifier: { model: 'gpt-4o-mini' } });
+ * console.log(result.metadata.detectedDocumentType); // { documentType: 'receipt', confidence: 0.93, applied: true }
+ */
+export async function extractDocumentPdf(
+  filePath: string,
+  options: Omit<ExtractOptions, 'customSchema' | 'documentType' | 'tablesOnly' | 'query'> = {}
+): Promise<ExtractResult> {
+  return await aiVisionProcessor.process(filePath, {
+    provider: options.provider || 'scaleway',
+    dpi: options.dpi || 300,
+    ...options,
+    autoClassify: true
+  });
+}
+
+/**
+ * Sous-document détecté et son extraction
+ */
+export interface ExtractedDocument<T = any> extends DocumentSegment {
+  result: ExtractResult<T>;
+}
+
+/**
+ * Résultat d'un fichier regroupant plusieurs documents
+ */
+export interface ExtractDocumentsResult<T = any> {
+  /** Sous-documents dans l'ordre des pages */
+  documents: ExtractedDocument<T>[];
+  metadata: {
+    /** Pages analysées pour le découpage */
+    pageCount: number;
+    /** Temps de traitement total en ms */
+    processingTime: number;
+    /** Appels au modèle, découpage compris */
+    requestCount: number;
+    /** Consommation cumulée du découpage et des extractions */
+    usage: ExtractionUsage;
+  };
+}
+
+/**
+ * Extrait chaque document d'un fichier qui en regroupe plusieurs (ex: lot de factures scanné en un seul PDF)
+ *
+ * Les limites sont détectées page par page (nouvel en-tête, numérotation qui repart à 1, changement de
+ * numéro ou de nature de document), puis chaque sous-document est extrait séparément.
+ *
+ * @example
+ * const { documents } = await extractPdfDocuments('lot.pdf', { documentType: 'invoice', splitter: { model: 'gpt-4o-mini' } });
+ * documents.forEach(document => console.log(document.pages, document.result.data.invoice_number));
+ */
+export async function extractPdfDocuments<T = any>(
+  filePath: string,
+  options: ExtractOptions = {}
+): Promise<ExtractDocumentsResult<T>> {
+  return await aiVisionProcessor.processDocuments<T>(filePath, {
+    provider: options.provider || 'scaleway',
+    dpi: options.dpi || 300,
+    ...options
+  });
+}
+
 /**
  * Schémas Zod prédéfinis pour validation
  */
 export const schemas = {
   invoice: ComprehensiveInvoiceSchema,
   tables: TablesOnlySchema,
-  receipt: BasicReceiptSchema
+  receipt: BasicReceiptSchema,
+  utilityBill: UtilityBillSchema
 };
 
 /**
@@ -199,45 +496,153 @@ export type {
   ComprehensiveInvoice,
   TablesOnly,
   BasicReceipt,
+  UtilityBill,
   VisionExtractionOptions,
   PdfProcessorConfig,
-  ProviderConfig
+  ProviderConfig,
+  VisionProvider,
+  ProviderCapabilities,
+  ProviderFactoryContext,
+  ProviderImagePart,
+  ProviderInfo,
+  ProviderModelFactory,
+  FallbackConfig,
+  FallbackAttempt,
+  FieldGrounding,
+  GroundingMap,
+  ValidationTolerance,
+  ValidationWarning,
+  ExtractionValidator,
+  CorrectionAttempt,
+  ConfidenceMap,
+  FieldConfidence,
+  EnsembleMember,
+  EnsembleStrategy,
+  EnsembleMemberReport,
+  EnsembleDisagreement,
+  ModelPrice,
+  PricingConfig,
+  ExtractionUsage,
+  ModelUsage,
+  UsageTotals,
+  CacheBackend,
+  CacheConfig,
+  CacheMode,
+  CacheStatus,
+  RedisLikeClient,
+  ClassifierOptions,
+  DocumentClassification,
+  DocumentTypeDefinition,
+  RegisteredSchema,
+  SchemaDefinition,
+  SchemaInfo,
+  BoundaryReason,
+  DocumentSegment,
+  SplitterOptions,
+  ExtractionJob,
+  JobQueueOptions,
+  JobStatus,
+  JobStore,
+  WebhookDelivery,
+  PartialData,
+  ProcessingProgress,
+  ProcessingStage
+};
+
+/**
+ * Providers disponibles (intégrés et ajoutés avec registerProvider), lus dans le registre à chaque accès
+ */
+export const providers: Readonly<Record<string, ProviderInfo>> = new Proxy({} as Record<string, ProviderInfo>, {
+  get: (_target, name) => typeof name === 'string' ? providerRegistry.describe(name) : undefined,
+  has: (_target, name) => typeof name === 'string' && providerRegistry.has(name),
+  ownKeys: () => providerRegistry.names(),
+  getOwnPropertyDescriptor: (_target, name) => typeof name === 'string' && providerRegistry.has(name)
+    ? { value: providerRegistry.describe(name), enumerable: true, configurable: true }
+    : undefined
+});
+
+export {
+  registerProvider,
+  MemoryCacheBackend,
+  FileSystemCacheBackend,
+  RedisCacheBackend,
+  JobQueue,
+  MemoryJobStore,
+  FileSystemJobStore,
+  verifyWebhookSignature
 };
 
 /**
- * Configuration des providers disponibles
- */
-export const providers = {
-  scaleway: {
-    name: 'Scaleway AI',
-    models: ['mistral-small-3.1-24b-instruct-2503'],
-    defaultModel: DEFAULT_MODELS.scaleway
-  },
-  ollama: {
-    name: 'Ollama Local',
-    models: ['llava:latest', 'llava:13b', 'llava:34b'],
-    defaultModel: DEFAULT_MODELS.ollama
-  },
-  //https://docs.mistral.ai/capabilities/vision/
-  mistral: {
-    name: 'Mistral AI',
-    models: ['pixtral-12b-latest', 'pixtral-large-latest','mistral-medium-latest','mistral-small-latest'],
-    defaultModel: DEFAULT_MODELS.mistral
-  },
-  custom: {
-    name: 'Custom OpenAI-Compatible API',
-    models: [],
-    defaultModel: DEFAULT_MODELS.custom
-  }
-} as const;
+ * Enregistre un schéma de document nommé et versionné, sélectionnable avec documentType ('nom' ou 'nom@version')
+ *
+ * @example
+ * const { schema } = registerSchema({
+ *   name: 'purchase-order',
+ *   version: '2',
+ *   schema: PurchaseOrderSchema, // ou un JSON Schema
+ *   prompt: 'TASK: Extract the order number, the buyer and every ordered item.',
+ *   validators: [orderTotalValidator]
+ * });
+ * await extractPdfWithMetadata('po.pdf', schema, { documentType: 'purchase-order@2' });
+ */
+export function registerSchema(definition: SchemaDefinition): RegisteredSchema {
+  return schemaRegistry.register(definition);
+}
+
+/**
+ * Enregistre les schémas d'un répertoire : fichiers .json (JSON Schema) et modules .ts/.js (export default)
+ */
+export async function loadSchemas(directory: string): Promise<RegisteredSchema[]> {
+  return await schemaRegistry.loadDirectory(directory);
+}
+
+/**
+ * Schémas enregistrés, une entrée par version
+ */
+export function listSchemas(): SchemaInfo[] {
+  return schemaRegistry.list();
+}
+
+/**
+ * Ajoute un type de document reconnu par la classification (option autoClassify)
+ *
+ * @example
+ * registerDocumentType({
+ *   name: 'purchase-order',
+ *   description: 'Purchase order sent by a buyer, with an order number and ordered items',
+ *   options: { customSchema: PurchaseOrderSchema }
+ * });
+ */
+export function registerDocumentType(definition: DocumentTypeDefinition): void {
+  documentClassifier.register(definition);
+}
+
+/**
+ * Consommation cumulée (tokens, images, coût estimé) depuis le démarrage ou la dernière remise à zéro
+ */
+export function getUsageStats(): UsageTotals {
+  return usageTracker.getTotals();
+}
+
+/**
+ * Remet les compteurs de consommation à zéro
+ */
+export function resetUsageStats(): void {
+  usageTracker.reset();
+}
 
 // Export par défaut pour usage simple
 export default {
   extractPdf,
   extractPdfWithMetadata,
+  extractPdfStream,
   extractInvoicePdf,
   extractTablesPdf,
   extractReceiptPdf,
+  extractUtilityBillPdf,
   schemas,
-  providers
+  providers,
+  registerProvider,
+  getUsageStats,
+  resetUsageStats
 };
\ No newline at end of file
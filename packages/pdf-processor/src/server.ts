@@ -5,13 +5,46 @@
  * Démarre l'API Vision LLM sur le port configuré
  */
 
+import path from "path";
+import os from "os";
 import { createVisionAPI } from './api/server';
+import { FileSystemCacheBackend, MemoryCacheBackend, type CacheConfig } from './core/cache';
+import { FileSystemJobStore } from './core/jobs';
+import { schemaRegistry } from './core/schemas';
+
+/**
+ * Cache des résultats selon l'environnement
+ * EK_CACHE=memory|filesystem, EK_CACHE_DIR (filesystem), EK_CACHE_MAX_ENTRIES (memory), EK_CACHE_TTL en secondes
+ */
+function cacheFromEnv(): CacheConfig | undefined {
+  const ttlMs = process.env.EK_CACHE_TTL ? parseInt(process.env.EK_CACHE_TTL) * 1000 : undefined;
+
+  switch (process.env.EK_CACHE) {
+    case 'memory':
+      return { backend: new MemoryCacheBackend({ maxEntries: process.env.EK_CACHE_MAX_ENTRIES ? parseInt(process.env.EK_CACHE_MAX_ENTRIES) : undefined }), ttlMs };
+    case 'filesystem':
+      return { backend: new FileSystemCacheBackend({ directory: process.env.EK_CACHE_DIR || path.join(process.env.EK_TMPDIR || os.tmpdir(), 'pdf-processor-cache') }), ttlMs };
+    default:
+      return undefined;
+  }
+}
+
+// EK_SCHEMAS_DIR : schémas de document chargés au démarrage, sélectionnés avec documentType
+if (process.env.EK_SCHEMAS_DIR) {
+  await schemaRegistry.loadDirectory(process.env.EK_SCHEMAS_DIR);
+}
 
 // Configuration du serveur
 const server = createVisionAPI({
   port: process.env.PORT ? parseInt(process.env.PORT) : 3000,
   cors: true,
-  corsOrigins: ["*"]
+  corsOrigins: ["*"],
+  pdfProcessor: { cache: cacheFromEnv() },
+  // EK_JOBS_DIR : tâches conservées sur disque ; EK_JOBS_CONCURRENCY : extractions simultanées
+  jobs: {
+    store: process.env.EK_JOBS_DIR ? new FileSystemJobStore({ directory: process.env.EK_JOBS_DIR }) : undefined,
+    concurrency: process.env.EK_JOBS_CONCURRENCY ? parseInt(process.env.EK_JOBS_CONCURRENCY) : undefined
+  }
 });
 
 // Gestion propre des signaux d'arrêt
@@ -27,5 +27,24 @@ declare module 'ai' {
     abortSignal?: AbortSignal;
     headers?: Record<string, string | undefined>;
   }): Promise<GenerateObjectResult<T>>;
+
+  export interface StreamObjectResult<OBJECT = unknown> {
+    readonly partialObjectStream: AsyncIterable<unknown>;
+    readonly object: Promise<OBJECT>;
+    readonly usage: Promise<unknown>;
+    readonly providerMetadata: Promise<unknown>;
+  }
+
+  export function streamObject<T = unknown>(options: {
+    model: LanguageModel;
+    schema: z.ZodTypeAny;
+    system?: string;
+    prompt?: string | Array<unknown>;
+    messages?: Array<unknown>;
+    maxRetries?: number;
+    abortSignal?: AbortSignal;
+    headers?: Record<string, string | undefined>;
+    onError?: (event: { error: unknown }) => void;
+  }): StreamObjectResult<T>;
 }
 
@@ -0,0 +1,197 @@
+import { runBatch } from '../src/core/vision/batch';
+import { readZipEntries, isZipArchive } from '../src/api/zip';
+import { extractPdfBatch, type BatchExtractResult } from '../src/lib';
+import { handleExtractBatchRequest } from '../src/api/handlers';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { deflateRawSync } from 'zlib';
+import { z } from 'zod';
+import { blankPng, mockOpenAI } from './helpers/mock-openai';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Archive ZIP minimale (fichiers "stored" ou "deflate"), construite sans dépendance
+ */
+function createZip(files: Array<{ name: string; content: Buffer; deflate?: boolean }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const data = file.deflate ? deflateRawSync(file.content) : file.content;
+    const crc = Bun.hash.crc32(file.content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(file.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(file.content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+const limits = { maxEntries: 10, maxEntryBytes: 1024 * 1024, maxTotalBytes: 10 * 1024 * 1024 };
+
+describe('Extraction par lot', () => {
+  let tempDir: string;
+  let imagePath: string;
+  let image: Buffer;
+
+  // API compatible OpenAI : même réponse pour chaque fichier
+  const server = mockOpenAI();
+
+  const schema = z.object({ total: z.number() });
+  const pdfProcessor = { providers: { custom: { baseURL: server.baseURL } } };
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-'));
+    imagePath = path.join(tempDir, 'scan.png');
+    image = await blankPng({ filePath: imagePath });
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('la concurrence est limitée et un échec n\'interrompt pas le lot', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const completed: string[] = [];
+
+    const results = await runBatch(['a', 'b', 'c', 'd', 'e'], item => item, async item => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await Bun.sleep(item === 'a' ? 20 : 5);
+      running--;
+      if (item === 'c') throw new Error('fichier illisible');
+      return item.toUpperCase();
+    }, { concurrency: 2, onResult: result => completed.push(result.file) });
+
+    expect(maxRunning).toBe(2);
+    expect(results.map(result => result.file)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(results[0]).toMatchObject({ index: 0, success: true, result: 'A' });
+    expect(results[2]).toMatchObject({ index: 2, success: false, error: 'fichier illisible' });
+    expect(completed[0]).toBe('b');
+    expect(completed).toHaveLength(5);
+  });
+
+  test('les fichiers ne sont plus démarrés après interruption', async () => {
+    const abort = new AbortController();
+    const results = await runBatch([1, 2, 3], String, async item => {
+      if (item === 1) abort.abort();
+      return item;
+    }, { concurrency: 1, abortSignal: abort.signal });
+
+    expect(results.map(result => result.success)).toEqual([true, false, false]);
+  });
+
+  test('les archives ZIP sont lues et filtrées', () => {
+    const archive = createZip([
+      { name: 'factures/janvier.pdf', content: Buffer.from('%PDF-1.4 janvier') },
+      { name: 'factures/fevrier.pdf', content: Buffer.from('%PDF-1.4 février'.repeat(50)), deflate: true },
+      { name: 'factures/', content: Buffer.alloc(0) },
+      { name: '__MACOSX/factures/._janvier.pdf', content: Buffer.from('meta') },
+      { name: 'notes.txt', content: Buffer.from('à ignorer') }
+    ]);
+
+    expect(isZipArchive(archive)).toBe(true);
+    expect(isZipArchive(image)).toBe(false);
+
+    const entries = readZipEntries(archive, limits, name => name.endsWith('.pdf'));
+    expect(entries.map(entry => entry.name)).toEqual(['factures/janvier.pdf', 'factures/fevrier.pdf']);
+    expect(entries[1]!.content.toString()).toBe('%PDF-1.4 février'.repeat(50));
+  });
+
+  test('les archives corrompues ou trop volumineuses sont refusées', () => {
+    const archive = createZip([{ name: 'a.pdf', content: Buffer.from('%PDF-1.4'.repeat(100)), deflate: true }]);
+
+    expect(() => readZipEntries(archive, { ...limits, maxEntryBytes: 100 })).toThrow('trop volumineux');
+
+    const corrupted = Buffer.from(archive);
+    corrupted[40] = corrupted[40]! ^ 0xff;
+    expect(() => readZipEntries(corrupted, limits)).toThrow();
+    expect(() => readZipEntries(Buffer.from('PK\x03\x04 tronqué'), limits)).toThrow('fin du répertoire central introuvable');
+  });
+
+  test('extractPdfBatch renvoie un résultat ou une erreur par fichier', async () => {
+    const notified: BatchExtractResult[] = [];
+    const results = await extractPdfBatch([imagePath, path.join(tempDir, 'absent.pdf')], schema, {
+      provider: 'custom',
+      model: 'vision-test',
+      maxRetries: 0,
+      pdfProcessor,
+      onResult: result => notified.push(result)
+    });
+
+    expect(results).toHaveLength(2);
+    expect(results[0]!.success && results[0]!.result.data).toEqual({ total: 42 });
+    expect(results[1]!.success).toBe(false);
+    expect(notified).toHaveLength(2);
+  });
+
+  test('la route par lot répond en NDJSON au fil des fichiers, archives comprises', async () => {
+    const form = new FormData();
+    form.append('file', new File([image], 'scan.png', { type: 'image/png' }));
+    form.append('file', new File([createZip([
+      { name: 'lot/page.png', content: image },
+      { name: 'lot/abime.png', content: Buffer.from('pas une image') },
+      { name: 'lot/lisez-moi.txt', content: Buffer.from('ignoré') }
+    ])], 'lot.zip', { type: 'application/zip' }));
+    form.append('provider', 'custom');
+    form.append('model', 'vision-test');
+    form.append('concurrency', '2');
+    form.append('query', JSON.stringify({ type: 'object', properties: { total: { type: 'number' } } }));
+
+    const response = await handleExtractBatchRequest(new Request('http://localhost/api/v1/vision/extract/batch', { method: 'POST', body: form }), {}, pdfProcessor);
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+
+    const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toHaveLength(4);
+
+    const results = lines.filter(line => line.type === 'result').sort((a, b) => a.index - b.index);
+    expect(results.map(result => result.file)).toEqual(['scan.png', 'lot.zip/lot/page.png', 'lot.zip/lot/abime.png']);
+    expect(results[0].success).toBe(true);
+    expect(results[0].data.total).toBe(42);
+    expect(results[1].success).toBe(true);
+    expect(results[2].success).toBe(false);
+    expect(lines[3]).toMatchObject({ type: 'summary', total: 3, succeeded: 2, failed: 1 });
+  });
+
+  test('la route par lot refuse une concurrence hors limites', async () => {
+    const form = new FormData();
+    form.append('file', new File([image], 'scan.png'));
+    form.append('concurrency', '50');
+
+    const response = await handleExtractBatchRequest(new Request('http://localhost/api/v1/vision/extract/batch', { method: 'POST', body: form }), {});
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,56 @@
+import { fieldProbabilitiesFromLogprobs, scanJsonLeaves, scoreFieldConfidence } from '../src/core/vision/confidence';
+import { describe, test, expect } from 'bun:test';
+
+/**
+ * Découpe un texte JSON en tokens avec la même probabilité, sauf ceux indiqués
+ */
+function tokenize(parts: Array<string | [string, number]>) {
+  return parts.map(part => typeof part === 'string'
+    ? { token: part, logprob: 0 }
+    : { token: part[0], logprob: part[1] });
+}
+
+describe('Confiance par champ', () => {
+  test('repère les valeurs feuilles et leur position dans le JSON', () => {
+    const text = '```json\n{"total": 12.5, "lines": [{"label": "Café \\"bio\\""}, {"label": null}]}';
+    const spans = scanJsonLeaves(text);
+
+    expect(spans.map(span => span.path)).toEqual(['total', 'lines[0].label', 'lines[1].label']);
+    expect(text.slice(spans[1]!.start, spans[1]!.end)).toBe('"Café \\"bio\\""');
+  });
+
+  test('calcule la probabilité de chaque valeur à partir des logprobs', () => {
+    const tokens = tokenize(['{"', 'total', '": ', ['12', Math.log(0.5)], ['.5', Math.log(0.5)], ', "', 'date', '": "', ['2024', Math.log(0.9)], '"}']);
+    const probabilities = fieldProbabilitiesFromLogprobs(tokens);
+
+    expect(probabilities.total).toBe(0.5);
+    // Les guillemets de la valeur font partie des tokens pris en compte
+    expect(probabilities.date).toBeGreaterThan(0.9);
+  });
+
+  test('ignore les sources en mode grounding', () => {
+    const tokens = tokenize(['{"total": {"value": ', ['42', Math.log(0.8)], ', "source": {"image": 1, "bbox": [0, 0, 1, 1]}}}']);
+    const probabilities = fieldProbabilitiesFromLogprobs(tokens, true);
+
+    expect(Object.keys(probabilities)).toEqual(['total']);
+    expect(probabilities.total).toBe(0.8);
+  });
+
+  test('combine logprobs, accord entre échantillons et incohérences', () => {
+    const { confidence, lowConfidenceFields } = scoreFieldConfidence({
+      object: { number: 'F-001', total: 120, date: '2024-01-01' },
+      logprobs: { number: 0.9, total: 0.9 },
+      samples: [{ number: 'F-001', total: 126, date: '2024-01-01' }],
+      warnings: [
+        { code: 'total_mismatch', message: 'Total incohérent', paths: ['total'] },
+        { code: 'required_field_missing', message: 'Champ manquant', paths: ['customer'] }
+      ]
+    });
+
+    expect(confidence.number).toEqual({ score: 0.95, signals: { logprob: 0.9, agreement: 1, validation: 1 } });
+    expect(confidence.total!.score).toBe(0.35);
+    expect(confidence.date).toEqual({ score: 1, signals: { agreement: 1, validation: 1 } });
+    expect(confidence.customer).toEqual({ score: 0, signals: { validation: 0 } });
+    expect(lowConfidenceFields).toEqual(['total', 'customer']);
+  });
+});
@@ -0,0 +1,99 @@
+import { DocumentClassifier } from '../src/core/vision/document-classifier';
+import { extractDocumentPdf, extractPdfWithMetadata, registerDocumentType } from '../src/lib';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { blankPng, mockOpenAI } from './helpers/mock-openai';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Classification du type de document', () => {
+  let tempDir: string;
+  let imagePath: string;
+  let classification: object = { documentType: 'receipt', confidence: 0.92, reason: 'Ticket de caisse' };
+
+  // API compatible OpenAI : répond à la classification puis à l'extraction
+  // (le schéma demandé est transmis dans response_format)
+  const server = mockOpenAI(({ prompt, body }) => prompt.includes('Classify this document')
+    ? classification
+    : JSON.stringify(body.response_format).includes('purchase_order_number')
+      ? { purchase_order_number: 'PO-7' }
+      : { merchant_name: 'Boulangerie', total_amount: 4.2 });
+  const requests = server.requests;
+
+  const pdfProcessor = { providers: { custom: { baseURL: server.baseURL } } };
+  const options = { provider: 'custom', model: 'vision-large', maxRetries: 0, pdfProcessor, autoClassify: true, classifier: { model: 'vision-small' } };
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'classification-'));
+    imagePath = path.join(tempDir, 'ticket.png');
+    await blankPng({ width: 600, height: 900, filePath: imagePath });
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('le type détecté choisit le schéma et figure dans les métadonnées', async () => {
+    requests.length = 0;
+    const result = await extractDocumentPdf(imagePath, options);
+
+    expect(requests.map(request => request.body.model)).toEqual(['vision-small', 'vision-large']);
+    expect(result.metadata.detectedDocumentType).toEqual({ documentType: 'receipt', confidence: 0.92, reason: 'Ticket de caisse', applied: true });
+    expect(result.metadata.schemaUsed).toBe('receipt');
+    expect(result.data).toMatchObject({ merchant_name: 'Boulangerie', total_amount: 4.2 });
+    expect(result.metadata.requestCount).toBe(2);
+    expect(result.metadata.usage?.requestCount).toBe(2);
+  });
+
+  test('une confiance sous le seuil conserve le schéma par défaut', async () => {
+    classification = { documentType: 'receipt', confidence: 0.4, reason: 'Illisible' };
+    const result = await extractDocumentPdf(imagePath, options);
+
+    expect(result.metadata.detectedDocumentType?.applied).toBe(false);
+    expect(result.metadata.schemaUsed).toBe('comprehensive');
+  });
+
+  test('un échec de la classification conserve le schéma par défaut', async () => {
+    classification = new Response('quota dépassé', { status: 429 });
+    requests.length = 0;
+    const result = await extractDocumentPdf(imagePath, options);
+
+    expect(requests.map(request => request.body.model)).toEqual(['vision-small', 'vision-large']);
+    expect(result.metadata.detectedDocumentType).toMatchObject({ documentType: 'other', confidence: 0, applied: false });
+    expect(result.metadata.detectedDocumentType?.error).toBeDefined();
+    expect(result.metadata.schemaUsed).toBe('comprehensive');
+  });
+
+  test('la classification est ignorée quand un schéma est imposé', async () => {
+    requests.length = 0;
+    const result = await extractPdfWithMetadata(imagePath, z.object({ merchant_name: z.string() }), options);
+
+    expect(requests).toHaveLength(1);
+    expect(result.metadata.detectedDocumentType).toBeUndefined();
+  });
+
+  test('les types enregistrés sont proposés au modèle', async () => {
+    registerDocumentType({
+      name: 'purchase-order',
+      description: 'Purchase order sent by a buyer',
+      options: { customSchema: z.object({ purchase_order_number: z.string() }) }
+    });
+    classification = { documentType: 'purchase-order', confidence: 0.8, reason: 'Bon de commande' };
+    requests.length = 0;
+
+    const result = await extractDocumentPdf(imagePath, options);
+
+    expect(requests[0]!.prompt).toContain('purchase-order: Purchase order sent by a buyer');
+    expect(result.metadata.detectedDocumentType?.documentType).toBe('purchase-order');
+    expect(result.data).toEqual({ purchase_order_number: 'PO-7' });
+  });
+
+  test('les noms de type invalides sont refusés', () => {
+    const classifier = new DocumentClassifier();
+    expect(() => classifier.register({ name: 'other', description: '', options: {} })).toThrow('Nom de type de document invalide');
+    expect(() => classifier.register({ name: 'bon de commande', description: '', options: {} })).toThrow('Nom de type de document invalide');
+    expect(classifier.names()).toEqual(['invoice', 'receipt', 'tables', 'utility-bill']);
+  });
+});
@@ -0,0 +1,129 @@
+import { detectBoundaries, type PageSignal } from '../src/core/vision/document-splitter';
+import { extractPdfDocuments } from '../src/lib';
+import { handleExtractRequest } from '../src/api/handlers';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { blankPng, chatCompletion, mockOpenAI } from './helpers/mock-openai';
+import sharp from 'sharp';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const page = (page: number, signal: Partial<PageSignal> = {}): PageSignal => ({
+  page, startsNewDocument: false, pageLabel: null, documentType: null, documentNumber: null, ...signal
+});
+
+describe('Découpage en sous-documents', () => {
+  let tempDir: string;
+  let imagePath: string;
+
+  // API compatible OpenAI : découpage (pages 1-2 puis page 3) et extraction du sous-document
+  const server = mockOpenAI(({ prompt }) => prompt.includes('scanned together')
+    ? { pages: [
+        page(1, { startsNewDocument: true, pageLabel: 1, documentNumber: 'F-1' }),
+        page(2, { pageLabel: 2, documentNumber: 'F-1' }),
+        page(3, { startsNewDocument: true, pageLabel: 1, documentNumber: 'F-2' })
+      ] }
+    : chatCompletion({ invoice_number: 'F-1' }, { usage: { prompt_tokens: 100, completion_tokens: 10 } }));
+
+  const pdfProcessor = { providers: { custom: { baseURL: server.baseURL } } };
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'splitting-'));
+    imagePath = path.join(tempDir, 'scan.png');
+    await blankPng({ width: 200, height: 300, filePath: imagePath });
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('les limites suivent en-têtes, numérotation et numéros de document', () => {
+    const segments = detectBoundaries([
+      page(1, { startsNewDocument: true, pageLabel: 1, documentType: 'Invoice', documentNumber: 'F-1' }),
+      page(2, { pageLabel: 2 }),
+      page(3, { pageLabel: 1, documentNumber: 'F-2' }),
+      page(4, { documentType: 'invoice', documentNumber: 'F-3' }),
+      page(5, { documentType: 'delivery note' }),
+      page(6)
+    ]);
+
+    expect(segments.map(segment => segment.pages)).toEqual([[1, 2], [3], [4], [5, 6]]);
+    expect(segments[0]).toMatchObject({ startPage: 1, endPage: 2, documentType: 'invoice', documentNumber: 'F-1', reasons: [] });
+    expect(segments[1]!.reasons).toEqual(['page-number-reset', 'document-number-change']);
+    expect(segments[2]!.reasons).toEqual(['document-number-change']);
+    expect(segments[3]!.reasons).toEqual(['document-type-change']);
+  });
+
+  test('une page numérotée au-delà de 1 reste rattachée malgré un en-tête répété', () => {
+    const segments = detectBoundaries([
+      page(1, { startsNewDocument: true, pageLabel: 1, documentNumber: 'F-1' }),
+      page(2, { startsNewDocument: true, pageLabel: 2, documentNumber: 'f-1' }),
+      page(3, { startsNewDocument: true, pageLabel: 2, documentNumber: 'F-9' })
+    ]);
+
+    expect(segments.map(segment => segment.pages)).toEqual([[1, 2], [3]]);
+    expect(segments[1]!.reasons).toEqual(['new-header', 'document-number-change']);
+  });
+
+  test('un fichier d\'une page est extrait sans appel de découpage', async () => {
+    server.requests.length = 0;
+    const { documents, metadata } = await extractPdfDocuments(imagePath, {
+      provider: 'custom',
+      model: 'vision-test',
+      maxRetries: 0,
+      pdfProcessor,
+      customSchema: z.object({ invoice_number: z.string() })
+    });
+
+    expect(server.requests).toHaveLength(1);
+    expect(documents).toHaveLength(1);
+    expect(documents[0]).toMatchObject({ startPage: 1, endPage: 1, pages: [1] });
+    expect(documents[0]!.result.data).toEqual({ invoice_number: 'F-1' });
+    expect(metadata).toMatchObject({ pageCount: 1, requestCount: 1 });
+    expect(metadata.usage.totalTokens).toBe(110);
+  });
+
+  test('la route d\'extraction renvoie les sous-documents avec split=true', async () => {
+    const form = new FormData();
+    form.append('file', new File([await fs.readFile(imagePath)], 'scan.png', { type: 'image/png' }));
+    form.append('provider', 'custom');
+    form.append('model', 'vision-test');
+    form.append('split', 'true');
+    form.append('query', JSON.stringify({ type: 'object', properties: { invoice_number: { type: 'string' } } }));
+
+    const response = await handleExtractRequest(new Request('http://localhost/api/v1/vision/extract', { method: 'POST', body: form }), {}, pdfProcessor);
+    const body = await response.json() as any;
+
+    expect(body.success).toBe(true);
+    expect(body.documents).toHaveLength(1);
+    expect(body.documents[0].result.data.invoice_number).toBe('F-1');
+    expect(body.metadata.requestCount).toBe(1);
+  });
+
+  test('chaque sous-document d\'un TIFF multi-pages n\'est extrait que sur ses pages', async () => {
+    const pages = await Promise.all(['#ff0000', '#00ff00', '#0000ff'].map(background =>
+      sharp({ create: { width: 40, height: 30, channels: 3, background } }).png().toBuffer()
+    ));
+    const tiffPath = path.join(tempDir, 'lot.tiff');
+    await sharp(pages, { join: { animated: true } }).tiff().toFile(tiffPath);
+
+    server.requests.length = 0;
+    const { documents } = await extractPdfDocuments(tiffPath, {
+      provider: 'custom',
+      model: 'vision-test',
+      maxRetries: 0,
+      pdfProcessor,
+      customSchema: z.object({ invoice_number: z.string() })
+    });
+
+    expect(documents.map(document => document.pages)).toEqual([[1, 2], [3]]);
+    expect(documents.map(document => document.result.metadata.pageCount)).toEqual([2, 1]);
+
+    // Découpage puis une extraction par sous-document, chacune avec ses seules images
+    const images = (prompt: string) => prompt.match(/data:image[^"]*/g) || [];
+    const extractions = server.requests.slice(1);
+    expect(extractions.map(request => images(request.prompt).length)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,52 @@
+import { EnsembleVoter } from '../src/core/vision/ensemble';
+import { describe, test, expect } from 'bun:test';
+
+describe('Vote d\'ensemble', () => {
+  const voter = new EnsembleVoter();
+
+  test('retient la valeur majoritaire et signale les divergences', () => {
+    const result = voter.vote([
+      { member: 'mistral', object: { number: 'F-001', total: 120, customer: null } },
+      { member: 'ollama', object: { number: 'F-00l', total: 120, customer: 'ACME' } },
+      { member: 'scaleway', object: { number: 'F-001', total: 126, customer: null } }
+    ]);
+
+    expect(result.object).toEqual({ number: 'F-001', total: 120, customer: null });
+    expect(result.disagreements.map(disagreement => disagreement.path)).toEqual(['number', 'total', 'customer']);
+    expect(result.disagreements[0]!.values).toEqual([
+      { value: 'F-001', members: ['mistral', 'scaleway'] },
+      { value: 'F-00l', members: ['ollama'] }
+    ]);
+  });
+
+  test('à égalité, préfère une valeur non nulle puis le premier membre', () => {
+    const result = voter.vote([
+      { member: 'mistral', object: { date: null, total: 120 } },
+      { member: 'ollama', object: { date: '2024-01-01', total: 126 } }
+    ]);
+
+    expect(result.object).toEqual({ date: '2024-01-01', total: 120 });
+  });
+
+  test('vote sur le nombre d\'éléments puis élément par élément', () => {
+    const result = voter.vote([
+      { member: 'a', object: { lines: [{ label: 'Café' }, { label: 'Thé' }] } },
+      { member: 'b', object: { lines: [{ label: 'Café' }, { label: 'The' }, { label: 'Sucre' }] } },
+      { member: 'c', object: { lines: [{ label: 'café' }, { label: 'Thé' }] } }
+    ]);
+
+    expect(result.object).toEqual({ lines: [{ label: 'Café' }, { label: 'Thé' }] });
+    expect(result.disagreements.map(disagreement => disagreement.path)).toEqual(['lines.length', 'lines[1].label']);
+  });
+
+  test('stratégie confidence : la probabilité la plus élevée l\'emporte et ses positions sont reprises', () => {
+    const result = voter.vote([
+      { member: 'a', object: { total: 120 }, logprobs: { total: 0.4 }, grounding: { total: { page: 1, bbox: [0, 0, 0.1, 0.1] } } },
+      { member: 'b', object: { total: 126 }, logprobs: { total: 0.95 }, grounding: { total: { page: 1, bbox: [0.5, 0.5, 0.6, 0.6] } } }
+    ], 'confidence');
+
+    expect(result.object).toEqual({ total: 126 });
+    expect(result.logprobs).toEqual({ total: 0.95 });
+    expect(result.grounding?.total?.bbox).toEqual([0.5, 0.5, 0.6, 0.6]);
+  });
+});
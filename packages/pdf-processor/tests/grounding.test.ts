@@ -0,0 +1,40 @@
+import { augmentSchemaForGrounding, unwrapGrounding } from '../src/core/vision/grounding';
+import { ComprehensiveInvoiceSchema } from '../src/core/schemas';
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+
+describe('Grounding', () => {
+  const schema = z.object({
+    invoice_number: z.string().nullable(),
+    line_items: z.array(z.object({ description: z.string(), line_total: z.number().optional() })),
+  });
+
+  test('demande une position pour chaque champ feuille', () => {
+    const augmented = augmentSchemaForGrounding(schema);
+    const source = { image: 1, bbox: [0.1, 0.1, 0.3, 0.15] };
+
+    expect(augmented.safeParse({
+      invoice_number: { value: 'F-001', source },
+      line_items: [{ description: { value: 'A', source }, line_total: { value: 10, source: null } }],
+    }).success).toBe(true);
+    expect(augmented.safeParse({ invoice_number: 'F-001', line_items: [] }).success).toBe(false);
+
+    // Le schéma complet de facture reste convertible
+    expect(() => augmentSchemaForGrounding(ComprehensiveInvoiceSchema)).not.toThrow();
+  });
+
+  test('sépare les données et ramène les boîtes aux coordonnées de la page', () => {
+    const region = { left: 500, top: 1000, width: 1000, height: 1000, pageWidth: 2000, pageHeight: 4000 };
+    const { data, grounding } = unwrapGrounding({
+      invoice_number: { value: 'F-001', source: { image: 1, bbox: [0.1, 0.2, 0.3, 0.25] } },
+      line_items: [
+        { description: { value: 'A', source: { image: 2, bbox: [0.5, 0.5, 1, 0.6] } }, line_total: { value: 12.5, source: null } },
+      ],
+    }, [{ page: 1 }, { page: 3, region }]);
+
+    expect(schema.parse(data)).toEqual({ invoice_number: 'F-001', line_items: [{ description: 'A', line_total: 12.5 }] });
+    expect(grounding['invoice_number']).toEqual({ page: 1, bbox: [0.1, 0.2, 0.3, 0.25] });
+    expect(grounding['line_items[0].description']).toEqual({ page: 3, bbox: [0.5, 0.375, 0.75, 0.4] });
+    expect(grounding['line_items[0].line_total']).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import type { ProcessedVisionImage } from '../../src/core/vision/image-optimization';
+import sharp from 'sharp';
+
+/**
+ * Fixtures partagées des tests : API compatible OpenAI simulée et images de test
+ */
+
+/**
+ * Requête reçue par l'API simulée
+ */
+export interface MockRequest {
+  path: string;
+  headers: Headers;
+  body: any;
+  /** Messages sérialisés, pour vérifier le contenu du prompt */
+  prompt: string;
+  /** Interrompu quand le client abandonne la requête */
+  signal: AbortSignal;
+}
+
+/**
+ * Réponse de l'API simulée : objet ou texte renvoyé comme contenu du message, ou réponse HTTP complète
+ */
+export type MockReply = Response | object | string;
+
+export interface MockOpenAI {
+  /** baseURL à passer au provider, ex: { custom: { baseURL: mock.baseURL } } */
+  baseURL: string;
+  /** Origine du serveur, pour les providers servis sous un autre chemin */
+  origin: string;
+  /** Requêtes reçues, dans l'ordre */
+  requests: MockRequest[];
+  stop(): void;
+}
+
+export interface MockUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+const DEFAULT_USAGE: MockUsage = { prompt_tokens: 10, completion_tokens: 5 };
+
+/**
+ * Image déjà optimisée, pour appeler AIGenerator sans passer par Sharp
+ */
+export const TEST_IMAGE: ProcessedVisionImage = { base64: 'AAAA', optimizedSizeBytes: 3, originalSizeBytes: 3, compressionRatio: 1, optimizations: [] };
+
+/**
+ * Démarre une API compatible OpenAI sur un port libre ; `reply` construit la réponse de chaque requête
+ */
+export function mockOpenAI(reply: (request: MockRequest) => MockReply | Promise<MockReply> = () => ({ total: 42 })): MockOpenAI {
+  const requests: MockRequest[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = await req.json() as any;
+      const request: MockRequest = { path: new URL(req.url).pathname, headers: req.headers, body, prompt: JSON.stringify(body.messages), signal: req.signal };
+      requests.push(request);
+
+      const content = await reply(request);
+      return content instanceof Response ? content : chatCompletion(content, { model: body.model });
+    }
+  });
+
+  return {
+    baseURL: `http://localhost:${server.port}/v1`,
+    origin: `http://localhost:${server.port}`,
+    requests,
+    stop: () => server.stop(true)
+  };
+}
+
+/**
+ * Réponse chat.completion contenant `content` (sérialisé en JSON si ce n'est pas du texte)
+ */
+export function chatCompletion(content: object | string, options: { model?: string; usage?: MockUsage } = {}): Response {
+  const usage = options.usage || DEFAULT_USAGE;
+  return Response.json({
+    id: 'chatcmpl-test',
+    object: 'chat.completion',
+    created: 0,
+    model: options.model || 'vision-test',
+    choices: [{ index: 0, message: { role: 'assistant', content: typeof content === 'string' ? content : JSON.stringify(content) }, finish_reason: 'stop' }],
+    usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens }
+  });
+}
+
+/**
+ * Réponse chat.completion en flux SSE, un fragment de contenu par événement
+ */
+export function chatCompletionStream(fragments: string[], options: { model?: string; usage?: MockUsage } = {}): Response {
+  const usage = options.usage || DEFAULT_USAGE;
+  const chunk = (choices: object[], extra: object = {}) => ({
+    id: 'chatcmpl-test',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: options.model || 'vision-test',
+    choices,
+    ...extra
+  });
+
+  const events = [
+    ...fragments.map((content, index) => chunk([{ index: 0, delta: index === 0 ? { role: 'assistant', content } : { content }, finish_reason: null }])),
+    chunk([{ index: 0, delta: {}, finish_reason: 'stop' }]),
+    chunk([], { usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens } })
+  ];
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/**
+ * Page blanche PNG, écrite dans `filePath` si précisé
+ */
+export async function blankPng(options: { width?: number; height?: number; filePath?: string } = {}): Promise<Buffer> {
+  const image = sharp({ create: { width: options.width || 64, height: options.height || 64, channels: 3, background: '#ffffff' } }).png();
+  const buffer = await image.toBuffer();
+  if (options.filePath) {
+    await Bun.write(options.filePath, buffer);
+  }
+  return buffer;
+}
@@ -0,0 +1,47 @@
+/**
+ * PDF minimal construit sans dépendance, pour les tests de la couche texte
+ */
+
+export interface TestPdfPage {
+  /** Lignes de texte (Helvetica 12 pt), la première à 72 pt du haut de la page, espacées de 20 pt */
+  lines?: string[];
+  /** Image pleine page à la place du texte, comme un PDF scanné */
+  scanned?: boolean;
+}
+
+/**
+ * PDF US Letter (612 × 792 pt), une page par entrée
+ */
+export function buildPdf(pages: TestPdfPage[]): Buffer {
+  const objects: string[] = [];
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  // Pixel gris étiré sur toute la page
+  objects[4] = '<< /Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8 /Length 1 >>\nstream\n\x80\nendstream';
+
+  const pageIds: number[] = [];
+  let id = 5;
+  for (const page of pages) {
+    const content = page.scanned
+      ? 'q 612 0 0 792 0 0 cm /Im1 Do Q'
+      : (page.lines || []).map((line, index) => `BT /F1 12 Tf 72 ${708 - index * 20} Td (${line}) Tj ET`).join('\n');
+
+    objects[id] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    objects[id + 1] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${id} 0 R /Resources << /Font << /F1 3 0 R >> /XObject << /Im1 4 0 R >> >> >>`;
+    pageIds.push(id + 1);
+    id += 2;
+  }
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(pageId => `${pageId} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let index = 1; index < id; index++) {
+    offsets.push(pdf.length);
+    pdf += `${index} 0 obj\n${objects[index]}\nendobj\n`;
+  }
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${id}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${id} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,83 @@
+import { correctOrientation, detectContentBox, detectMarginBox, resolveCrop } from '../src/core/vision/image-analysis';
+import { describe, test, expect, beforeAll } from 'bun:test';
+import sharp from 'sharp';
+
+/**
+ * Page synthétique : lignes de "mots" alignées à gauche, fin de ligne irrégulière
+ */
+async function createTextPage(): Promise<Buffer> {
+  const words: string[] = [];
+  for (let line = 0; line < 30; line++) {
+    const y = 100 + line * 40;
+    const end = 400 + ((line * 137) % 380);
+    let x = 80;
+    while (x < end) {
+      const width = 20 + ((x * 7 + line * 13) % 50);
+      words.push(`<rect x="${x}" y="${y}" width="${width}" height="14" fill="black"/>`);
+      x += width + 10;
+    }
+  }
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="900" height="1400"><rect width="900" height="1400" fill="white"/>${words.join('')}</svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+describe('Correction d\'orientation', () => {
+  let page: Buffer;
+
+  beforeAll(async () => {
+    page = await createTextPage();
+  });
+
+  const rotate = (angle: number) => sharp(page).rotate(angle, { background: '#ffffff' }).png().toBuffer();
+
+  test('laisse intacte une page droite', async () => {
+    const result = await correctOrientation(page);
+    expect(result.optimizations).toEqual([]);
+    expect(result.image).toBe(page);
+  });
+
+  test('détecte les quarts de tour', async () => {
+    expect((await correctOrientation(await rotate(90))).optimizations).toEqual(['rotate-270']);
+    expect((await correctOrientation(await rotate(180))).optimizations).toEqual(['rotate-180']);
+    expect((await correctOrientation(await rotate(270))).optimizations).toEqual(['rotate-90']);
+  });
+
+  test('redresse une page inclinée', async () => {
+    const result = await correctOrientation(await rotate(3));
+    expect(result.optimizations).toEqual(['deskew-3.00deg']);
+
+    const corrected = await correctOrientation(result.image);
+    expect(corrected.optimizations).toEqual([]);
+  });
+});
+
+
+describe('Recadrage sur le contenu', () => {
+  let page: Buffer;
+
+  beforeAll(async () => {
+    page = await createTextPage();
+  });
+
+  test('encadre la zone de texte', async () => {
+    const box = await detectContentBox(page);
+    expect(box).not.toBeNull();
+    expect(box!.left).toBeLessThanOrEqual(80);
+    expect(box!.left).toBeGreaterThan(40);
+    expect(box!.top).toBeLessThanOrEqual(100);
+    expect(box!.top).toBeGreaterThan(60);
+    expect(box!.top + box!.height).toBeGreaterThanOrEqual(1274);
+    expect(box!.top + box!.height).toBeLessThan(1340);
+  });
+
+  test('retire les marges blanches', async () => {
+    const box = await detectMarginBox(page);
+    expect(box).toEqual({ left: 80, top: 100, width: expect.any(Number), height: 1174 });
+  });
+
+  test('conserve le recadrage centré historique', async () => {
+    const crop = await resolveCrop(page, undefined, 80);
+    expect(crop).toEqual({ box: { left: 90, top: 140, width: 720, height: 1120 }, label: 'crop-80%' });
+    expect(await resolveCrop(page, undefined, undefined)).toBeNull();
+  });
+});
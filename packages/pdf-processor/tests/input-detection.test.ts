@@ -0,0 +1,95 @@
+import { detectInputType, extractImagesFromRaster } from '../src/core/file-processor';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import sharp from 'sharp';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Détection du type de fichier', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'input-detection-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const createImage = async (name: string, format: 'png' | 'jpeg' | 'tiff') => {
+    const imagePath = path.join(tempDir, name);
+    await sharp({ create: { width: 64, height: 64, channels: 3, background: '#ffffff' } })
+      .toFormat(format)
+      .toFile(imagePath);
+    return imagePath;
+  };
+
+  test('reconnaît les PDF quelle que soit leur extension', async () => {
+    const pdfPath = path.join(tempDir, 'upload.bin');
+    await fs.copyFile(path.join(__dirname, '../data/invoice_1.pdf'), pdfPath);
+    expect(await detectInputType(pdfPath)).toBe('pdf');
+  });
+
+  test('reconnaît les images JPEG, PNG et TIFF', async () => {
+    expect(await detectInputType(await createImage('photo.jpg', 'jpeg'))).toBe('image');
+    expect(await detectInputType(await createImage('scan.png', 'png'))).toBe('image');
+    expect(await detectInputType(await createImage('fax.tiff', 'tiff'))).toBe('image');
+  });
+
+  test('rejette les formats non supportés', async () => {
+    const textPath = path.join(tempDir, 'notes.txt');
+    await fs.writeFile(textPath, 'pas un document');
+    await expect(detectInputType(textPath)).rejects.toThrow('Unsupported file format');
+  });
+
+  test('décode les photos HEIC, que Sharp ne sait pas lire', async () => {
+    // data/photo.heic : image HEVC 64x48 encodée avec x265, moitié gauche rouge, moitié droite bleue
+    const heicPath = path.join(tempDir, 'IMG_0001.HEIC');
+    await fs.copyFile(path.join(__dirname, '../data/photo.heic'), heicPath);
+    expect(await detectInputType(heicPath)).toBe('image');
+
+    const outputDir = await fs.mkdtemp(path.join(tempDir, 'heic-'));
+    const result = await extractImagesFromRaster(heicPath, outputDir, {});
+    expect(result).toEqual({ imagePaths: [path.join(outputDir, 'page-1.png')], pageNumbers: [1] });
+
+    const { data, info } = await sharp(result.imagePaths[0]!).raw().toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height]).toEqual([64, 48]);
+    const pixel = (x: number, y: number) => [...data.subarray((y * info.width + x) * info.channels, (y * info.width + x) * info.channels + 3)];
+    const [red, green, blue] = pixel(8, 24) as [number, number, number];
+    expect(red).toBeGreaterThan(200);
+    expect(Math.max(green, blue)).toBeLessThan(60);
+    const [red2, green2, blue2] = pixel(56, 24) as [number, number, number];
+    expect(blue2).toBeGreaterThan(200);
+    expect(Math.max(red2, green2)).toBeLessThan(60);
+  });
+
+  test('utilise directement une image mono-page', async () => {
+    const imagePath = await createImage('receipt.jpg', 'jpeg');
+    const result = await extractImagesFromRaster(imagePath, tempDir, {});
+    expect(result).toEqual({ imagePaths: [imagePath], pageNumbers: [1] });
+  });
+
+  test('découpe un TIFF multi-pages en une image par page sélectionnée', async () => {
+    const colors = ['#ff0000', '#00ff00', '#0000ff'];
+    const pages = await Promise.all(colors.map(background =>
+      sharp({ create: { width: 40, height: 30, channels: 3, background } }).png().toBuffer()
+    ));
+    const tiffPath = path.join(tempDir, 'fax-multi.tiff');
+    await sharp(pages, { join: { animated: true } }).tiff().toFile(tiffPath);
+
+    const outputDir = await fs.mkdtemp(path.join(tempDir, 'pages-'));
+    const all = await extractImagesFromRaster(tiffPath, outputDir, {});
+    expect(all.pageNumbers).toEqual([1, 2, 3]);
+    expect(all.imagePaths).toEqual([1, 2, 3].map(page => path.join(outputDir, `page-${page}.png`)));
+
+    const selected = await extractImagesFromRaster(tiffPath, outputDir, { pages: '2-3' });
+    expect(selected.pageNumbers).toEqual([2, 3]);
+
+    // Chaque page garde son contenu : la page 2 est verte
+    const { data, info } = await sharp(selected.imagePaths[0]!).raw().toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height]).toEqual([40, 30]);
+    const [red = 0, green = 0, blue = 0] = data;
+    expect(green).toBeGreaterThan(250);
+    expect(Math.max(red, blue)).toBeLessThan(5);
+  });
+});
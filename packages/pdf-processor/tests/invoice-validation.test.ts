@@ -0,0 +1,66 @@
+import { consistencyValidator } from '../src/core/validation';
+import { ComprehensiveInvoiceSchema, TablesOnlySchema } from '../src/core/schemas';
+import { describe, test, expect } from 'bun:test';
+
+describe('Cohérence arithmétique des factures', () => {
+  const validate = (invoice: any) => consistencyValidator.validate(invoice, ComprehensiveInvoiceSchema, 'invoice');
+
+  const invoice = {
+    line_items: [
+      { description: 'Conseil', quantity: 3, unit_price: 33.33, line_total: 99.99, tax_rate: 20 },
+      { description: 'Licence', quantity: 1, unit_price: 50, line_total: 50, tax_rate: 20 },
+    ],
+    financial_totals: { subtotal: 149.99, tax_total: 30, total_amount: 179.99, amount_paid: 100, balance_due: 79.99 },
+  };
+
+  test('accepte une facture cohérente aux arrondis près', () => {
+    expect(validate(invoice)).toEqual([]);
+  });
+
+  test('signale les écarts avec les chemins des champs concernés', () => {
+    const warnings = validate({
+      line_items: [
+        { quantite: 2, prix_unitaire: 10, montant_ht: 25 },
+        { quantite: 1, prix_unitaire: 5, montant_ht: 5 },
+      ],
+      financial_totals: { total_ht: 30, total_tva: 6, total_ttc: 40, balance_due: 36 },
+    });
+
+    expect(warnings.map(warning => warning.code)).toEqual(['line_total_mismatch', 'total_mismatch', 'balance_due_mismatch']);
+    expect(warnings[0]).toMatchObject({
+      paths: ['line_items[0].quantite', 'line_items[0].prix_unitaire', 'line_items[0].montant_ht'],
+      expected: 20,
+      actual: 25,
+    });
+    expect(warnings[1]).toMatchObject({ expected: 36, actual: 40 });
+  });
+
+  test('vérifie la somme des lignes et la TVA', () => {
+    const warnings = validate({
+      ...invoice,
+      financial_totals: { subtotal: 160, tax_total: 35, total_amount: 195 },
+    });
+
+    expect(warnings.map(warning => warning.code)).toEqual(['subtotal_mismatch', 'tax_mismatch']);
+    expect(warnings[0]).toMatchObject({ expected: 149.99, actual: 160 });
+  });
+
+  test('ne s\'applique pas aux autres schémas', () => {
+    expect(consistencyValidator.validate({ line_items: [{ quantity: 2, unit_price: 1, line_total: 5 }] }, TablesOnlySchema, 'tables-only')).toEqual([]);
+  });
+
+  test('signale les champs obligatoires manquants', () => {
+    const warnings = consistencyValidator.validate(
+      { invoice_details: { invoice_number: ' ' }, line_items: [{ description: 'A' }, { description: null }] },
+      ComprehensiveInvoiceSchema,
+      'invoice',
+      { requiredFields: ['invoice_details.invoice_number', 'line_items[].description', 'financial_totals.total_amount'] }
+    );
+
+    expect(warnings.filter(warning => warning.code === 'required_field_missing').map(warning => warning.paths[0])).toEqual([
+      'invoice_details.invoice_number',
+      'line_items[1].description',
+      'financial_totals.total_amount',
+    ]);
+  });
+});
@@ -0,0 +1,289 @@
+import { JobQueue, MemoryJobStore, FileSystemJobStore, verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, type ExtractionJob } from '../src/core/jobs';
+import { handleCancelJobRequest, handleCreateJobRequest, handleGetJobRequest } from '../src/api/handlers';
+import type { AIVisionProcessingOptions, AIVisionResult } from '../src/core/vision/processor';
+import { describe, test, expect } from 'bun:test';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Résultat minimal renvoyé par le processeur simulé
+ */
+function fakeResult(filePath: string): AIVisionResult {
+  return {
+    data: { file: path.basename(filePath) },
+    metadata: {
+      pageCount: 1,
+      processingTime: 1,
+      provider: 'scaleway',
+      model: 'test',
+      schemaUsed: 'custom',
+      optimizationMetrics: { originalSizeMB: 0, optimizedSizeMB: 0, compressionRatio: 1 }
+    },
+    validation: { success: true }
+  };
+}
+
+/**
+ * Processeur simulé : chaque extraction attend d'être libérée par le test (ou l'annulation)
+ */
+function controllableProcessor() {
+  const releases: Array<() => void> = [];
+  const calls: AIVisionProcessingOptions[] = [];
+  const processor = (filePath: string, options: AIVisionProcessingOptions) => {
+    calls.push(options);
+    return new Promise<AIVisionResult>((resolve, reject) => {
+      releases.push(() => resolve(fakeResult(filePath)));
+      options.abortSignal?.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  };
+  return { processor, releases, calls };
+}
+
+describe('Tâches asynchrones', () => {
+  test('les tâches sont exécutées dans l\'ordre et leur résultat conservé', async () => {
+    const { processor, releases } = controllableProcessor();
+    const queue = new JobQueue({ processor });
+
+    const first = await queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' }, fileName: 'a.pdf' });
+    const second = await queue.submit({ filePath: '/tmp/b.pdf', options: { provider: 'scaleway' } });
+    expect(first.status).toBe('queued');
+
+    await Bun.sleep(5);
+    expect((await queue.get(first.id))?.status).toBe('running');
+    expect((await queue.get(second.id))?.status).toBe('queued');
+
+    releases[0]!();
+    await Bun.sleep(5);
+    releases[1]!();
+    await queue.onIdle();
+
+    const done = await queue.get(first.id);
+    expect(done?.status).toBe('succeeded');
+    expect(done?.fileName).toBe('a.pdf');
+    expect(done?.result?.data).toEqual({ file: 'a.pdf' });
+    expect(done?.startedAt).toBeDefined();
+    expect((await queue.get(second.id))?.result?.data).toEqual({ file: 'b.pdf' });
+  });
+
+  test('une erreur du processeur marque la tâche en échec', async () => {
+    const queue = new JobQueue({ processor: async () => { throw new Error('modèle indisponible'); } });
+    const job = await queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' } });
+    await queue.onIdle();
+
+    const failed = await queue.get(job.id);
+    expect(failed?.status).toBe('failed');
+    expect(failed?.error).toBe('modèle indisponible');
+  });
+
+  test('l\'annulation interrompt la tâche en cours et retire la tâche en attente', async () => {
+    const { processor, calls } = controllableProcessor();
+    const cleaned: string[] = [];
+    const queue = new JobQueue({ processor });
+
+    const running = await queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' }, cleanup: async () => { cleaned.push('a'); } });
+    const queued = await queue.submit({ filePath: '/tmp/b.pdf', options: { provider: 'scaleway' }, cleanup: async () => { cleaned.push('b'); } });
+    await Bun.sleep(5);
+
+    expect((await queue.cancel(queued.id))?.status).toBe('cancelled');
+    expect((await queue.cancel(running.id))?.status).toBe('cancelled');
+    await queue.onIdle();
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.abortSignal?.aborted).toBe(true);
+    expect((await queue.get(running.id))?.status).toBe('cancelled');
+    expect(cleaned.sort()).toEqual(['a', 'b']);
+  });
+
+  test('le webhook signé est livré après une nouvelle tentative', async () => {
+    const secret = 'secret-de-test';
+    const received: Array<{ body: string; timestamp: string; signature: string }> = [];
+    let calls = 0;
+    const receiver = Bun.serve({
+      port: 0,
+      fetch: async req => {
+        calls++;
+        if (calls === 1) return new Response('indisponible', { status: 503 });
+        received.push({
+          body: await req.text(),
+          timestamp: req.headers.get(WEBHOOK_TIMESTAMP_HEADER)!,
+          signature: req.headers.get(WEBHOOK_SIGNATURE_HEADER)!
+        });
+        return new Response('ok');
+      }
+    });
+
+    try {
+      const queue = new JobQueue({ processor: async filePath => fakeResult(filePath), webhookSecret: secret, webhookRetryDelayMs: 1, allowedCallbackHosts: ['localhost'] });
+      const job = await queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' }, callbackUrl: `http://localhost:${receiver.port}/hook` });
+      await queue.onIdle();
+
+      expect(received).toHaveLength(1);
+      const delivery = received[0]!;
+      expect(verifyWebhookSignature(delivery.body, delivery.timestamp, delivery.signature, secret)).toBe(true);
+      expect(verifyWebhookSignature(delivery.body, delivery.timestamp, delivery.signature, 'autre-secret')).toBe(false);
+      expect(verifyWebhookSignature(delivery.body.replace('succeeded', 'failed'), delivery.timestamp, delivery.signature, secret)).toBe(false);
+      expect(JSON.parse(delivery.body)).toMatchObject({ id: job.id, status: 'succeeded', result: { data: { file: 'a.pdf' } } });
+
+      const stored = await queue.get(job.id);
+      expect(stored?.webhook).toMatchObject({ attempts: 2, statusCode: 200 });
+      expect(stored?.webhook?.deliveredAt).toBeDefined();
+    } finally {
+      receiver.stop(true);
+    }
+  });
+
+  test('une redirection du webhook n\'est pas suivie', async () => {
+    let internalCalls = 0;
+    const internal = Bun.serve({
+      port: 0,
+      fetch: () => {
+        internalCalls++;
+        return new Response('ok');
+      }
+    });
+    let receiverCalls = 0;
+    const receiver = Bun.serve({
+      port: 0,
+      fetch: () => {
+        receiverCalls++;
+        return Response.redirect(`http://127.0.0.1:${internal.port}/admin`, 307);
+      }
+    });
+
+    try {
+      const queue = new JobQueue({ processor: async filePath => fakeResult(filePath), webhookSecret: 'secret', webhookRetryDelayMs: 1, allowedCallbackHosts: ['localhost'] });
+      const job = await queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' }, callbackUrl: `http://localhost:${receiver.port}/hook` });
+      await queue.onIdle();
+
+      expect(receiverCalls).toBe(1);
+      expect(internalCalls).toBe(0);
+      const stored = await queue.get(job.id);
+      expect(stored?.webhook).toMatchObject({ attempts: 1, statusCode: 307, lastError: 'Redirection refusée (HTTP 307)' });
+      expect(stored?.webhook?.deliveredAt).toBeUndefined();
+    } finally {
+      receiver.stop(true);
+      internal.stop(true);
+    }
+  });
+
+  test('une URL de rappel sans secret de signature est refusée', async () => {
+    const queue = new JobQueue({ processor: async filePath => fakeResult(filePath) });
+    await expect(queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' }, callbackUrl: 'https://example.com/hook' })).rejects.toThrow('webhookSecret');
+  });
+
+  test('une URL de rappel vers une adresse interne est refusée', async () => {
+    const queue = new JobQueue({ processor: async filePath => fakeResult(filePath), webhookSecret: 'secret' });
+    const internalUrls = [
+      'http://localhost:3001/hook',
+      'http://127.0.0.1/hook',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.5/hook',
+      'http://[::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook'
+    ];
+
+    for (const callbackUrl of internalUrls) {
+      await expect(queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' }, callbackUrl })).rejects.toThrow('adresse interne');
+    }
+  });
+
+  test('les tâches interrompues par un redémarrage sont marquées en échec', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    const createdAt = new Date().toISOString();
+
+    try {
+      const store = new FileSystemJobStore({ directory });
+      await store.save({ id: 'queued-job', status: 'queued', createdAt });
+      await store.save({ id: 'running-job', status: 'running', createdAt, startedAt: createdAt });
+      await store.save({ id: 'done-job', status: 'succeeded', createdAt, result: fakeResult('/tmp/a.pdf') });
+
+      const queue = new JobQueue({ store, processor: async filePath => fakeResult(filePath) });
+      for (const id of ['queued-job', 'running-job']) {
+        const job = await queue.get(id);
+        expect(job?.status).toBe('failed');
+        expect(job?.error).toContain('redémarrage');
+        expect(job?.finishedAt).toBeDefined();
+      }
+      expect((await queue.get('done-job'))?.status).toBe('succeeded');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('une annulation pendant le démarrage de la tâche n\'est pas écrasée', async () => {
+    // Lecture de la tâche par la file retenue jusqu'à l'annulation
+    let releaseRead!: () => void;
+    const blocked = new Promise<void>(resolve => { releaseRead = resolve; });
+    const memory = new MemoryJobStore();
+    let reads = 0;
+    const store = {
+      save: (job: ExtractionJob) => memory.save(job),
+      delete: (id: string) => memory.delete(id),
+      get: async (id: string) => {
+        const job = await memory.get(id);
+        if (++reads === 1) await blocked;
+        return job;
+      }
+    };
+    const { processor, calls } = controllableProcessor();
+    const queue = new JobQueue({ store, processor });
+
+    const job = await queue.submit({ filePath: '/tmp/a.pdf', options: { provider: 'scaleway' } });
+    await queue.cancel(job.id);
+    releaseRead();
+    await queue.onIdle();
+
+    expect((await queue.get(job.id))?.status).toBe('cancelled');
+    expect(calls).toHaveLength(0);
+  });
+
+  test('les stockages conservent les tâches', async () => {
+    const job: ExtractionJob = { id: 'job-1', status: 'succeeded', createdAt: new Date().toISOString(), result: fakeResult('/tmp/a.pdf') };
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+
+    try {
+      const fileStore = new FileSystemJobStore({ directory });
+      await fileStore.save(job);
+      expect(await new FileSystemJobStore({ directory }).get('job-1')).toEqual(job);
+      expect(await fileStore.list()).toEqual([job]);
+      await fileStore.delete('job-1');
+      expect(await fileStore.get('job-1')).toBeUndefined();
+      await expect(fileStore.get('../secret')).rejects.toThrow('Identifiant de tâche invalide');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+
+    const memoryStore = new MemoryJobStore({ maxJobs: 1 });
+    await memoryStore.save(job);
+    await memoryStore.save({ ...job, id: 'job-2' });
+    expect(await memoryStore.get('job-1')).toBeUndefined();
+    expect(await memoryStore.get('job-2')).toBeDefined();
+  });
+
+  test('les routes créent, consultent et annulent une tâche', async () => {
+    const { processor, releases } = controllableProcessor();
+    const queue = new JobQueue({ processor });
+
+    const form = new FormData();
+    form.append('file', new File(['%PDF-1.4'], 'facture.pdf', { type: 'application/pdf' }));
+    const created = await handleCreateJobRequest(new Request('http://localhost/api/v1/jobs', { method: 'POST', body: form }), {}, queue);
+    expect(created.status).toBe(202);
+    const { job } = await created.json() as { job: ExtractionJob };
+    expect(created.headers.get('Location')).toBe(`/api/v1/jobs/${job.id}`);
+
+    await Bun.sleep(5);
+    const fetched = await handleGetJobRequest(job.id, {}, queue);
+    expect(((await fetched.json()) as { job: ExtractionJob }).job.status).toBe('running');
+
+    releases[0]!();
+    await queue.onIdle();
+    expect((await handleCancelJobRequest(job.id, {}, queue)).status).toBe(409);
+    expect((await handleGetJobRequest('inconnu', {}, queue)).status).toBe(404);
+
+    const invalid = new FormData();
+    invalid.append('file', new File(['%PDF-1.4'], 'facture.pdf'));
+    invalid.append('callbackUrl', 'ftp://example.com/hook');
+    expect((await handleCreateJobRequest(new Request('http://localhost/api/v1/jobs', { method: 'POST', body: invalid }), {}, queue)).status).toBe(400);
+  });
+});
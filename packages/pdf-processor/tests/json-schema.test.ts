@@ -0,0 +1,123 @@
+import { SchemaFactory, collectFieldDescriptions } from '../src/core/schemas';
+import { SchemaSelector } from '../src/core/vision/schema-selector';
+import { validateExtractRequest } from '../src/api/validation';
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+
+const fromJSON = (schema: object) => SchemaFactory.createFromJSON(JSON.stringify(schema)) as z.ZodTypeAny;
+
+describe('Conversion JSON Schema → Zod', () => {
+  test('required, enum, format et bornes sont respectés', () => {
+    const schema = fromJSON({
+      type: 'object',
+      required: ['invoice_number', 'currency', 'total'],
+      properties: {
+        invoice_number: { type: 'string', pattern: '^F-\\d+$' },
+        currency: { enum: ['EUR', 'USD'] },
+        total: { type: 'number', minimum: 0 },
+        vat_rate: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+        issue_date: { type: 'string', format: 'date' },
+        contact: { type: ['string', 'null'], format: 'email' },
+        lines: { type: 'array', minItems: 1, items: { type: 'integer' } }
+      },
+      additionalProperties: false
+    });
+
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: 10 }).success).toBe(true);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: 10, contact: null, lines: [1, 2] }).success).toBe(true);
+
+    expect(schema.safeParse({ currency: 'EUR', total: 10 }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'X-12', currency: 'EUR', total: 10 }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'GBP', total: 10 }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: -1 }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: 1, vat_rate: 0 }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: 1, issue_date: '12/03/2024' }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: 1, contact: 'pas un email' }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: 1, lines: [] }).success).toBe(false);
+    expect(schema.safeParse({ invoice_number: 'F-12', currency: 'EUR', total: 1, extra: true }).success).toBe(false);
+  });
+
+  test('les références $defs, récursives comprises, et anyOf/oneOf sont résolus', () => {
+    const schema = fromJSON({
+      type: 'object',
+      required: ['seller', 'sections'],
+      properties: {
+        seller: { $ref: '#/$defs/party' },
+        buyer: { anyOf: [{ $ref: '#/$defs/party' }, { type: 'null' }] },
+        amount: { oneOf: [{ type: 'number' }, { type: 'string', pattern: '^\\d+,\\d{2}$' }] },
+        sections: { type: 'array', items: { $ref: '#/definitions/section' } }
+      },
+      $defs: {
+        party: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+      },
+      definitions: {
+        section: {
+          type: 'object',
+          required: ['title'],
+          properties: { title: { type: 'string' }, children: { type: 'array', items: { $ref: '#/definitions/section' } } }
+        }
+      }
+    });
+
+    const data = {
+      seller: { name: 'ACME' },
+      buyer: null,
+      amount: '12,50',
+      sections: [{ title: 'A', children: [{ title: 'A.1', children: [] }] }]
+    };
+    expect(schema.safeParse(data).success).toBe(true);
+    expect(schema.safeParse({ ...data, seller: {} }).success).toBe(false);
+    expect(schema.safeParse({ ...data, amount: '12.5' }).success).toBe(false);
+    expect(schema.safeParse({ ...data, sections: [{ title: 'A', children: [{}] }] }).success).toBe(false);
+  });
+
+  test('additionalProperties décrit les dictionnaires', () => {
+    const schema = fromJSON({ type: 'object', additionalProperties: { type: 'number' } });
+
+    expect(schema.safeParse({ TVA: 20, HT: 100 }).success).toBe(true);
+    expect(schema.safeParse({ TVA: 'vingt' }).success).toBe(false);
+  });
+
+  test('les descriptions sont conservées pour le prompt', () => {
+    const schema = fromJSON({
+      type: 'object',
+      properties: {
+        total: { type: 'number', description: 'Total TTC en euros' },
+        siret: { type: 'string', format: 'siret' },
+        lines: { type: 'array', items: { type: 'object', properties: { sku: { type: 'string', description: 'Référence article' } } } }
+      }
+    });
+
+    expect(collectFieldDescriptions(schema)).toEqual([
+      { path: 'total', description: 'Total TTC en euros' },
+      { path: 'siret', description: 'format: siret' },
+      { path: 'lines[].sku', description: 'Référence article' }
+    ]);
+  });
+
+  test('les mots-clés non supportés sont listés avec leur position', () => {
+    expect(() => fromJSON({
+      type: 'object',
+      properties: {
+        seller: { allOf: [{ type: 'object' }] },
+        tags: { type: 'array', items: { type: 'string' }, uniqueItems: true }
+      },
+      'x-internal': true
+    })).toThrow('Mots-clés JSON Schema non supportés: allOf à #/properties/seller, uniqueItems à #/properties/tags');
+
+    expect(() => fromJSON({ $ref: 'https://example.com/invoice.json' })).toThrow('Référence externe non supportée');
+    expect(() => fromJSON({ $ref: '#/$defs/absent' })).toThrow('Référence introuvable');
+    expect(() => SchemaFactory.createFromJSON('{ type: object }')).toThrow('Invalid JSON schema');
+  });
+
+  test('une query JSON non convertible est refusée au lieu du schéma complet', () => {
+    const query = JSON.stringify({ type: 'object', not: { required: ['total'] } });
+
+    expect(() => new SchemaSelector().selectSchema({ provider: 'scaleway', query })).toThrow('not à #');
+    expect(new SchemaSelector().selectSchema({ provider: 'scaleway', query: '*' }).schemaName).toBe('comprehensive');
+
+    const validation = validateExtractRequest({ query });
+    expect(validation.valid).toBe(false);
+    expect(validation.error).toContain('Mots-clés JSON Schema non supportés');
+  });
+});
@@ -0,0 +1,94 @@
+import { providerRegistry } from '../src/core/providers';
+import { AIGenerator } from '../src/core/vision/ai-generator';
+import { describe, test, expect, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { TEST_IMAGE, chatCompletion, mockOpenAI } from './helpers/mock-openai';
+
+describe('Providers natifs OpenAI, Anthropic et Google', () => {
+  // Une seule API simulée pour les trois fournisseurs, qui mémorise requêtes et en-têtes
+  const server = mockOpenAI(({ path }) => {
+    if (path === '/openai/chat/completions') {
+      return chatCompletion({ total: 42 }, { model: 'gpt-4o' });
+    }
+
+    if (path === '/anthropic/messages') {
+      return Response.json({
+        id: 'msg_test',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-20250514',
+        content: [{ type: 'tool_use', id: 'toolu_test', name: 'json', input: { total: 42 } }],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+    }
+
+    if (path.startsWith('/google/models/')) {
+      return Response.json({
+        candidates: [{ content: { role: 'model', parts: [{ text: '{"total": 42}' }] }, finishReason: 'STOP', index: 0 }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 }
+      });
+    }
+
+    return new Response('Not Found', { status: 404 });
+  });
+  const requests = server.requests;
+
+  afterAll(() => server.stop());
+
+  const schema = z.object({ total: z.number() });
+  const generate = (provider: 'openai' | 'anthropic' | 'google') => new AIGenerator().generate([TEST_IMAGE], schema, {
+    provider,
+    maxRetries: 0,
+    pdfProcessor: { providers: { [provider]: { apiKey: `${provider}-key`, baseURL: `${server.origin}/${provider}` } } }
+  });
+
+  test('OpenAI demande une sortie JSON schema', async () => {
+    const result = await generate('openai');
+
+    expect(result.object).toEqual({ total: 42 });
+    expect(result.modelUsed).toBe('gpt-4o');
+    const request = requests.find(r => r.path === '/openai/chat/completions')!;
+    expect(request.headers.get('authorization')).toBe('Bearer openai-key');
+    expect(request.body.response_format.type).toBe('json_schema');
+    expect(JSON.stringify(request.body.messages)).toContain('data:image/jpeg;base64,AAAA');
+  });
+
+  test('Anthropic extrait via l\'outil JSON imposé', async () => {
+    const result = await generate('anthropic');
+
+    expect(result.object).toEqual({ total: 42 });
+    expect(result.modelUsed).toBe('claude-sonnet-4-20250514');
+    const request = requests.find(r => r.path === '/anthropic/messages')!;
+    expect(request.headers.get('x-api-key')).toBe('anthropic-key');
+    expect(request.body.tools[0].name).toBe('json');
+    expect(request.body.tools[0].input_schema.properties.total).toBeDefined();
+  });
+
+  test('Google Gemini transmet le responseSchema', async () => {
+    const result = await generate('google');
+
+    expect(result.object).toEqual({ total: 42 });
+    expect(result.modelUsed).toBe('gemini-2.5-flash');
+    const request = requests.find(r => r.path === '/google/models/gemini-2.5-flash:generateContent')!;
+    expect(request.headers.get('x-goog-api-key')).toBe('google-key');
+    expect(request.body.generationConfig.responseMimeType).toBe('application/json');
+    expect(request.body.generationConfig.responseSchema.properties.total).toBeDefined();
+  });
+
+  test('chaque provider déclare ses limites d\'image et exige une clé', () => {
+    expect(providerRegistry.getImageLimits('anthropic').maxDimension).toBe(1568);
+    expect(providerRegistry.getImageLimits('google').maxDimension).toBe(3072);
+    expect(providerRegistry.supportsLogprobs('openai')).toBe(true);
+    expect(providerRegistry.supportsLogprobs('anthropic')).toBe(false);
+
+    const savedKey = process.env.EK_ANTHROPIC_API_KEY;
+    delete process.env.EK_ANTHROPIC_API_KEY;
+    try {
+      expect(() => providerRegistry.createModel('anthropic')).toThrow('Anthropic API key requis');
+    } finally {
+      if (savedKey !== undefined) process.env.EK_ANTHROPIC_API_KEY = savedKey;
+    }
+  });
+});
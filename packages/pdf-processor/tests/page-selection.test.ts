@@ -0,0 +1,32 @@
+import { firstSelectedPage, formatPageSelection, parsePageSelection, toPageRanges } from '../src/core/page-selection';
+import { describe, test, expect } from 'bun:test';
+
+describe('Sélection de pages', () => {
+  test('convertit pages isolées, plages et plages ouvertes', () => {
+    expect(parsePageSelection('1-3,7', 10)).toEqual([1, 2, 3, 7]);
+    expect(parsePageSelection(' 8- , 2 ', 10)).toEqual([2, 8, 9, 10]);
+    expect(parsePageSelection('3,1-2,3', 5)).toEqual([1, 2, 3]);
+  });
+
+  test('rejette les sélections invalides ou hors limites', () => {
+    expect(() => parsePageSelection('a-b', 10)).toThrow('Sélection de pages invalide');
+    expect(() => parsePageSelection('4-2', 10)).toThrow('Plage de pages invalide');
+    expect(() => parsePageSelection('0', 10)).toThrow('Plage de pages invalide');
+    expect(() => parsePageSelection('9-12', 10)).toThrow('hors limites');
+  });
+
+  test('regroupe les pages en plages contiguës pour Ghostscript', () => {
+    expect(toPageRanges([1, 2, 3, 7, 9, 10])).toEqual([
+      { first: 1, last: 3 },
+      { first: 7, last: 7 },
+      { first: 9, last: 10 },
+    ]);
+  });
+
+  test('reformule une liste de pages en sélection', () => {
+    expect(formatPageSelection([7, 1, 2, 3])).toBe('1-3,7');
+    expect(formatPageSelection([4])).toBe('4');
+    expect(firstSelectedPage('8-,3')).toBe(3);
+    expect(firstSelectedPage()).toBe(1);
+  });
+});
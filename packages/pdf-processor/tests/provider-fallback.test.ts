@@ -0,0 +1,74 @@
+import { CircuitBreaker, isProviderUnavailableError, providerCircuitBreaker } from '../src/core/vision/circuit-breaker';
+import { AIGenerator } from '../src/core/vision/ai-generator';
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { mockOpenAI } from './helpers/mock-openai';
+
+describe('Coupe-circuit', () => {
+  test('s\'ouvre après le seuil d\'échecs puis laisse passer une requête d\'essai', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(() => now);
+    const options = { failureThreshold: 2, resetTimeoutMs: 1000 };
+
+    breaker.recordFailure('scaleway', options);
+    expect(breaker.canRequest('scaleway', options)).toBe(true);
+    breaker.recordFailure('scaleway', options);
+    expect(breaker.getState('scaleway', options)).toBe('open');
+
+    now = 1000;
+    expect(breaker.getState('scaleway', options)).toBe('half-open');
+
+    // Échec de la requête d'essai : nouvelle ouverture immédiate
+    breaker.recordFailure('scaleway', options);
+    expect(breaker.getState('scaleway', options)).toBe('open');
+
+    now = 2000;
+    breaker.recordSuccess('scaleway');
+    expect(breaker.getState('scaleway', options)).toBe('closed');
+  });
+
+  test('distingue indisponibilité du provider et réponse invalide', () => {
+    expect(isProviderUnavailableError({ statusCode: 429 })).toBe(true);
+    expect(isProviderUnavailableError({ lastError: { statusCode: 503 } })).toBe(true);
+    expect(isProviderUnavailableError(new Error('fetch failed'))).toBe(true);
+    expect(isProviderUnavailableError({ statusCode: 400 })).toBe(false);
+    expect(isProviderUnavailableError(new Error('No object generated: response did not match schema.'))).toBe(false);
+  });
+});
+
+describe('Bascule de provider', () => {
+  // Provider principal en 503, provider de secours compatible OpenAI
+  const server = mockOpenAI(({ path }) => path.startsWith('/down')
+    ? new Response(JSON.stringify({ error: { message: 'Service Unavailable' } }), { status: 503, headers: { 'Content-Type': 'application/json' } })
+    : { total: 42 });
+
+  afterAll(() => server.stop());
+  beforeEach(() => providerCircuitBreaker.reset());
+
+  const schema = z.object({ total: z.number() });
+  const pdfProcessor = {
+    providers: {
+      custom: { baseURL: `${server.origin}/down/v1`, model: 'primary-model' },
+      ollama: { baseURL: `${server.origin}/up/v1`, model: 'backup-model' }
+    },
+    fallback: { providers: ['ollama' as const], failureThreshold: 1, resetTimeoutMs: 60_000 }
+  };
+
+  test('bascule sur le provider de secours et indique le provider utilisé', async () => {
+    const result = await new AIGenerator().generate([], schema, { provider: 'custom', maxRetries: 0, pdfProcessor });
+
+    expect(result.object).toEqual({ total: 42 });
+    expect(result.providerUsed).toBe('ollama');
+    expect(result.modelUsed).toBe('backup-model');
+    expect(result.fallbackAttempts?.[0]).toMatchObject({ provider: 'custom', model: 'primary-model' });
+  });
+
+  test('ignore un provider dont le circuit est ouvert', async () => {
+    const generator = new AIGenerator();
+    await generator.generate([], schema, { provider: 'custom', maxRetries: 0, pdfProcessor });
+    const result = await generator.generate([], schema, { provider: 'custom', maxRetries: 0, pdfProcessor });
+
+    expect(result.providerUsed).toBe('ollama');
+    expect(result.fallbackAttempts?.[0]?.skipped).toBe(true);
+  });
+});
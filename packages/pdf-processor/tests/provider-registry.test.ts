@@ -0,0 +1,59 @@
+import { providerRegistry, registerProvider } from '../src/core/providers';
+import { AIGenerator } from '../src/core/vision/ai-generator';
+import { validateExtractRequest } from '../src/api/validation';
+import { providers } from '../src/lib';
+import { createOpenAI } from '@ai-sdk/openai';
+import { describe, test, expect, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { TEST_IMAGE, mockOpenAI } from './helpers/mock-openai';
+
+describe('Registre des providers', () => {
+  // API compatible OpenAI qui renvoie une facture minimale et mémorise les requêtes
+  const server = mockOpenAI();
+
+  afterAll(() => server.stop());
+
+  registerProvider('test-vision', ({ model, config }) => createOpenAI({ apiKey: 'test', baseURL: config?.baseURL }).chat(model), {
+    displayName: 'Test Vision',
+    defaultModel: 'vision-test',
+    imageLimits: () => ({ maxPixels: 512 * 512, maxDimension: 512 }),
+    formatImage: image => ({ type: 'image', image: `data:image/png;base64,${image.base64}` })
+  });
+
+  test('les providers intégrés gardent leurs modèles et limites par défaut', () => {
+    expect(providers.mistral?.defaultModel).toBe('pixtral-12b-latest');
+    expect(providerRegistry.getImageLimits('mistral').maxDimension).toBe(1024);
+    expect(providerRegistry.getImageLimits('scaleway').maxDimension).toBe(1540);
+    expect(providerRegistry.getImageLimits('ollama').maxDimension).toBe(2048);
+  });
+
+  test('les limites d\'image suivent le modèle configuré pour le provider', () => {
+    const config = { providers: { mistral: { model: 'mistral-small-latest' } } };
+    expect(providerRegistry.getImageLimits('mistral', undefined, config).maxDimension).toBe(1540);
+    expect(providerRegistry.getImageLimits('mistral', 'pixtral-large-latest', config).maxDimension).toBe(1024);
+  });
+
+  test('un provider enregistré est exposé et accepté par l\'API', () => {
+    expect(Object.keys(providers)).toContain('test-vision');
+    expect(providers['test-vision']).toEqual({ name: 'Test Vision', models: [], defaultModel: 'vision-test' });
+    expect(providerRegistry.getImageLimits('test-vision')).toEqual({ maxPixels: 512 * 512, maxDimension: 512 });
+
+    expect(validateExtractRequest({ provider: 'test-vision' }).valid).toBe(true);
+    const invalid = validateExtractRequest({ provider: 'inconnu' });
+    expect(invalid.valid).toBe(false);
+    expect(invalid.error).toContain('Provider inconnu');
+  });
+
+  test('la génération utilise la fabrique et le format d\'image du provider', async () => {
+    const result = await new AIGenerator().generate([TEST_IMAGE], z.object({ total: z.number() }), {
+      provider: 'test-vision',
+      maxRetries: 0,
+      pdfProcessor: { providers: { 'test-vision': { baseURL: server.baseURL } } }
+    });
+
+    expect(result.object).toEqual({ total: 42 });
+    expect(result.modelUsed).toBe('vision-test');
+    expect(server.requests[0]!.body.model).toBe('vision-test');
+    expect(server.requests[0]!.prompt).toContain('data:image/png;base64,AAAA');
+  });
+});
@@ -0,0 +1,130 @@
+import { MemoryCacheBackend, FileSystemCacheBackend, RedisCacheBackend, computeCacheKey, hashSchema } from '../src/core/cache';
+import { AIVisionProcessor } from '../src/core/vision/processor';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { blankPng, mockOpenAI } from './helpers/mock-openai';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Cache des résultats', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'result-cache-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('le cache mémoire évince l\'entrée la moins récemment utilisée et respecte la durée de vie', async () => {
+    let now = 0;
+    const backend = new MemoryCacheBackend({ maxEntries: 2, now: () => now });
+
+    await backend.set('a', '1');
+    await backend.set('b', '2');
+    await backend.get('a');
+    await backend.set('c', '3');
+    expect(await backend.get('b')).toBeUndefined();
+    expect(await backend.get('a')).toBe('1');
+
+    await backend.set('d', '4', 1000);
+    now = 1000;
+    expect(await backend.get('d')).toBeUndefined();
+  });
+
+  test('le cache disque conserve les entrées entre instances jusqu\'à expiration', async () => {
+    let now = 0;
+    const directory = path.join(tempDir, 'fs');
+    await new FileSystemCacheBackend({ directory, now: () => now }).set('key-1', '{"total":42}', 5000);
+
+    const backend = new FileSystemCacheBackend({ directory, now: () => now });
+    expect(await backend.get('key-1')).toBe('{"total":42}');
+    expect(await backend.get('absente')).toBeUndefined();
+
+    now = 5000;
+    expect(await backend.get('key-1')).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  test('le cache Redis préfixe les clés et délègue l\'expiration au serveur', async () => {
+    const store = new Map<string, string>();
+    const expirations: Array<[string, number]> = [];
+    const backend = new RedisCacheBackend({
+      get: async key => store.get(key) ?? null,
+      set: async (key, value) => store.set(key, value),
+      expire: async (key, seconds) => expirations.push([key, seconds]),
+      del: async key => store.delete(key)
+    });
+
+    await backend.set('abc', 'valeur', 1500);
+    expect(store.get('pdf-processor:abc')).toBe('valeur');
+    expect(expirations).toEqual([['pdf-processor:abc', 2]]);
+    expect(await backend.get('abc')).toBe('valeur');
+    await backend.delete('abc');
+    expect(await backend.get('abc')).toBeUndefined();
+  });
+
+  test('la clé dépend du schéma et des options mais pas de leur ordre', () => {
+    const parts = { fileHash: 'f', schemaHash: hashSchema(z.object({ total: z.number() })), provider: 'mistral', model: 'pixtral-12b-latest' };
+
+    expect(computeCacheKey({ ...parts, options: { dpi: 300, pages: '1-2' } }))
+      .toBe(computeCacheKey({ ...parts, options: { pages: '1-2', dpi: 300, cropSize: undefined } }));
+    expect(computeCacheKey({ ...parts, options: { dpi: 300 } })).not.toBe(computeCacheKey({ ...parts, options: { dpi: 200 } }));
+    expect(hashSchema(z.object({ total: z.number() }))).not.toBe(hashSchema(z.object({ total: z.number().describe('Total TTC') })));
+  });
+
+  describe('dans le processeur', () => {
+    // API compatible OpenAI qui compte les appels
+    const server = mockOpenAI();
+
+    afterAll(() => server.stop());
+
+    test('sert une extraction identique depuis le cache, sauf en mode refresh ou bypass', async () => {
+      const imagePath = path.join(tempDir, 'scan.png');
+      await blankPng({ filePath: imagePath });
+
+      const processor = new AIVisionProcessor();
+      const options = {
+        provider: 'custom',
+        model: 'vision-test',
+        maxRetries: 0,
+        customSchema: z.object({ total: z.number() }),
+        pdfProcessor: {
+          providers: { custom: { baseURL: server.baseURL } },
+          cache: { backend: new MemoryCacheBackend() },
+          pricing: { models: { 'vision-test': { inputPerMillion: 1000, outputPerMillion: 2000 } } }
+        }
+      };
+
+      const first = await processor.process(imagePath, options);
+      expect(first.metadata.cache?.status).toBe('miss');
+      expect(server.requests).toHaveLength(1);
+
+      const second = await processor.process(imagePath, options);
+      expect(second.data).toEqual({ total: 42 });
+      expect(second.metadata.cache).toMatchObject({ status: 'hit', key: first.metadata.cache!.key });
+      expect(server.requests).toHaveLength(1);
+
+      // Aucun appel au modèle : consommation nulle, celle d'origine dans cache.originalUsage
+      expect(second.metadata.requestCount).toBe(0);
+      expect(second.metadata.usage).toMatchObject({ requestCount: 0, totalTokens: 0, byModel: [] });
+      expect(second.metadata.usage?.estimatedCost).toBeUndefined();
+      expect(first.metadata.usage?.estimatedCost).toBeGreaterThan(0);
+      expect(second.metadata.cache?.originalUsage).toEqual(first.metadata.usage!);
+
+      const refreshed = await processor.process(imagePath, { ...options, cache: 'refresh' as const });
+      expect(refreshed.metadata.cache?.status).toBe('refresh');
+      expect(server.requests).toHaveLength(2);
+
+      const bypassed = await processor.process(imagePath, { ...options, cache: 'bypass' as const });
+      expect(bypassed.metadata.cache).toBeUndefined();
+      expect(server.requests).toHaveLength(3);
+
+      // Un autre modèle ne partage pas l'entrée
+      await processor.process(imagePath, { ...options, model: 'vision-test-2' });
+      expect(server.requests).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { ResultMerger } from '../src/core/vision/result-merger';
+import { describe, test, expect } from 'bun:test';
+
+describe('ResultMerger', () => {
+  const merger = new ResultMerger();
+
+  test('concatène les lignes de facture et garde les totaux de la dernière page', () => {
+    const { object, pageSources } = merger.merge([
+      {
+        pages: [1],
+        object: {
+          invoice_details: { invoice_number: 'F-001', due_date: null },
+          line_items: [{ description: 'A', line_total: 10 }, { description: 'B', line_total: 20 }],
+          financial_totals: { subtotal: 30, total_amount: null },
+        },
+      },
+      {
+        pages: [2],
+        object: {
+          invoice_details: { invoice_number: 'F-001-bis', due_date: '2025-01-31' },
+          line_items: [{ description: 'C', line_total: 5 }],
+          financial_totals: { subtotal: 35, total_amount: 42 },
+        },
+      },
+    ]);
+
+    expect(object.invoice_details).toEqual({ invoice_number: 'F-001', due_date: '2025-01-31' });
+    expect(object.line_items.map((item: any) => item.description)).toEqual(['A', 'B', 'C']);
+    expect(object.financial_totals).toEqual({ subtotal: 35, total_amount: 42 });
+    expect(pageSources['line_items[1]']).toEqual([1]);
+    expect(pageSources['line_items[2]']).toEqual([2]);
+  });
+
+  test('prolonge un tableau détecté coupé entre deux pages', () => {
+    const headers = ['Date', 'Libellé', 'Montant'];
+    const { object, pageSources } = merger.merge([
+      { pages: [1, 2], object: { detected_tables: [{ headers, rows: [['01/01', 'X', 1]] }] } },
+      {
+        pages: [3],
+        object: {
+          detected_tables: [
+            { headers, rows: [['02/01', 'Y', 2]] },
+            { table_name: 'Récapitulatif', headers: ['Total'], rows: [[3]] },
+          ],
+        },
+      },
+    ]);
+
+    expect(object.detected_tables).toHaveLength(2);
+    expect(object.detected_tables[0].rows).toEqual([['01/01', 'X', 1], ['02/01', 'Y', 2]]);
+    expect(pageSources['detected_tables[0]']).toEqual([1, 2, 3]);
+    expect(pageSources['detected_tables[1]']).toEqual([3]);
+  });
+
+  test('ignore les lignes extraites deux fois dans le recouvrement des tuiles', () => {
+    const { object } = merger.merge([
+      { pages: [1], object: { line_items: [{ description: 'A' }, { description: 'B' }, { description: 'B' }] } },
+      { pages: [1], object: { line_items: [{ description: 'B' }, { description: 'C' }] } },
+    ], { dedupe: true });
+
+    expect(object.line_items.map((item: any) => item.description)).toEqual(['A', 'B', 'B', 'C']);
+  });
+
+  test('recalcule les chemins des positions après fusion', () => {
+    const bbox: [number, number, number, number] = [0, 0, 1, 1];
+    const { grounding } = merger.merge([
+      {
+        pages: [1],
+        object: { invoice_number: 'F-001', line_items: [{ description: 'A' }] },
+        grounding: { invoice_number: { page: 1, bbox }, 'line_items[0].description': { page: 1, bbox } },
+      },
+      {
+        pages: [2],
+        object: { invoice_number: 'F-002', line_items: [{ description: 'B' }] },
+        grounding: { invoice_number: { page: 2, bbox }, 'line_items[0].description': { page: 2, bbox } },
+      },
+    ]);
+
+    expect(grounding!['invoice_number']!.page).toBe(1);
+    expect(grounding!['line_items[0].description']!.page).toBe(1);
+    expect(grounding!['line_items[1].description']!.page).toBe(2);
+  });
+});
@@ -0,0 +1,121 @@
+import { SchemaRegistry, compareVersions } from '../src/core/schemas';
+import { registerSchema, listSchemas } from '../src/lib';
+import { handleExtractRequest } from '../src/api/handlers';
+import { validateExtractRequest } from '../src/api/validation';
+import type { ExtractionValidator } from '../src/core/validation';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { blankPng, mockOpenAI } from './helpers/mock-openai';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Registre des schémas', () => {
+  let tempDir: string;
+  let image: Buffer;
+
+  // API compatible OpenAI : bon de commande dont le total ne correspond pas aux lignes
+  const server = mockOpenAI(() => ({ order_number: 'PO-7', items: [{ amount: 10 }, { amount: 5 }], total: 20 }));
+
+  const pdfProcessor = { providers: { custom: { baseURL: server.baseURL } } };
+
+  const orderTotalValidator: ExtractionValidator = {
+    name: 'order-total',
+    appliesTo: () => true,
+    validate: (order: any) => {
+      const sum = order.items.reduce((total: number, item: any) => total + item.amount, 0);
+      return sum === order.total ? [] : [{ code: 'order_total_mismatch', message: 'Total différent de la somme des lignes', paths: ['total'], expected: sum, actual: order.total }];
+    }
+  };
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'schemas-'));
+    image = await blankPng();
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('la version la plus récente est utilisée sans version précisée', () => {
+    const registry = new SchemaRegistry();
+    registry.register({ name: 'delivery-note', version: '1.9', schema: z.object({ number: z.string() }) });
+    registry.register({ name: 'delivery-note', version: '1.10', schema: { type: 'object', properties: { number: { type: 'string' }, carrier: { type: 'string' } } } });
+
+    expect(registry.find('delivery-note')?.version).toBe('1.10');
+    expect(registry.find('delivery-note@1.9')?.format).toBe('zod');
+    expect(registry.find('delivery-note@3')).toBeUndefined();
+    expect(registry.list().filter(schema => schema.name === 'delivery-note').map(schema => [schema.version, schema.latest, schema.format]))
+      .toEqual([['1.9', false, 'zod'], ['1.10', true, 'json-schema']]);
+    expect(registry.names()).toEqual(['invoice', 'receipt', 'tables', 'utility-bill', 'delivery-note']);
+
+    expect(compareVersions('2', '1.9.9')).toBe(1);
+    expect(compareVersions('1.0', '1')).toBe(0);
+    expect(() => registry.register({ name: 'bon de livraison', version: '1', schema: z.object({}) })).toThrow('Nom de schéma invalide');
+  });
+
+  test('les schémas d\'un répertoire sont chargés au démarrage', async () => {
+    const directory = path.join(tempDir, 'valid');
+    await fs.mkdir(directory);
+    await fs.writeFile(path.join(directory, 'credit-note.json'), JSON.stringify({
+      name: 'credit-note',
+      version: '1',
+      prompt: 'TASK: Extract the credited invoice number.',
+      schema: { type: 'object', required: ['credited_invoice'], properties: { credited_invoice: { type: 'string' } } }
+    }));
+    await fs.writeFile(path.join(directory, 'quote.mjs'), `export default [
+      { name: 'quote', version: '1', schema: { type: 'object', properties: { total: { type: 'number' } } } },
+      { name: 'quote', version: '2', schema: { type: 'object', properties: { total: { type: 'number' }, valid_until: { type: 'string', format: 'date' } } },
+        validators: [{ name: 'quote-total', appliesTo: () => true, validate: () => [] }] }
+    ];`);
+    await fs.writeFile(path.join(directory, 'README.md'), 'ignoré');
+
+    const registry = new SchemaRegistry();
+    const loaded = await registry.loadDirectory(directory);
+
+    expect(loaded.map(schema => `${schema.name}@${schema.version}`)).toEqual(['credit-note@1', 'quote@1', 'quote@2']);
+    expect(registry.find('credit-note')?.prompt).toBe('TASK: Extract the credited invoice number.');
+    expect(registry.find('credit-note')!.schema.safeParse({}).success).toBe(false);
+    expect(registry.list().find(schema => schema.name === 'quote' && schema.latest)?.validators).toEqual(['quote-total']);
+  });
+
+  test('un fichier invalide interrompt le chargement avec son nom', async () => {
+    const directory = path.join(tempDir, 'invalid');
+    await fs.mkdir(directory);
+    await fs.writeFile(path.join(directory, 'broken.json'), JSON.stringify({ name: 'broken', version: '1', schema: { type: 'object', allOf: [] } }));
+
+    await expect(new SchemaRegistry().loadDirectory(directory)).rejects.toThrow('Schéma invalide dans broken.json: Mots-clés JSON Schema non supportés: allOf à #');
+  });
+
+  test('documentType sélectionne le schéma, son prompt et ses validateurs', async () => {
+    registerSchema({
+      name: 'purchase-order',
+      version: '2',
+      description: 'Purchase order',
+      schema: z.object({ order_number: z.string(), items: z.array(z.object({ amount: z.number() })), total: z.number() }),
+      prompt: 'TASK: Extract the order number and every ordered item.',
+      validators: [orderTotalValidator]
+    });
+
+    const form = new FormData();
+    form.append('file', new File([image], 'po.png', { type: 'image/png' }));
+    form.append('provider', 'custom');
+    form.append('model', 'vision-test');
+    form.append('documentType', 'purchase-order@2');
+
+    const response = await handleExtractRequest(new Request('http://localhost/api/v1/vision/extract', { method: 'POST', body: form }), {}, pdfProcessor);
+    const body = await response.json() as any;
+
+    expect(server.requests.at(-1)!.prompt).toContain('TASK: Extract the order number and every ordered item.');
+    expect(body.metadata).toMatchObject({ schemaUsed: 'purchase-order', schemaVersion: '2' });
+    expect(body.data.order_number).toBe('PO-7');
+    expect(body.validation.warnings.map((warning: any) => warning.code)).toEqual(['order_total_mismatch']);
+    expect(listSchemas().find(schema => schema.name === 'purchase-order')).toMatchObject({ version: '2', latest: true, hasPrompt: true, validators: ['order-total'] });
+  });
+
+  test('un type de document inconnu est refusé par l\'API', () => {
+    expect(validateExtractRequest({ documentType: 'purchase-order@9' }).error).toContain('Type de document inconnu: purchase-order@9');
+    expect(validateExtractRequest({ documentType: 'basic' }).valid).toBe(true);
+  });
+});
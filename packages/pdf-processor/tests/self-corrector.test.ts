@@ -0,0 +1,104 @@
+import { SelfCorrector } from '../src/core/vision/self-corrector';
+import { extractPdfWithMetadata } from '../src/lib';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { mockOpenAI } from './helpers/mock-openai';
+import sharp from 'sharp';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Auto-correction', () => {
+  const validate = (object: any) => object.total === 42
+    ? []
+    : [{ code: 'total_mismatch', message: 'Total incohérent', paths: ['total'], expected: 42, actual: object.total }];
+
+  /**
+   * Génération simulée : renvoie les réponses dans l'ordre et mémorise les contextes de correction reçus
+   */
+  function fakeGenerate(responses: any[]) {
+    const contexts: any[] = [];
+    const generate = async (correction: any) => {
+      contexts.push(correction);
+      const response = responses.shift();
+      if (response instanceof Error) throw response;
+      return { object: response, modelUsed: 'fake-model', providerUsed: 'scaleway', requestCount: 2, usage: [] };
+    };
+    return { generate, contexts };
+  }
+
+  const initial = { object: { total: 40 }, modelUsed: 'fake-model' };
+
+  test('renvoie l\'extraction précédente et les incohérences puis garde la réponse corrigée', async () => {
+    const { generate, contexts } = fakeGenerate([{ total: 41 }, { total: 42 }]);
+    const result = await new SelfCorrector().correct(initial, validate(initial.object), { generate, validate }, { provider: 'scaleway', maxCorrectionRounds: 3 });
+
+    expect(result.result.object).toEqual({ total: 42 });
+    expect(result.warnings).toEqual([]);
+    expect(result.attempts.map(attempt => attempt.accepted)).toEqual([false, true]);
+    expect(result.requestCount).toBe(4);
+    expect(contexts[0].previous).toEqual({ total: 40 });
+    expect(contexts[0].warnings[0].code).toBe('total_mismatch');
+  });
+
+  test('conserve le résultat précédent si la génération échoue', async () => {
+    const { generate } = fakeGenerate([new Error('quota dépassé')]);
+    const result = await new SelfCorrector().correct(initial, validate(initial.object), { generate, validate }, { provider: 'scaleway' });
+
+    expect(result.result).toBe(initial);
+    expect(result.attempts).toHaveLength(1);
+    expect(result.attempts[0]!.error).toBe('quota dépassé');
+  });
+
+  describe('extraction découpée', () => {
+    let tempDir: string;
+    let tiffPath: string;
+
+    // Total manquant à l'extraction initiale, renseigné sur la page 2 lors de la correction
+    const server = mockOpenAI(request => request.prompt.includes('CORRECTION') && request.prompt.includes('page(s) 2')
+      ? { total: 42 }
+      : { total: null });
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'self-corrector-'));
+      tiffPath = path.join(tempDir, 'facture.tiff');
+      const pages = await Promise.all(['#ffffff', '#eeeeee'].map(background =>
+        sharp({ create: { width: 40, height: 30, channels: 3, background } }).png().toBuffer()
+      ));
+      await sharp(pages, { join: { animated: true } }).tiff().toFile(tiffPath);
+    });
+
+    afterAll(async () => {
+      server.stop();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('chaque tentative reprend le découpage par groupe de pages', async () => {
+      const result = await extractPdfWithMetadata(tiffPath, z.object({ total: z.number().nullable() }), {
+        provider: 'custom',
+        model: 'vision-test',
+        pagesPerRequest: 1,
+        selfCorrect: true,
+        maxCorrectionRounds: 1,
+        requiredFields: ['total'],
+        pdfProcessor: { providers: { custom: { baseURL: server.baseURL } } }
+      });
+
+      // Une requête par page pour l'extraction puis pour la correction, avec les mêmes images
+      const images = (prompt: string) => prompt.match(/data:image[^"]*/g);
+      const corrections = server.requests.slice(2);
+      expect(corrections).toHaveLength(2);
+      for (const [index, request] of corrections.entries()) {
+        expect(request.prompt).toContain('CORRECTION');
+        expect(request.prompt).toContain(`page(s) ${index + 1}`);
+        expect(images(request.prompt)).toEqual(images(server.requests[index]!.prompt)!);
+        expect(images(request.prompt)).toHaveLength(1);
+      }
+
+      expect(result.data).toEqual({ total: 42 });
+      expect(result.metadata.requestCount).toBe(4);
+      expect(result.metadata.usage?.requestCount).toBe(4);
+      expect(result.metadata.corrections?.[0]?.accepted).toBe(true);
+    });
+  });
+});
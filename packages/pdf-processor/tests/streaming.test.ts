@@ -0,0 +1,121 @@
+import { observeAsStream } from '../src/core/vision/stream';
+import { extractPdfStream, type ExtractStreamEvent } from '../src/lib';
+import { handleExtractStreamRequest } from '../src/api/handlers';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { blankPng, chatCompletionStream, mockOpenAI, type MockReply } from './helpers/mock-openai';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Extraction en flux', () => {
+  let tempDir: string;
+  let imagePath: string;
+
+  // API compatible OpenAI qui renvoie la réponse en plusieurs fragments SSE
+  const server = mockOpenAI(() => chatCompletionStream(['{"invoice_number": "F-', '001", "total": 4', '2}']));
+
+  const schema = z.object({ invoice_number: z.string(), total: z.number() });
+  const pdfProcessor = { providers: { custom: { baseURL: server.baseURL } } };
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'streaming-'));
+    imagePath = path.join(tempDir, 'scan.png');
+    await blankPng({ filePath: imagePath });
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('les notifications sont transmises dans l\'ordre et les erreurs relancées à la fin', async () => {
+    const events: any[] = [];
+    const stream = observeAsStream<any, string>(async observer => {
+      observer.onProgress?.({ stage: 'rendering' });
+      await Bun.sleep(1);
+      observer.onPartial?.({ total: 4 });
+      throw new Error('quota dépassé');
+    });
+
+    await expect((async () => {
+      for await (const event of stream) events.push(event);
+    })()).rejects.toThrow('quota dépassé');
+    expect(events).toEqual([{ type: 'progress', stage: 'rendering' }, { type: 'partial', data: { total: 4 } }]);
+  });
+
+  test('extractPdfStream émet les étapes, les objets partiels puis le résultat', async () => {
+    const events: ExtractStreamEvent<z.infer<typeof schema>>[] = [];
+    for await (const event of extractPdfStream(imagePath, schema, { provider: 'custom', model: 'vision-test', maxRetries: 0, pdfProcessor })) {
+      events.push(event);
+    }
+
+    const stages = events.flatMap(event => event.type === 'progress' ? [event.stage] : []);
+    expect(stages).toEqual(['rendering', 'optimizing', 'generating', 'validating']);
+
+    const partials = events.flatMap(event => event.type === 'partial' ? [event.data] : []);
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials).toContainEqual({ invoice_number: 'F-001', total: 4 });
+
+    const last = events[events.length - 1]!;
+    expect(last.type).toBe('result');
+    expect(last.type === 'result' && last.result.data).toEqual({ invoice_number: 'F-001', total: 42 });
+    expect(last.type === 'result' && last.result.metadata.usage?.totalTokens).toBe(15);
+  });
+
+  test('la route SSE envoie progress, partial puis result', async () => {
+    const form = new FormData();
+    form.append('file', new File([await fs.readFile(imagePath)], 'scan.png', { type: 'image/png' }));
+    form.append('provider', 'custom');
+    form.append('model', 'vision-test');
+    form.append('query', JSON.stringify({ type: 'object', properties: { invoice_number: { type: 'string' }, total: { type: 'number' } } }));
+
+    const response = await handleExtractStreamRequest(new Request('http://localhost/api/v1/vision/extract/stream', { method: 'POST', body: form }), {}, pdfProcessor);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const events = (await response.text()).trim().split('\n\n').map(block => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine!.replace('event: ', ''), data: JSON.parse(dataLine!.replace('data: ', '')) };
+    });
+
+    expect(events[0]).toEqual({ event: 'progress', data: { stage: 'rendering' } });
+    expect(events.some(event => event.event === 'partial')).toBe(true);
+    const result = events[events.length - 1]!;
+    expect(result.event).toBe('result');
+    expect(result.data.success).toBe(true);
+    expect(result.data.data.total).toBe(42);
+  });
+
+  test('la déconnexion du client interrompt l\'appel au modèle', async () => {
+    // Réponse retenue jusqu'à l'abandon de la requête (ou 3 s au plus)
+    let aborted = false;
+    const slow = mockOpenAI(request => new Promise<MockReply>(resolve => {
+      const timer = setTimeout(() => resolve(chatCompletionStream(['{"total": 42}'])), 3000);
+      request.signal.addEventListener('abort', () => {
+        aborted = true;
+        clearTimeout(timer);
+        resolve(new Response(null, { status: 499 }));
+      });
+    }));
+
+    try {
+      const form = new FormData();
+      form.append('file', new File([await fs.readFile(imagePath)], 'scan.png', { type: 'image/png' }));
+      form.append('provider', 'custom');
+      form.append('model', 'vision-test');
+
+      const response = await handleExtractStreamRequest(new Request('http://localhost/api/v1/vision/extract/stream', { method: 'POST', body: form }), {}, { providers: { custom: { baseURL: slow.baseURL } } });
+      const reader = response.body!.getReader();
+      await reader.read();
+
+      for (let attempt = 0; attempt < 200 && slow.requests.length === 0; attempt++) await Bun.sleep(10);
+      await reader.cancel();
+      for (let attempt = 0; attempt < 200 && !aborted; attempt++) await Bun.sleep(10);
+
+      expect(slow.requests).toHaveLength(1);
+      expect(aborted).toBe(true);
+    } finally {
+      slow.stop();
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { extractTextFromPDF, hasUsableTextLayer } from '../src/core/file-processor';
+import { extractPdfWithMetadata } from '../src/lib';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { buildPdf } from './helpers/pdf';
+import { mockOpenAI } from './helpers/mock-openai';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Couche texte des PDF', () => {
+  let tempDir: string;
+  let digitalPath: string;
+  let scannedPath: string;
+
+  const server = mockOpenAI(() => ({ invoice_number: 'F-2024-001', total: 120 }));
+  const options = {
+    provider: 'custom',
+    model: 'vision-test',
+    maxRetries: 0,
+    pdfProcessor: { providers: { custom: { baseURL: server.baseURL } } }
+  };
+  const schema = z.object({ invoice_number: z.string(), total: z.number() });
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'text-layer-'));
+    digitalPath = path.join(tempDir, 'facture.pdf');
+    scannedPath = path.join(tempDir, 'scan.pdf');
+    await fs.writeFile(digitalPath, buildPdf([
+      { lines: ['Facture F-2024-001', 'Total TTC 120.00 EUR'] },
+      { lines: ['Conditions de paiement : 30 jours'] }
+    ]));
+    await fs.writeFile(scannedPath, buildPdf([{ scanned: true }]));
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('extrait le texte ligne par ligne avec sa position sur la page', async () => {
+    const pages = await extractTextFromPDF(digitalPath);
+
+    expect(pages.map(page => page.page)).toEqual([1, 2]);
+    expect(pages[0]!.text).toBe('Facture F-2024-001\nTotal TTC 120.00 EUR');
+    expect(pages[0]!.lines.map(line => line.text)).toEqual(['Facture F-2024-001', 'Total TTC 120.00 EUR']);
+
+    // Première ligne : x = 72 pt, haut du texte à 72 pt du haut de la page (origine en haut à gauche)
+    const [x0, y0, x1, y1] = pages[0]!.lines[0]!.bbox;
+    expect(x0).toBeCloseTo(72 / 612, 3);
+    expect(y0).toBeCloseTo(72 / 792, 3);
+    expect(x1).toBeGreaterThan(x0);
+    expect(y1).toBeCloseTo(84 / 792, 3);
+    expect(pages[0]!.lines[1]!.bbox[1]).toBeGreaterThan(y1);
+  });
+
+  test('respecte la sélection de pages', async () => {
+    const pages = await extractTextFromPDF(digitalPath, '2');
+    expect(pages).toHaveLength(1);
+    expect(pages[0]).toMatchObject({ page: 2, text: 'Conditions de paiement : 30 jours' });
+  });
+
+  test('distingue un PDF natif d\'un PDF scanné', async () => {
+    expect(hasUsableTextLayer(await extractTextFromPDF(digitalPath))).toBe(true);
+
+    const scanned = await extractTextFromPDF(scannedPath);
+    expect(scanned).toEqual([{ page: 1, text: '', lines: [] }]);
+    expect(hasUsableTextLayer(scanned)).toBe(false);
+    expect(hasUsableTextLayer([])).toBe(false);
+  });
+
+  test('le mode texte envoie les lignes et leurs positions sans image', async () => {
+    const result = await extractPdfWithMetadata(digitalPath, schema, { ...options, mode: 'text', pages: '1' });
+    const request = server.requests.at(-1)!;
+
+    expect(result.metadata.mode).toBe('text');
+    expect(result.data).toEqual({ invoice_number: 'F-2024-001', total: 120 });
+    expect(request.prompt).toContain('=== Page 1 ===\\n[0.12, 0.09] Facture F-2024-001\\n[0.12, 0.12] Total TTC 120.00 EUR');
+    expect(request.prompt).not.toContain('image_url');
+  });
+
+  // Le rendu des pages en image nécessite Ghostscript
+  test.skipIf(!Bun.which('gs'))('un PDF scanné repasse en mode vision', async () => {
+    const result = await extractPdfWithMetadata(scannedPath, schema, { ...options, mode: 'text' });
+    const request = server.requests.at(-1)!;
+
+    expect(result.metadata.mode).toBe('vision');
+    expect(request.prompt).not.toContain('DOCUMENT TEXT LAYER');
+    expect(request.prompt).toContain('image_url');
+  });
+});
@@ -0,0 +1,35 @@
+import { computeTileGrid, tileLabel } from '../src/core/vision/tiling';
+import { describe, test, expect } from 'bun:test';
+
+describe('Découpage en tuiles', () => {
+  const pixtral = { maxPixels: 1024 * 1024, maxDimension: 1024 };
+
+  test('ne découpe pas une page sous la limite du modèle', () => {
+    expect(computeTileGrid(1000, 800, pixtral, 0)).toBeNull();
+  });
+
+  test('couvre une page A4 à 300 DPI avec des tuiles qui se recouvrent', () => {
+    const tiles = computeTileGrid(2480, 3508, pixtral, 2)!;
+
+    expect(tiles.length).toBeGreaterThan(1);
+    for (const tile of tiles) {
+      expect(tile.sourceIndex).toBe(2);
+      expect(tile.width).toBeLessThanOrEqual(1024);
+      expect(tile.height).toBeLessThanOrEqual(1024);
+      expect(tile.left + tile.width).toBeLessThanOrEqual(2480);
+      expect(tile.top + tile.height).toBeLessThanOrEqual(3508);
+    }
+
+    const first = tiles[0]!;
+    const last = tiles[tiles.length - 1]!;
+    expect(first.left).toBe(0);
+    expect(first.top).toBe(0);
+    expect(last.left + last.width).toBe(2480);
+    expect(last.top + last.height).toBe(3508);
+
+    // Tuiles voisines sur une même ligne : recouvrement d'au moins 10 %
+    const second = tiles[1]!;
+    expect(first.left + first.width - second.left).toBeGreaterThanOrEqual(Math.floor(first.width * 0.1));
+    expect(tileLabel(second)).toBe(`tile-1x2-of-${first.rows}x${first.columns}`);
+  });
+});
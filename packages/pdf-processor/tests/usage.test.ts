@@ -0,0 +1,100 @@
+import { summarizeUsage, UsageTracker } from '../src/core/vision/usage';
+import { AIGenerator } from '../src/core/vision/ai-generator';
+import { handleInvoiceRequest, handleTablesRequest } from '../src/api/handlers';
+import { describe, test, expect, afterAll } from 'bun:test';
+import { z } from 'zod';
+import { TEST_IMAGE, blankPng, chatCompletion, mockOpenAI } from './helpers/mock-openai';
+
+describe('Consommation et coût des extractions', () => {
+  const pricing = {
+    currency: 'EUR',
+    models: {
+      'mistral/pixtral-12b-latest': { inputPerMillion: 0.15, outputPerMillion: 0.15 },
+      'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10, perImage: 0.001 }
+    }
+  };
+
+  test('agrège les appels par modèle et estime le coût des modèles ayant un prix', () => {
+    const usage = summarizeUsage([
+      { provider: 'mistral', model: 'pixtral-12b-latest', inputTokens: 1_000_000, outputTokens: 200_000, imageCount: 2 },
+      { provider: 'mistral', model: 'pixtral-12b-latest', inputTokens: 1_000_000, outputTokens: 0, imageCount: 1 },
+      { provider: 'openai', model: 'gpt-4o', inputTokens: 100_000, outputTokens: 10_000, imageCount: 1 },
+      { provider: 'ollama', model: 'llava:13b', inputTokens: 500, outputTokens: 50, imageCount: 1 }
+    ], pricing);
+
+    expect(usage.requestCount).toBe(4);
+    expect(usage.totalTokens).toBe(2_310_550);
+    expect(usage.imageCount).toBe(5);
+    expect(usage.byModel[0]).toMatchObject({ provider: 'mistral', requestCount: 2, inputTokens: 2_000_000, estimatedCost: 0.33 });
+    expect(usage.byModel[1]!.estimatedCost).toBe(0.351);
+    expect(usage.estimatedCost).toBe(0.681);
+    expect(usage.currency).toBe('EUR');
+    expect(usage.unpricedModels).toEqual(['ollama/llava:13b']);
+  });
+
+  test('sans table de prix, seuls les tokens sont comptés', () => {
+    const usage = summarizeUsage([{ provider: 'scaleway', model: 'mistral-small', inputTokens: 10, outputTokens: 5, imageCount: 1 }]);
+
+    expect(usage.totalTokens).toBe(15);
+    expect(usage.estimatedCost).toBeUndefined();
+    expect(usage.unpricedModels).toBeUndefined();
+  });
+
+  test('les compteurs cumulés additionnent les extractions', () => {
+    const tracker = new UsageTracker();
+    const call = { provider: 'openai', model: 'gpt-4o', inputTokens: 100_000, outputTokens: 10_000, imageCount: 1 };
+    tracker.record(summarizeUsage([call], pricing));
+    tracker.record(summarizeUsage([call, call], pricing));
+
+    const totals = tracker.getTotals();
+    expect(totals.extractions).toBe(2);
+    expect(totals.requestCount).toBe(3);
+    expect(totals.totalTokens).toBe(330_000);
+    expect(totals.estimatedCost).toBe(1.053);
+
+    tracker.reset();
+    expect(tracker.getTotals().extractions).toBe(0);
+  });
+
+  // API compatible OpenAI qui renvoie l'usage des tokens
+  const server = mockOpenAI(() => chatCompletion({ total: 42 }, { usage: { prompt_tokens: 1200, completion_tokens: 30 } }));
+
+  afterAll(() => server.stop());
+
+  test('chaque appel au modèle renvoie ses tokens et ses images', async () => {
+    const result = await new AIGenerator().generate([TEST_IMAGE, TEST_IMAGE], z.object({ total: z.number() }), {
+      provider: 'custom',
+      model: 'vision-test',
+      maxRetries: 0,
+      pdfProcessor: { providers: { custom: { baseURL: server.baseURL } } }
+    });
+
+    expect(result.usage).toEqual({ provider: 'custom', model: 'vision-test', inputTokens: 1200, outputTokens: 30, imageCount: 2 });
+  });
+
+  test('les routes facture et tableaux utilisent la configuration pdfProcessor et renvoient la consommation', async () => {
+    const pdfProcessor = {
+      providers: { custom: { baseURL: server.baseURL } },
+      pricing: { models: { 'vision-test': { inputPerMillion: 1000, outputPerMillion: 1000 } } }
+    };
+    const upload = async () => {
+      const form = new FormData();
+      form.append('file', new File([await blankPng()], 'facture.png', { type: 'image/png' }));
+      form.append('provider', 'custom');
+      form.append('model', 'vision-test');
+      return { method: 'POST', body: form };
+    };
+
+    const routes = [
+      handleInvoiceRequest(new Request('http://localhost/api/v1/vision/invoice', await upload()), {}, pdfProcessor),
+      handleTablesRequest(new Request('http://localhost/api/v1/vision/tables', await upload()), {}, pdfProcessor)
+    ];
+
+    for (const response of await Promise.all(routes)) {
+      const body = await response.json() as any;
+      expect(response.status).toBe(200);
+      expect(body.metadata.provider).toBe('custom');
+      expect(body.metadata.usage).toMatchObject({ requestCount: 1, inputTokens: 1200, outputTokens: 30, estimatedCost: 1.23 });
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { consistencyValidator } from '../src/core/validation';
+import { SchemaFactory, UtilityBillSchema, schemaRegistry } from '../src/core/schemas';
+import { extractPdfWithMetadata } from '../src/lib';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { blankPng, mockOpenAI } from './helpers/mock-openai';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Factures énergie, eau et télécoms', () => {
+  const validate = (bill: any) => consistencyValidator.validate(bill, UtilityBillSchema, 'utility-bill');
+
+  const bill = {
+    service_type: 'electricity',
+    delivery_points: [{ identifier: '09876543210123', identifier_type: 'PDL', tariff_option: 'Heures Creuses', subscribed_power_kva: 9 }],
+    meter_readings: [
+      { meter_number: 'M-42', tariff_band: 'HP', previous_reading: 12000, current_reading: 12350, consumption: 350, unit: 'kWh' },
+      { meter_number: 'M-42', tariff_band: 'HC', previous_reading: 8000, current_reading: 8200, consumption: 200, unit: 'kWh' },
+    ],
+    charges: [
+      { description: 'Consommation heures pleines', category: 'consumption', tariff_band: 'HP', quantity: 350, unit: 'kWh', unit_price: 0.2516, amount: 88.06 },
+      { description: 'Consommation heures creuses', category: 'consumption', tariff_band: 'HC', unit: 'kWh', unit_price: 0.1828, amount: 36.56 },
+      { description: 'Abonnement', category: 'subscription', quantity: 2, unit: 'mois', unit_price: 15.65, amount: 37.56, tax_rate: 20 },
+    ],
+  };
+
+  let tempDir: string;
+  let imagePath: string;
+
+  // API compatible OpenAI : la ligne heures pleines ne correspond pas à la consommation
+  const server = mockOpenAI(() => ({ ...bill, charges: [{ ...bill.charges[0], amount: 95 }] }));
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'utility-bill-'));
+    imagePath = path.join(tempDir, 'bill.png');
+    await blankPng({ filePath: imagePath });
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('accepte des relevés et des charges cohérents', () => {
+    expect(validate(bill)).toEqual([]);
+  });
+
+  test('signale une charge dont la consommation × prix unitaire diffère du montant', () => {
+    const warnings = validate({
+      ...bill,
+      meter_readings: [bill.meter_readings[0], { ...bill.meter_readings[1], consumption: 250 }],
+      charges: [{ ...bill.charges[0], amount: 95 }, bill.charges[1], bill.charges[2]],
+    });
+
+    expect(warnings.map(warning => warning.code)).toEqual(['consumption_mismatch', 'charge_amount_mismatch', 'charge_amount_mismatch']);
+    expect(warnings[0]).toMatchObject({ paths: ['meter_readings[1].previous_reading', 'meter_readings[1].current_reading', 'meter_readings[1].consumption'], expected: 200, actual: 250 });
+    expect(warnings[1]).toMatchObject({ paths: ['charges[0].quantity', 'charges[0].unit_price', 'charges[0].amount'], expected: 88.06, actual: 95 });
+    // Ligne sans quantité : consommation reprise du relevé heures creuses
+    expect(warnings[2]).toMatchObject({ paths: ['meter_readings[1].consumption', 'charges[1].unit_price', 'charges[1].amount'], expected: 45.7 });
+  });
+
+  test('applique le coefficient de conversion des relevés de gaz', () => {
+    const gas = { meter_readings: [{ tariff_band: 'base', previous_reading: 1000, current_reading: 1100, conversion_coefficient: 11.2, consumption: 1120, unit: 'kWh' }] };
+    expect(validate(gas)).toEqual([]);
+    expect(validate({ meter_readings: [{ ...gas.meter_readings[0], consumption: 1200 }] })[0]?.code).toBe('consumption_mismatch');
+  });
+
+  test('le type utility-bill sélectionne le schéma, son prompt et sa validation', async () => {
+    expect(SchemaFactory.getSchemaForDocumentType('utility-bill')).toBe(UtilityBillSchema);
+    expect(schemaRegistry.list().find(schema => schema.name === 'utility-bill')?.validators).toEqual(['utility-bill-arithmetic']);
+
+    const result = await extractPdfWithMetadata(imagePath, UtilityBillSchema, {
+      provider: 'custom',
+      model: 'vision-test',
+      documentType: 'utility-bill',
+      pdfProcessor: { providers: { custom: { baseURL: server.baseURL } } }
+    });
+
+    const request = server.requests.at(-1)!;
+    expect(request.prompt).toContain('PCE (gas)');
+    expect(JSON.stringify(request.body.response_format)).toContain('conversion_coefficient');
+    expect(result.data.delivery_points?.[0]?.identifier).toBe('09876543210123');
+    expect(result.validation.warnings?.map(warning => warning.code)).toEqual(['charge_amount_mismatch']);
+  });
+});